@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { Position, Range, TextChange } from './range';
+
+/**
+ * Conversions between the editor's types and the tracking model's own Position, Range and TextChange.
+ * Some editor APIs (such as TextDocument.offsetAt and getText) only accept their own instances, so ranges
+ * from the model are converted before being handed to them.
+ */
+
+export function toVscodePosition(position: Position): vscode.Position {
+    return new vscode.Position(position.line, position.character);
+}
+
+export function toVscodeRange(range: Range): vscode.Range {
+    return new vscode.Range(toVscodePosition(range.start), toVscodePosition(range.end));
+}
+
+export function fromVscodePosition(position: vscode.Position): Position {
+    return new Position(position.line, position.character);
+}
+
+export function fromVscodeRange(range: vscode.Range): Range {
+    return new Range(fromVscodePosition(range.start), fromVscodePosition(range.end));
+}
+
+export function fromVscodeChange(change: vscode.TextDocumentContentChangeEvent): TextChange {
+    return { range: fromVscodeRange(change.range), text: change.text };
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { ExtendedRange, ExtendedRangeType, mergeRangesSequentially, serializeChange } from './extendedRange';
+import { Range } from './range';
+import { StorageBackend, registerStorageBackend } from './storage';
+import type { AIEditMetadata, AttributionChange, AttributionChangeEvent, TabdApi } from './tabd';
+
+export type { AIEditMetadata, TabdApi };
+
+const attributionChanges = new vscode.EventEmitter<AttributionChangeEvent>();
+/** The ranges each file was last notified with, as JSON, so views refreshing with the same ranges don't fire the event */
+const notifiedChanges = new Map<string, string>();
+
+/**
+ * Tell other extensions that the ranges of a file have changed, if they are not the ones they were last told of
+ */
+export function notifyAttributionChange(uri: vscode.Uri, ranges: ExtendedRange[]) {
+    const changes = ranges.map(serializeChange);
+    const serializedChanges = JSON.stringify(changes);
+    if (notifiedChanges.get(uri.toString()) === serializedChanges) {
+        return;
+    }
+    notifiedChanges.set(uri.toString(), serializedChanges);
+
+    attributionChanges.fire({ uri, changes });
+}
+
+/**
+ * Add ranges reported as AI generated to the ranges of a file, replacing the parts of older ranges they overlap
+ */
+export function mergeReportedAIEdit(changes: ExtendedRange[], ranges: readonly Range[], metadata: AIEditMetadata, timestamp: number): ExtendedRange[] {
+    return mergeRangesSequentially(changes, ranges.filter(range => !range.isEmpty).map(range => new ExtendedRange(range.start, range.end, ExtendedRangeType.AIGenerated, timestamp, '', {
+        aiName: metadata.aiName,
+        aiModel: metadata.aiModel || '',
+        aiExplanation: metadata.explanation || '',
+        aiType: metadata.aiType || '',
+    })));
+}
+
+/**
+ * Create the API returned from activate, which is described for other extensions by tabd.d.ts
+ * @param getRanges Gets the ranges of a file, or undefined if it has not been loaded
+ * @param reportAIEdit Marks ranges of a file as AI generated
+ */
+export function createTabdApi(
+    getRanges: (uri: vscode.Uri) => ExtendedRange[] | undefined,
+    reportAIEdit: (uri: vscode.Uri, ranges: readonly vscode.Range[], metadata: AIEditMetadata) => Promise<void>,
+): TabdApi {
+    return {
+        version: 1,
+        getRanges: (uri: vscode.Uri): AttributionChange[] => (getRanges(uri) || []).map(serializeChange),
+        onDidChangeAttribution: attributionChanges.event,
+        reportAIEdit,
+        // The public typings describe the stored data with plain strings rather than the internal enum
+        registerStorageBackend: (storageType, storageBackend) => registerStorageBackend(storageType, storageBackend as StorageBackend),
+    };
+}
@@ -0,0 +1,480 @@
+#!/usr/bin/env node
+// Command line interface for reading Tab'd data outside the editor (such as in CI pipelines and code review bots).
+// It shares the storage backends and merge logic with the extension, but never loads the vscode module.
+import * as fs from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { ExtendedRange, ExtendedRangeType, mergeRangesSequentially, serializeChange } from './extendedRange';
+import { SerializedChange } from './types';
+import { ValidationIssue } from './migrations';
+import { DatabaseStorageBackend, getStorageBackend, getStorageTypes } from './storage';
+import { DatabaseQuery, matchesDatabaseQuery } from './database';
+import { AttributionReport, ReportFormat, buildAttributionReport, escapeCsv, formatAttributionReport, getLinePercentage } from './report';
+import { getLineOffsets } from './range';
+import { deserializeFileState } from './tracking';
+import { generateDataChecksum, getRelativePath, isHiddenPath } from './utils';
+import { getDiff, getRemoteUrl, getStagedFileContent, getStagedFiles, resolveCommit } from './git';
+import { AttributionPolicy, evaluatePolicies, validatePolicies } from './policies';
+import { DiffHunk, buildDiffAttribution, buildReviewCommentPayload, formatDiffAttributionMarkdown, parseDiffHunks } from './diffAttribution';
+
+const USAGE = `Usage: tabd <command> [file] [options]
+       tabd diff <range> [options]
+
+Commands:
+  list                     List the files with recorded attribution
+  summarize                Summarize attribution by type, AI name, AI model and author
+  validate                 Check the stored records and attribution policies, exiting with 1 on any violation
+  export                   Export the attributed ranges of each file
+  diff                     Attribute the lines changed in a Git range (such as origin/main...HEAD) for code review
+
+Options:
+  --repo <path>            The repository to read (default: the current directory)
+  --storage <type>         Where the data is stored: ${getStorageTypes().join(', ')} (default: repository)
+  --format <format>        Output format: text or json for list (default: text), markdown, json or csv for summarize
+                           (default: markdown), json or csv for export (default: json), markdown, json or review
+                           for diff (default: markdown, where review is a payload of review comments)
+  --max <type>=<percent>   validate: fail when more than this percentage of lines is of a type (e.g. AI_GENERATED=50)
+  --policies <path>        validate: also enforce the attribution policies in this JSON file, which holds an array
+                           of policies in the same form as the tabd.policies setting (or a settings object with it)
+  --strict                 validate: also fail on records made before the file last changed
+  --staged                 Only read the files staged for the next commit, as they are staged
+  --type <type>            list, summarize and export: only include changes of this type (e.g. AI_GENERATED)
+  --author <name>          list, summarize and export: only include changes by this author
+  --since <date>           list, summarize and export: only include changes made at or after this date
+  --until <date>           list, summarize and export: only include changes made at or before this date
+  --verbose                Log the warnings raised while loading records
+  --help                   Show this help
+
+Exit codes: 0 on success, 1 on policy violations, 2 on usage errors.`;
+
+// The output formats of each command, the first being the default
+const COMMAND_FORMATS: { [command: string]: string[] } = {
+    list: ['text', 'json'],
+    summarize: ['markdown', 'json', 'csv'],
+    validate: ['text'],
+    export: ['json', 'csv'],
+    diff: ['markdown', 'json', 'review'],
+};
+
+/** Where the CLI writes its output, so it can be captured when run in-process */
+export interface CliEnvironment {
+    cwd: string;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+interface CliOptions {
+    command: string;
+    file?: string;
+    /** The Git range of the diff command */
+    range?: string;
+    repo: string;
+    storage: string;
+    format: string;
+    max: Map<ExtendedRangeType, number>;
+    policies: AttributionPolicy[];
+    strict: boolean;
+    staged: boolean;
+    verbose: boolean;
+    /** Which changes to include, for the commands which list changes */
+    query: DatabaseQuery;
+}
+
+/** The current attribution of a file, merged from every record and anchored onto its current content */
+export interface FileAttribution {
+    /** Path of the file relative to the repository, with forward slashes */
+    path: string;
+    /** Content of the file, or undefined if it no longer exists */
+    content?: string;
+    changes: SerializedChange[];
+    records: number;
+    /** Records made before the file last changed, whose ranges are only kept where they can be anchored onto the current content */
+    staleRecords: number;
+    issues: ValidationIssue[];
+}
+
+class CliUsageError extends Error { }
+
+// The commands which the --type, --author, --since and --until options apply to
+const QUERY_COMMANDS = ['list', 'summarize', 'export'];
+
+function parseRangeType(type: string | undefined): ExtendedRangeType | undefined {
+    return (Object.values(ExtendedRangeType) as string[]).find(t => t === type?.toUpperCase()) as ExtendedRangeType | undefined;
+}
+
+function parseTime(arg: string, value: string): number {
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new CliUsageError(`Invalid date ${value} for ${arg}, expected a date such as 2025-01-31 or milliseconds since the epoch`);
+    }
+    return time;
+}
+
+function loadPolicies(policyPath: string): AttributionPolicy[] {
+    let value: unknown;
+    try {
+        value = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+    } catch (error) {
+        throw new CliUsageError(`Failed to read policies from ${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const { policies, issues } = validatePolicies(Array.isArray(value) ? value : (value as { [key: string]: unknown } | null)?.['tabd.policies']);
+    if (issues.length > 0) {
+        throw new CliUsageError(`Invalid policies in ${policyPath}: ${issues.join(', ')}`);
+    }
+    return policies;
+}
+
+function parseArgs(args: string[], environment: CliEnvironment): CliOptions {
+    const options: CliOptions = { command: '', format: '', repo: environment.cwd, storage: 'repository', max: new Map(), policies: [], strict: false, staged: false, verbose: false, query: {} };
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                throw new CliUsageError(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+
+        if (arg === '--repo') {
+            options.repo = path.resolve(environment.cwd, value());
+        } else if (arg === '--storage') {
+            options.storage = value();
+        } else if (arg === '--format') {
+            options.format = value();
+        } else if (arg === '--max') {
+            const [type, percent] = value().split('=');
+            const rangeType = parseRangeType(type);
+            if (!rangeType || percent === undefined || percent.trim() === '' || !(Number(percent) >= 0 && Number(percent) <= 100)) {
+                throw new CliUsageError(`Invalid policy ${args[i]}, expected <type>=<percent> with a type of ${Object.values(ExtendedRangeType).join(', ')}`);
+            }
+            options.max.set(rangeType, Number(percent));
+        } else if (arg === '--policies') {
+            options.policies = loadPolicies(path.resolve(environment.cwd, value()));
+        } else if (arg === '--strict') {
+            options.strict = true;
+        } else if (arg === '--staged') {
+            options.staged = true;
+        } else if (arg === '--verbose') {
+            options.verbose = true;
+        } else if (arg === '--type') {
+            options.query.type = parseRangeType(value());
+            if (!options.query.type) {
+                throw new CliUsageError(`Invalid type ${args[i]}, expected one of ${Object.values(ExtendedRangeType).join(', ')}`);
+            }
+        } else if (arg === '--author') {
+            options.query.author = value();
+        } else if (arg === '--since') {
+            options.query.since = parseTime(arg, value());
+        } else if (arg === '--until') {
+            options.query.until = parseTime(arg, value());
+        } else if (arg.startsWith('--')) {
+            throw new CliUsageError(`Unknown option ${arg}`);
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    if (positional.length === 0) {
+        throw new CliUsageError('Missing command');
+    }
+    if (positional.length > 2) {
+        throw new CliUsageError(`Unexpected argument ${positional[2]}`);
+    }
+    const formats = COMMAND_FORMATS[positional[0]];
+    if (!formats) {
+        throw new CliUsageError(`Unknown command ${positional[0]}`);
+    }
+    if (options.format && !formats.includes(options.format)) {
+        throw new CliUsageError(`Unsupported format ${options.format} for ${positional[0]}, expected one of ${formats.join(', ')}`);
+    }
+    if (!getStorageTypes().includes(options.storage)) {
+        throw new CliUsageError(`Unsupported storage type ${options.storage}`);
+    }
+    if (Object.keys(options.query).length > 0 && !QUERY_COMMANDS.includes(positional[0])) {
+        throw new CliUsageError(`--type, --author, --since and --until only apply to ${QUERY_COMMANDS.join(', ')}`);
+    }
+
+    options.command = positional[0];
+    options.format = options.format || formats[0];
+    if (options.command === 'diff') {
+        if (!positional[1]) {
+            throw new CliUsageError('Missing Git range for diff');
+        }
+        options.range = positional[1];
+    } else {
+        options.file = positional[1];
+    }
+    return options;
+}
+
+function isPositionInText(lineOffsets: number[], textLength: number, position: { line: number; character: number }): boolean {
+    if (position.line >= lineOffsets.length) {
+        return false;
+    }
+    const lineEnd = position.line + 1 < lineOffsets.length ? lineOffsets[position.line + 1] - 1 : textLength;
+    return lineOffsets[position.line] + position.character <= lineEnd;
+}
+
+/**
+ * Load the records of one file and merge those made against its current content, in the order they were saved
+ * @param staged Read the content staged for the next commit rather than the working tree
+ */
+export function loadFileAttribution(repo: string, storageType: string, relativePath: string, staged = false): FileAttribution {
+    const workspaceFolder = { uri: URI.file(repo), name: path.basename(repo), index: 0 };
+    const uri = URI.file(path.join(repo, relativePath));
+    const filePath = uri.fsPath;
+    const attribution: FileAttribution = { path: relativePath, changes: [], records: 0, staleRecords: 0, issues: [] };
+
+    if (staged) {
+        attribution.content = getStagedFileContent(workspaceFolder, relativePath);
+    } else if (fs.existsSync(filePath)) {
+        attribution.content = fs.readFileSync(filePath, 'utf8');
+    }
+    const checksum = attribution.content === undefined ? undefined : generateDataChecksum(attribution.content);
+    const lineOffsets = attribution.content === undefined ? [] : getLineOffsets(attribution.content);
+
+    let ranges: ExtendedRange[] = [];
+    for (const record of getStorageBackend(storageType).load(workspaceFolder, uri, attribution.issues)) {
+        attribution.records++;
+        if (attribution.content === undefined) {
+            attribution.staleRecords++;
+            continue;
+        }
+
+        // Records made against earlier content are anchored onto the current content the same way the extension does
+        const isStale = !!record.data.checksum && record.data.checksum !== checksum;
+        if (isStale) {
+            attribution.staleRecords++;
+        }
+
+        const changes = isStale ? record.data.changes : record.data.changes.filter((change, index) => {
+            if (isPositionInText(lineOffsets, attribution.content!.length, change.end)) {
+                return true;
+            }
+            attribution.issues.push({ source: record.id, field: `changes[${index}].end`, message: 'range extends past the end of the file' });
+            return false;
+        });
+        ranges = mergeRangesSequentially(ranges, deserializeFileState({ ...record.data, changes }, attribution.content, record.id));
+    }
+
+    attribution.changes = ranges.map(serializeChange);
+    return attribution;
+}
+
+function listFiles(options: CliOptions, environment: CliEnvironment): string[] {
+    if (options.file) {
+        const relativePath = getRelativePath({ uri: URI.file(options.repo), name: '', index: 0 }, URI.file(path.resolve(environment.cwd, options.file)));
+        if (path.isAbsolute(relativePath)) {
+            throw new CliUsageError(`${options.file} is not inside ${options.repo}`);
+        }
+        return [relativePath];
+    }
+
+    const workspaceFolder = { uri: URI.file(options.repo), name: path.basename(options.repo), index: 0 };
+    let stagedFiles: Set<string> | undefined;
+    if (options.staged) {
+        try {
+            stagedFiles = new Set(getStagedFiles(workspaceFolder));
+        } catch (error) {
+            throw new CliUsageError(`Failed to list the staged files in ${options.repo}`);
+        }
+    }
+
+    // The database finds the files with matching changes through its indexes, rather than every file being read
+    const storageBackend = getStorageBackend(options.storage);
+    const uris = storageBackend instanceof DatabaseStorageBackend && Object.keys(options.query).length > 0
+        ? [...new Set(storageBackend.getDatabase(workspaceFolder).query(options.query).map(result => result.path))].map(relativePath => URI.file(path.join(options.repo, relativePath)))
+        : storageBackend.list(workspaceFolder);
+
+    return uris
+        .map(uri => getRelativePath(workspaceFolder, uri))
+        .filter(relativePath => !isHiddenPath(relativePath) && (!stagedFiles || stagedFiles.has(relativePath)))
+        .sort();
+}
+
+function buildReport(files: FileAttribution[], options: CliOptions): AttributionReport {
+    return buildAttributionReport(path.basename(options.repo), files
+        .filter(file => file.content !== undefined && file.changes.length > 0)
+        .map(file => ({ path: file.path, content: file.content!, changes: file.changes })));
+}
+
+function list(files: FileAttribution[], options: CliOptions, environment: CliEnvironment): number {
+    if (options.format === 'json') {
+        environment.stdout(JSON.stringify(files.map(file => ({
+            path: file.path,
+            exists: file.content !== undefined,
+            records: file.records,
+            staleRecords: file.staleRecords,
+            changes: file.changes.length,
+        })), null, 2) + '\n');
+        return 0;
+    }
+
+    for (const file of files) {
+        const details = [`${file.records} record${file.records === 1 ? '' : 's'}`, `${file.changes.length} change${file.changes.length === 1 ? '' : 's'}`];
+        if (file.staleRecords > 0) {
+            details.push(`${file.staleRecords} stale`);
+        }
+        if (file.content === undefined) {
+            details.push('missing');
+        }
+        environment.stdout(`${file.path}\t${details.join(', ')}\n`);
+    }
+    return 0;
+}
+
+function summarize(files: FileAttribution[], options: CliOptions, environment: CliEnvironment): number {
+    environment.stdout(formatAttributionReport(buildReport(files, options), options.format as ReportFormat));
+    return 0;
+}
+
+function validate(files: FileAttribution[], options: CliOptions, environment: CliEnvironment): number {
+    let violations = 0;
+
+    for (const file of files) {
+        for (const issue of file.issues) {
+            environment.stdout(`${file.path}: invalid record ${issue.source}: ${issue.field || '(root)'} ${issue.message}\n`);
+            violations++;
+        }
+        if (file.staleRecords > 0) {
+            environment.stdout(`${file.path}: ${file.staleRecords} of ${file.records} records were made before the file last changed\n`);
+            violations += options.strict ? 1 : 0;
+        }
+    }
+
+    // Policies are measured against the lines of the files with recorded attribution
+    const report = buildReport(files, options);
+    for (const [type, maxPercent] of options.max) {
+        const lines = report.byType.find(row => row.name === type)?.lines || 0;
+        const percent = getLinePercentage(report, lines);
+        if (Number(percent) > maxPercent) {
+            environment.stdout(`Policy violation: ${percent}% of lines are ${type}, more than the maximum of ${maxPercent}%\n`);
+            violations++;
+        }
+    }
+
+    for (const file of files) {
+        if (file.content === undefined) {
+            continue;
+        }
+        for (const violation of evaluatePolicies(options.policies, { path: file.path, content: file.content, changes: file.changes })) {
+            environment.stdout(`${file.path}: Policy ${violation.severity}${violation.policy.name ? ` (${violation.policy.name})` : ''}: ${violation.message}\n`);
+            violations += violation.severity === 'error' ? 1 : 0;
+        }
+    }
+
+    environment.stdout(violations === 0
+        ? `Validated ${files.length} file${files.length === 1 ? '' : 's'}.\n`
+        : `Found ${violations} violation${violations === 1 ? '' : 's'} in ${files.length} file${files.length === 1 ? '' : 's'}.\n`);
+    return violations === 0 ? 0 : 1;
+}
+
+function exportChanges(files: FileAttribution[], options: CliOptions, environment: CliEnvironment): number {
+    if (options.format === 'json') {
+        environment.stdout(JSON.stringify(files.map(file => ({ path: file.path, changes: file.changes })), null, 2) + '\n');
+        return 0;
+    }
+
+    const columns: (keyof SerializedChange)[] = ['type', 'creationTimestamp', 'author', 'pasteUrl', 'pasteTitle', 'aiName', 'aiModel', 'aiExplanation', 'aiType'];
+    const rows: (string | number)[][] = [['path', 'startLine', 'startCharacter', 'endLine', 'endCharacter', ...columns]];
+    for (const file of files) {
+        for (const change of file.changes) {
+            rows.push([file.path, change.start.line, change.start.character, change.end.line, change.end.character, ...columns.map(column => String(change[column] ?? ''))]);
+        }
+    }
+    environment.stdout(rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n');
+    return 0;
+}
+
+function getDiffHunks(options: CliOptions): DiffHunk[] {
+    try {
+        return parseDiffHunks(getDiff({ uri: URI.file(options.repo), name: path.basename(options.repo), index: 0 }, options.range!))
+            .filter(hunk => !isHiddenPath(hunk.path));
+    } catch (error) {
+        const message = error instanceof Error ? (String((error as { stderr?: unknown }).stderr || '').trim() || error.message) : String(error);
+        throw new CliUsageError(`Failed to diff ${options.range}: ${message.split('\n')[0]}`);
+    }
+}
+
+function diff(files: FileAttribution[], hunks: DiffHunk[], options: CliOptions, environment: CliEnvironment): number {
+    const workspaceFolder = { uri: URI.file(options.repo), name: path.basename(options.repo), index: 0 };
+    const remoteUrl = getRemoteUrl(workspaceFolder);
+    const commit = remoteUrl ? resolveCommit(workspaceFolder, 'HEAD') : undefined;
+    const attribution = buildDiffAttribution(options.range!, hunks, files, remoteUrl && commit ? { remoteUrl, commit } : undefined);
+
+    if (options.format === 'json') {
+        environment.stdout(JSON.stringify(attribution, null, 2) + '\n');
+    } else if (options.format === 'review') {
+        environment.stdout(JSON.stringify(buildReviewCommentPayload(attribution), null, 2) + '\n');
+    } else {
+        environment.stdout(formatDiffAttributionMarkdown(attribution));
+    }
+    return 0;
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths)
+ * @returns The exit code
+ */
+export function runCli(args: string[], environment: CliEnvironment = {
+    cwd: process.cwd(),
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+}): number {
+    if (args.includes('--help') || args.includes('-h')) {
+        environment.stdout(USAGE + '\n');
+        return 0;
+    }
+
+    try {
+        const options = parseArgs(args, environment);
+
+        // Problems with records are reported by validate, so the warnings logged by the storage backends are only noise
+        const { warn, debug } = console;
+        if (!options.verbose) {
+            console.warn = console.debug = () => { };
+        }
+        let hunks: DiffHunk[];
+        let files: FileAttribution[];
+        try {
+            // The diff command only reads the files changed in the range
+            hunks = options.command === 'diff' ? getDiffHunks(options) : [];
+            const relativePaths = options.command === 'diff' ? [...new Set(hunks.map(hunk => hunk.path))] : listFiles(options, environment);
+            files = relativePaths.map(relativePath => loadFileAttribution(options.repo, options.storage, relativePath, options.staged));
+            if (Object.keys(options.query).length > 0) {
+                for (const file of files) {
+                    file.changes = file.changes.filter(change => matchesDatabaseQuery(change, options.query));
+                }
+            }
+        } finally {
+            console.warn = warn;
+            console.debug = debug;
+        }
+
+        switch (options.command) {
+            case 'list':
+                return list(files, options, environment);
+            case 'summarize':
+                return summarize(files, options, environment);
+            case 'validate':
+                return validate(files, options, environment);
+            case 'diff':
+                return diff(files, hunks, options, environment);
+            default:
+                return exportChanges(files, options, environment);
+        }
+    } catch (error) {
+        if (error instanceof CliUsageError) {
+            environment.stderr(`${error.message}\n\n${USAGE}\n`);
+            return 2;
+        }
+        throw error;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = runCli(process.argv.slice(2));
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { shouldProcessFile } from './utils';
+import { shouldProcessFile } from './workspace';
 import { ClipboardData } from './types';
 
 var lastClipboardContent: string | null = null;
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { ExtendedRange, serializeChange } from './extendedRange';
+import { shouldProcessFile } from './workspace';
+import { describeSymbolChange, formatSymbolAttribution, summarizeSymbolAttribution } from './symbolAttribution';
+
+/** The kinds of symbol summarized, as the rest are either too small or contain these */
+const SUMMARIZED_SYMBOL_KINDS = [vscode.SymbolKind.Class, vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor];
+
+const codeLensChanges = new vscode.EventEmitter<void>();
+
+/**
+ * Ask the editor for new CodeLenses after the ranges of a document or the settings have changed
+ */
+export function refreshCodeLenses() {
+    codeLensChanges.fire();
+}
+
+function flattenSymbols(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): { name: string; kind: vscode.SymbolKind; range: vscode.Range }[] {
+    return symbols.flatMap(symbol => 'children' in symbol
+        ? [{ name: symbol.name, kind: symbol.kind, range: symbol.range }, ...flattenSymbols(symbol.children)]
+        : [{ name: symbol.name, kind: symbol.kind, range: symbol.location.range }]);
+}
+
+/**
+ * Shows how each class and function was written above it, when enabled by the tabd.codeLens setting
+ */
+export class AttributionCodeLensProvider implements vscode.CodeLensProvider {
+    public readonly onDidChangeCodeLenses = codeLensChanges.event;
+    private readonly getRanges: (d: vscode.TextDocument) => ExtendedRange[] | undefined;
+
+    constructor(
+        getRanges: (d: vscode.TextDocument) => ExtendedRange[] | undefined
+    ) {
+        this.getRanges = getRanges;
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const config = vscode.workspace.getConfiguration('tabd');
+        if (!config.get<boolean>('codeLens', false) || config.get<boolean>('disabled', false) || !shouldProcessFile(document.uri)) {
+            return [];
+        }
+
+        const ranges = this.getRanges(document);
+        if (!ranges || ranges.length === 0) {
+            return [];
+        }
+
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>('vscode.executeDocumentSymbolProvider', document.uri);
+        if (!symbols || token.isCancellationRequested) {
+            return [];
+        }
+
+        const changes = ranges.map(serializeChange);
+        const codeLenses: vscode.CodeLens[] = [];
+        for (const symbol of flattenSymbols(symbols)) {
+            if (!SUMMARIZED_SYMBOL_KINDS.includes(symbol.kind)) {
+                continue;
+            }
+
+            const attribution = summarizeSymbolAttribution(changes, symbol.range.start.line, symbol.range.end.line);
+            if (attribution.ai + attribution.pasted + attribution.unknown === 0) {
+                continue; // Only written by you, which would add a lens to every symbol
+            }
+
+            codeLenses.push(new vscode.CodeLens(new vscode.Range(symbol.range.start, symbol.range.start), {
+                title: formatSymbolAttribution(attribution),
+                tooltip: `Show the changes which make up ${symbol.name}`,
+                command: 'tabd.showSymbolAttribution',
+                arguments: [document.uri, symbol.name, symbol.range],
+            }));
+        }
+
+        return codeLenses;
+    }
+}
+
+/**
+ * List the changes which make up a symbol, revealing the one picked in the editor
+ */
+export async function showSymbolAttribution(uri: vscode.Uri, name: string, range: vscode.Range, ranges: ExtendedRange[]) {
+    const attribution = summarizeSymbolAttribution(ranges.map(serializeChange), range.start.line, range.end.line);
+    if (attribution.changes.length === 0) {
+        vscode.window.showInformationMessage(`No tracked changes found in ${name}.`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(attribution.changes.map(change => ({
+        ...describeSymbolChange(change),
+        range: new vscode.Range(change.start.line, change.start.character, change.end.line, change.end.character),
+    })), {
+        title: `Tab'd: ${name} • ${formatSymbolAttribution(attribution)}`,
+        placeHolder: 'Select a change to reveal it in the editor',
+        matchOnDetail: true,
+    });
+    if (!picked) {
+        return;
+    }
+
+    await vscode.window.showTextDocument(uri, { selection: picked.range });
+}
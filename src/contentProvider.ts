@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { ExtendedRange, serializeChange } from './extendedRange';
+import { ATTRIBUTION_VIEWS, AttributionView, getAttributionView, isAttributionView } from './contentViews';
+
+export const ATTRIBUTION_VIEW_SCHEME = 'tabd';
+
+const documentChanges = new vscode.EventEmitter<vscode.Uri>();
+
+/**
+ * The URI of a view of a file, such as tabd:/path/to/file.ts?ai, which keeps the file's path so it gets the same language
+ */
+export function getAttributionViewUri(uri: vscode.Uri, view: AttributionView): vscode.Uri {
+    return uri.with({ scheme: ATTRIBUTION_VIEW_SCHEME, query: view });
+}
+
+/**
+ * Update the open views of a file after its ranges have changed
+ */
+export function refreshAttributionViewDocuments(uri: vscode.Uri) {
+    for (const document of vscode.workspace.textDocuments) {
+        if (document.uri.scheme === ATTRIBUTION_VIEW_SCHEME && document.uri.path === uri.path) {
+            documentChanges.fire(document.uri);
+        }
+    }
+}
+
+/**
+ * Provides the AI only and human only views of files, under the tabd: scheme
+ */
+export class AttributionContentProvider implements vscode.TextDocumentContentProvider {
+    public readonly onDidChange = documentChanges.event;
+    private readonly getRanges: (d: vscode.TextDocument) => ExtendedRange[];
+
+    constructor(
+        getRanges: (d: vscode.TextDocument) => ExtendedRange[]
+    ) {
+        this.getRanges = getRanges;
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        if (!isAttributionView(uri.query)) {
+            return '';
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri.with({ scheme: 'file', query: '' }));
+        return getAttributionView(document.getText(), this.getRanges(document).map(serializeChange), uri.query);
+    }
+}
+
+/**
+ * Compare a file with one of its views in a diff editor
+ */
+export async function compareWithAttributionView(uri: vscode.Uri, view: AttributionView) {
+    const fileName = uri.path.substring(uri.path.lastIndexOf('/') + 1);
+    await vscode.commands.executeCommand('vscode.diff', uri, getAttributionViewUri(uri, view), `${fileName} ↔ ${ATTRIBUTION_VIEWS[view].title}`);
+}
@@ -0,0 +1,51 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+
+/** The views of a file: only its AI generated code, or everything else */
+export type AttributionView = 'ai' | 'human';
+
+export const ATTRIBUTION_VIEWS: { [view in AttributionView]: { title: string } } = {
+    ai: { title: 'AI Only' },
+    human: { title: 'Human Only' },
+};
+
+export function isAttributionView(value: string): value is AttributionView {
+    return Object.keys(ATTRIBUTION_VIEWS).includes(value);
+}
+
+/**
+ * Keep only the AI generated characters of a file's content, or only the rest. Line breaks are always kept,
+ * so each line of the view lines up with the same line of the file when the two are compared.
+ */
+export function getAttributionView(content: string, changes: SerializedChange[], view: AttributionView): string {
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    // A stale range may run past the end of its line, which must not mask the lines after it
+    const getOffset = (position: { line: number; character: number }) => {
+        if (position.line >= lineStarts.length) {
+            return content.length;
+        }
+        const lineEnd = position.line + 1 < lineStarts.length ? lineStarts[position.line + 1] - 1 : content.length;
+        return Math.min(lineStarts[position.line] + position.character, lineEnd);
+    };
+
+    const aiGenerated = new Uint8Array(content.length);
+    for (const change of changes) {
+        if (change.type === ExtendedRangeType.AIGenerated) {
+            aiGenerated.fill(1, getOffset(change.start), getOffset(change.end));
+        }
+    }
+
+    let result = '';
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (char === '\n' || char === '\r' || (aiGenerated[i] === 1) === (view === 'ai')) {
+            result += char;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,523 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SerializedChange, SerializedFileState } from './types';
+import { ExtendedRangeType } from './extendedRange';
+import { ValidationIssue, loadSerializedFileState } from './migrations';
+import { uniqueFileName } from './utils';
+
+/** A stored record of the changes made to a workspace file */
+export interface DatabaseRecord {
+    id: string;
+    /** Path of the file relative to the workspace folder */
+    path: string;
+    /** When the record was first saved (overwriting a record keeps its place in the history) */
+    savedAt: number;
+    data: SerializedFileState;
+}
+
+type DatabaseEntry =
+    | { op: 'put'; id: string; path: string; savedAt: number; data: SerializedFileState }
+    | { op: 'delete'; path?: string }
+    | { op: 'rename'; path: string; newPath: string };
+
+export interface DatabaseQuery {
+    path?: string;
+    type?: ExtendedRangeType;
+    author?: string;
+    /** Only include changes created at or after this time */
+    since?: number;
+    /** Only include changes created at or before this time */
+    until?: number;
+}
+
+/**
+ * Whether a change matches the type, author and time of a query
+ */
+export function matchesDatabaseQuery(change: SerializedChange, query: DatabaseQuery): boolean {
+    return (query.type === undefined || change.type === query.type) &&
+        (query.author === undefined || (change.author || '') === query.author) &&
+        (query.since === undefined || change.creationTimestamp >= query.since) &&
+        (query.until === undefined || change.creationTimestamp <= query.until);
+}
+
+export interface DatabaseQueryResult {
+    path: string;
+    record: DatabaseRecord;
+    /** The changes of the record which match the query */
+    changes: SerializedChange[];
+}
+
+// Rewrite the file once superseded entries outnumber live records by this factor
+const COMPACTION_RATIO = 2;
+
+// How long to wait for another window to finish writing, and how old a lock left behind by a window which exited must be to be taken over
+const LOCK_TIMEOUT = 5000;
+const STALE_LOCK_AGE = 30000;
+
+/**
+ * A single append-only database file holding every record for a workspace.
+ * Each line is one JSON entry: a record being written (or overwritten, by reusing its id), or the records of a file
+ * being deleted or moved. The file is replayed into in-memory indexes by path, type, author and time, and re-read
+ * incrementally when another window appends to it. Appends and compaction hold a lock file, so a compaction can't drop
+ * an entry which another window appends while the file is being rewritten.
+ */
+export class AttributionDatabase {
+    private readonly records = new Map<string, DatabaseRecord>();
+    // Order in which records were first written, to keep records saved within the same millisecond in order
+    private readonly sequence = new Map<string, number>();
+    private nextSequence = 0;
+    private readonly byPath = new Map<string, Set<string>>();
+    private readonly byType = new Map<string, Set<string>>();
+    private readonly byAuthor = new Map<string, Set<string>>();
+    // Records by the times of their earliest and latest changes, as only records whose changes overlap a time query can match it
+    private readonly byFirstChange = new TimeIndex();
+    private readonly byLastChange = new TimeIndex();
+    // Problems with the latest entry of each record which could not be fully loaded, for validation to report
+    private readonly recordIssues = new Map<string, { path: string; issues: ValidationIssue[] }>();
+    private loadedSize = 0;
+    private loadedInode = 0;
+    private supersededEntries = 0;
+
+    constructor(private readonly filePath: string) { }
+
+    /**
+     * Write a record for a file, overwriting the record with the given id if there is one
+     * @returns The id of the record
+     */
+    put(filePath: string, data: SerializedFileState, id?: string): string {
+        this.refresh();
+
+        const existingRecord = id ? this.records.get(id) : undefined;
+        const entry: DatabaseEntry = {
+            op: 'put',
+            id: id || uniqueFileName().replace(/\.json$/, ''),
+            path: filePath,
+            savedAt: existingRecord ? existingRecord.savedAt : Date.now(),
+            data,
+        };
+
+        this.append(entry);
+        return entry.id;
+    }
+
+    /**
+     * Delete the records of a file, or of every file if no path is given
+     */
+    delete(filePath?: string): void {
+        this.refresh();
+        this.append({ op: 'delete', path: filePath });
+    }
+
+    /**
+     * Move the records of a file to a new path
+     */
+    rename(filePath: string, newFilePath: string): void {
+        this.refresh();
+        this.append({ op: 'rename', path: filePath, newPath: newFilePath });
+    }
+
+    /**
+     * Get the records of a file, oldest first
+     * @param issues Collects problems with the records of the file which could not be fully loaded
+     */
+    getRecords(filePath: string, issues?: ValidationIssue[]): DatabaseRecord[] {
+        this.refresh();
+        for (const invalidRecord of this.recordIssues.values()) {
+            if (invalidRecord.path === filePath) {
+                issues?.push(...invalidRecord.issues);
+            }
+        }
+        return this.sortRecords([...(this.byPath.get(filePath) || [])]);
+    }
+
+    /**
+     * Get the paths of every file with records
+     */
+    getPaths(): string[] {
+        this.refresh();
+        return [...this.byPath.keys()].sort();
+    }
+
+    /**
+     * Find the changes matching a query, grouped by record (oldest first)
+     */
+    query(query: DatabaseQuery): DatabaseQueryResult[] {
+        this.refresh();
+
+        // Narrow the candidates down using the indexes before checking each change
+        let candidates: Set<string> | undefined;
+        const narrow = (ids: Set<string> | undefined) => {
+            const matching = ids || new Set<string>();
+            candidates = candidates ? new Set([...candidates].filter(id => matching.has(id))) : matching;
+        };
+        if (query.path !== undefined) {
+            narrow(this.byPath.get(query.path));
+        }
+        if (query.type !== undefined) {
+            narrow(this.byType.get(query.type));
+        }
+        if (query.author !== undefined) {
+            narrow(this.byAuthor.get(query.author));
+        }
+        if (query.since !== undefined) {
+            narrow(this.byLastChange.range(query.since));
+        }
+        if (query.until !== undefined) {
+            narrow(this.byFirstChange.range(undefined, query.until));
+        }
+
+        const results: DatabaseQueryResult[] = [];
+        for (const record of this.sortRecords([...(candidates || this.records.keys())])) {
+            const changes = record.data.changes.filter(change => matchesDatabaseQuery(change, query));
+            if (changes.length > 0) {
+                results.push({ path: record.path, record, changes });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Rewrite the database file with only the live records, dropping superseded and deleted entries
+     */
+    compact(): void {
+        // Holding the lock from reading the file until it is replaced means no other window can append in between
+        this.withLock(() => {
+            this.refresh();
+
+            const content = this.sortRecords([...this.records.keys()])
+                .map(record => JSON.stringify({ op: 'put', ...record }) + '\n')
+                .join('');
+
+            // Write to a temporary file first so a failure part way through cannot lose records
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            fs.writeFileSync(tempPath, content);
+            fs.renameSync(tempPath, this.filePath);
+
+            this.loadedSize = Buffer.byteLength(content);
+            this.loadedInode = fs.statSync(this.filePath).ino;
+            this.supersededEntries = 0;
+        });
+    }
+
+    private sortRecords(ids: string[]): DatabaseRecord[] {
+        return ids
+            .map(id => this.records.get(id)!)
+            .sort((a, b) => a.savedAt - b.savedAt || this.sequence.get(a.id)! - this.sequence.get(b.id)!);
+    }
+
+    private append(entry: DatabaseEntry): void {
+        const line = JSON.stringify(entry) + '\n';
+        this.withLock(() => {
+            // Catch up with other windows first, so the loaded size still matches the file once the entry is added
+            this.refresh();
+            fs.appendFileSync(this.filePath, line);
+            if (this.loadedSize === 0) {
+                this.loadedInode = fs.statSync(this.filePath).ino;
+            }
+            this.loadedSize += Buffer.byteLength(line);
+            this.apply(entry);
+        });
+
+        if (this.supersededEntries > Math.max(this.records.size, 1) * COMPACTION_RATIO) {
+            this.compact();
+        }
+    }
+
+    /**
+     * Run a callback holding the lock file of the database, waiting for another window to release it first
+     */
+    private withLock<T>(callback: () => T): T {
+        const lockPath = `${this.filePath}.lock`;
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+        const deadline = Date.now() + LOCK_TIMEOUT;
+        for (;;) {
+            try {
+                fs.closeSync(fs.openSync(lockPath, 'wx'));
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            try {
+                if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_AGE) {
+                    fs.unlinkSync(lockPath);
+                    continue;
+                }
+            } catch (error) {
+                // Released since it was checked, so try again straight away
+                continue;
+            }
+
+            if (Date.now() > deadline) {
+                throw new Error(`Timed out waiting for another window to finish writing to Tab'd database ${this.filePath}`);
+            }
+            sleep(10);
+        }
+
+        try {
+            return callback();
+        } finally {
+            try {
+                fs.unlinkSync(lockPath);
+            } catch (error) {
+                console.warn(`Failed to release the lock on Tab'd database ${this.filePath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Pick up entries appended by other windows since the file was last read, or re-read it from the start if it was rewritten
+     */
+    private refresh(): void {
+        let size = 0;
+        let inode = 0;
+        try {
+            const stats = fs.statSync(this.filePath);
+            size = stats.size;
+            inode = stats.ino;
+        } catch (error) {
+            // The database has not been created yet, or has been removed
+        }
+
+        if (size === this.loadedSize && inode === this.loadedInode) {
+            return;
+        }
+
+        // Compaction replaces the file, so a different inode means it has to be read from the start
+        let start = this.loadedSize;
+        if (size < this.loadedSize || (inode !== this.loadedInode && this.loadedSize > 0)) {
+            this.reset();
+            start = 0;
+        }
+        if (size === 0) {
+            return;
+        }
+
+        const buffer = Buffer.alloc(size - start);
+        const fd = fs.openSync(this.filePath, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, start);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        // Only complete lines are read, leaving a partially written entry for the next refresh
+        const content = buffer.toString('utf8');
+        const end = content.lastIndexOf('\n') + 1;
+        this.loadedSize = start + Buffer.byteLength(content.substring(0, end));
+        this.loadedInode = inode;
+
+        for (const line of content.substring(0, end).split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+
+            try {
+                this.apply(JSON.parse(line));
+            } catch (error) {
+                console.warn(`Skipping malformed entry in Tab'd database ${this.filePath}:`, error);
+            }
+        }
+    }
+
+    private reset(): void {
+        this.records.clear();
+        this.sequence.clear();
+        this.byPath.clear();
+        this.byType.clear();
+        this.byAuthor.clear();
+        this.byFirstChange.clear();
+        this.byLastChange.clear();
+        this.recordIssues.clear();
+        this.loadedSize = 0;
+        this.loadedInode = 0;
+        this.supersededEntries = 0;
+    }
+
+    private apply(entry: DatabaseEntry): void {
+        if (entry.op === 'delete') {
+            const ids = entry.path === undefined ? [...this.records.keys()] : [...(this.byPath.get(entry.path) || [])];
+            for (const id of ids) {
+                this.remove(id);
+                this.sequence.delete(id);
+            }
+            for (const [id, invalidRecord] of this.recordIssues) {
+                if (entry.path === undefined || invalidRecord.path === entry.path) {
+                    this.recordIssues.delete(id);
+                }
+            }
+            this.supersededEntries++;
+            return;
+        }
+
+        if (entry.op === 'rename') {
+            for (const id of [...(this.byPath.get(entry.path) || [])]) {
+                const record = this.records.get(id)!;
+                removeFromIndex(this.byPath, record.path, id);
+                record.path = entry.newPath;
+                addToIndex(this.byPath, record.path, id);
+            }
+            for (const invalidRecord of this.recordIssues.values()) {
+                if (invalidRecord.path === entry.path) {
+                    invalidRecord.path = entry.newPath;
+                }
+            }
+            this.supersededEntries++;
+            return;
+        }
+
+        if (entry.op !== 'put' || typeof entry.id !== 'string' || typeof entry.path !== 'string') {
+            throw new Error(`unknown entry ${JSON.stringify((entry as DatabaseEntry).op)}`);
+        }
+
+        const issues: ValidationIssue[] = [];
+        const data = loadSerializedFileState(entry.data, `${this.filePath}#${entry.id}`, issues);
+        if (issues.length > 0) {
+            this.recordIssues.set(entry.id, { path: entry.path, issues });
+        } else {
+            this.recordIssues.delete(entry.id);
+        }
+        if (!data) {
+            return;
+        }
+
+        this.remove(entry.id);
+        const record: DatabaseRecord = { id: entry.id, path: entry.path, savedAt: entry.savedAt, data };
+        this.records.set(record.id, record);
+        if (!this.sequence.has(record.id)) {
+            this.sequence.set(record.id, this.nextSequence++);
+        }
+        addToIndex(this.byPath, record.path, record.id);
+        for (const change of data.changes) {
+            addToIndex(this.byType, change.type, record.id);
+            addToIndex(this.byAuthor, change.author || '', record.id);
+        }
+        const timeSpan = getChangeTimeSpan(data);
+        if (timeSpan) {
+            this.byFirstChange.add(timeSpan.first, record.id);
+            this.byLastChange.add(timeSpan.last, record.id);
+        }
+    }
+
+    private remove(id: string): void {
+        const record = this.records.get(id);
+        if (!record) {
+            return;
+        }
+
+        this.records.delete(id);
+        this.supersededEntries++;
+        removeFromIndex(this.byPath, record.path, id);
+        for (const change of record.data.changes) {
+            removeFromIndex(this.byType, change.type, id);
+            removeFromIndex(this.byAuthor, change.author || '', id);
+        }
+        const timeSpan = getChangeTimeSpan(record.data);
+        if (timeSpan) {
+            this.byFirstChange.remove(timeSpan.first, id);
+            this.byLastChange.remove(timeSpan.last, id);
+        }
+    }
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    let ids = index.get(key);
+    if (!ids) {
+        ids = new Set<string>();
+        index.set(key, ids);
+    }
+    ids.add(id);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    const ids = index.get(key);
+    if (ids) {
+        ids.delete(id);
+        if (ids.size === 0) {
+            index.delete(key);
+        }
+    }
+}
+
+/**
+ * Record ids ordered by a timestamp, so records can be found by time without checking every one
+ */
+class TimeIndex {
+    private readonly entries: { timestamp: number; id: string }[] = [];
+
+    add(timestamp: number, id: string): void {
+        this.entries.splice(this.findIndex(timestamp, true), 0, { timestamp, id });
+    }
+
+    remove(timestamp: number, id: string): void {
+        for (let i = this.findIndex(timestamp, false); i < this.entries.length && this.entries[i].timestamp === timestamp; i++) {
+            if (this.entries[i].id === id) {
+                this.entries.splice(i, 1);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Get the ids with a timestamp between from and to (inclusive)
+     */
+    range(from = -Infinity, to = Infinity): Set<string> {
+        const ids = new Set<string>();
+        for (let i = this.findIndex(from, false); i < this.entries.length && this.entries[i].timestamp <= to; i++) {
+            ids.add(this.entries[i].id);
+        }
+        return ids;
+    }
+
+    clear(): void {
+        this.entries.length = 0;
+    }
+
+    /**
+     * Binary search for the first entry at (or, if after is set, after) a timestamp
+     */
+    private findIndex(timestamp: number, after: boolean): number {
+        let low = 0;
+        let high = this.entries.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (this.entries[middle].timestamp < timestamp || (after && this.entries[middle].timestamp === timestamp)) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+}
+
+function getChangeTimeSpan(data: SerializedFileState): { first: number; last: number } | undefined {
+    if (data.changes.length === 0) {
+        return undefined;
+    }
+    const timestamps = data.changes.map(change => change.creationTimestamp);
+    return { first: Math.min(...timestamps), last: Math.max(...timestamps) };
+}
+
+// The database is read and written synchronously, so waiting for a lock blocks the thread
+function sleep(milliseconds: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, milliseconds);
+}
+
+const openDatabases = new Map<string, AttributionDatabase>();
+
+/**
+ * Open the database stored at a path, reusing the already open instance if there is one
+ */
+export function openDatabase(filePath: string): AttributionDatabase {
+    let database = openDatabases.get(filePath);
+    if (!database) {
+        database = new AttributionDatabase(filePath);
+        openDatabases.set(filePath, database);
+    }
+    return database;
+}
@@ -1,44 +1,123 @@
 import * as vscode from 'vscode';
-import { ExtendedRange, ExtendedRangeType } from './extendedRange';
+import { ExtendedRange, ExtendedRangeType, serializeChange } from './extendedRange';
+import { toVscodeRange } from './adapters';
+import { updateDiagnostics } from './diagnostics';
+import { refreshCodeLenses } from './codeLens';
+import { refreshAttributionViewDocuments } from './contentProvider';
+import { notifyAttributionChange } from './api';
+import { describeChange, describeLineAttribution, getLineAttribution } from './lineAttribution';
 
-const userEditDecorator = vscode.window.createTextEditorDecorationType({
-	backgroundColor: "#88888811",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-});
+export type BlameStyle = 'background' | 'gutter' | 'overviewRuler';
 
-const aiGeneratedDecorator = vscode.window.createTextEditorDecorationType({
-    // cyan background
-	backgroundColor: "#00ffff26",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-});
+const BLAME_STYLES: BlameStyle[] = ['background', 'gutter', 'overviewRuler'];
 
-const undoRedoDecorator = vscode.window.createTextEditorDecorationType({
-	backgroundColor: "#80008026",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-});
+/**
+ * The colors of each type of change, contributed to the theme in package.json as <id>Background and <id>Marker
+ * with these defaults. The marker color is used by the overview ruler and the gutter.
+ */
+export const DECORATION_COLORS: { [type in ExtendedRangeType]: { id: string; background: string; marker: string } } = {
+    [ExtendedRangeType.UserEdit]: { id: 'tabd.userEdit', background: '#88888811', marker: '#888888' },
+    [ExtendedRangeType.AIGenerated]: { id: 'tabd.aiGenerated', background: '#00ffff26', marker: '#00cccc' },
+    [ExtendedRangeType.UndoRedo]: { id: 'tabd.undoRedo', background: '#80008026', marker: '#a040a0' },
+    [ExtendedRangeType.Unknown]: { id: 'tabd.unknown', background: '#ff000026', marker: '#ff4040' },
+    [ExtendedRangeType.Paste]: { id: 'tabd.paste', background: '#ff880026', marker: '#ff8800' },
+    [ExtendedRangeType.IDEPaste]: { id: 'tabd.idePaste', background: '#a4f54226', marker: '#7cc42c' },
+};
 
-const unknownDecorator = vscode.window.createTextEditorDecorationType({
-	backgroundColor: "#ff000026",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+const inlineBlameDecorator = vscode.window.createTextEditorDecorationType({
+    after: {
+        color: new vscode.ThemeColor('tabd.inlineBlameForeground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 3em',
+    },
+    rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen,
 });
 
-const pasteDecorator = vscode.window.createTextEditorDecorationType({
-	backgroundColor: "#ff880026",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-});
+let decorationTypes: { [type in ExtendedRangeType]: vscode.TextEditorDecorationType } | undefined;
 
-const idePasteDecorator = vscode.window.createTextEditorDecorationType({
-	backgroundColor: "#a4f54226",
-	//isWholeLine: true,
-	rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-});
+/**
+ * The ways of showing blame chosen by the tabd.blameStyle setting, falling back to background highlights
+ */
+function getBlameStyles(): BlameStyle[] {
+    const value = vscode.workspace.getConfiguration('tabd').get<unknown>('blameStyle', ['background']);
+    const styles = (Array.isArray(value) ? value : [value]).filter((style): style is BlameStyle => (BLAME_STYLES as unknown[]).includes(style));
+    return styles.length > 0 ? styles : ['background'];
+}
+
+/**
+ * Gutter icons are images, which cannot use theme colors, so the color is read from the
+ * workbench.colorCustomizations setting (for the current theme or all themes) instead
+ */
+function getCustomizedColor(id: string, defaultColor: string): string {
+    const workbench = vscode.workspace.getConfiguration('workbench');
+    const customizations = workbench.get<{ [key: string]: unknown }>('colorCustomizations', {});
+    const themeCustomizations = customizations[`[${workbench.get<string>('colorTheme', '')}]`] as { [key: string]: unknown } | undefined;
+    const color = themeCustomizations?.[id] ?? customizations[id];
+    return typeof color === 'string' ? color : defaultColor;
+}
+
+function createDecorationType(type: ExtendedRangeType, styles: BlameStyle[]): vscode.TextEditorDecorationType {
+    const colors = DECORATION_COLORS[type];
+    const options: vscode.DecorationRenderOptions = {
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+    };
+
+    if (styles.includes('background')) {
+        options.backgroundColor = new vscode.ThemeColor(`${colors.id}Background`);
+    }
+    if (styles.includes('overviewRuler')) {
+        options.overviewRulerColor = new vscode.ThemeColor(`${colors.id}Marker`);
+        options.overviewRulerLane = vscode.OverviewRulerLane.Left;
+    }
+    if (styles.includes('gutter')) {
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="4" height="16" fill="${getCustomizedColor(`${colors.id}Marker`, colors.marker)}"/></svg>`;
+        options.gutterIconPath = vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+        options.gutterIconSize = 'contain';
+    }
+
+    return vscode.window.createTextEditorDecorationType(options);
+}
+
+function getDecorationTypes(): { [type in ExtendedRangeType]: vscode.TextEditorDecorationType } {
+    if (!decorationTypes) {
+        const styles = getBlameStyles();
+        decorationTypes = {
+            [ExtendedRangeType.UserEdit]: createDecorationType(ExtendedRangeType.UserEdit, styles),
+            [ExtendedRangeType.AIGenerated]: createDecorationType(ExtendedRangeType.AIGenerated, styles),
+            [ExtendedRangeType.UndoRedo]: createDecorationType(ExtendedRangeType.UndoRedo, styles),
+            [ExtendedRangeType.Unknown]: createDecorationType(ExtendedRangeType.Unknown, styles),
+            [ExtendedRangeType.Paste]: createDecorationType(ExtendedRangeType.Paste, styles),
+            [ExtendedRangeType.IDEPaste]: createDecorationType(ExtendedRangeType.IDEPaste, styles),
+        };
+    }
+    return decorationTypes;
+}
+
+/**
+ * Recreate the decorations after the blame style or colors have changed. Disposing of the old
+ * ones removes them from every editor, so the caller should show blame again where needed.
+ */
+export function resetDecorationTypes() {
+    if (decorationTypes) {
+        for (const decorationType of Object.values(decorationTypes)) {
+            decorationType.dispose();
+        }
+        decorationTypes = undefined;
+    }
+}
 
 export function triggerDecorationUpdate(d: vscode.TextDocument, updatedRanges: ExtendedRange[]) {
+    // Diagnostics follow every change to the ranges, whether or not blame is shown
+    updateDiagnostics(d, updatedRanges);
+    refreshCodeLenses();
+    refreshAttributionViewDocuments(d.uri);
+    notifyAttributionChange(d.uri, updatedRanges);
+    for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document === d) {
+            updateInlineBlame(editor, updatedRanges);
+        }
+    }
+
     const config = vscode.workspace.getConfiguration('tabd');
     const showBlame = config.get<boolean>('showBlame', false);
 
@@ -50,63 +129,56 @@ export function triggerDecorationUpdate(d: vscode.TextDocument, updatedRanges: E
     // Clear decorations when blame is not shown by default
     for (const editor of vscode.window.visibleTextEditors) {
         if (editor.document === d) {
-            editor.setDecorations(userEditDecorator, []);
-            editor.setDecorations(aiGeneratedDecorator, []);
-            editor.setDecorations(undoRedoDecorator, []);
-            editor.setDecorations(pasteDecorator, []);
-            editor.setDecorations(idePasteDecorator, []);
-            editor.setDecorations(unknownDecorator, []);
+            for (const decorationType of Object.values(getDecorationTypes())) {
+                editor.setDecorations(decorationType, []);
+            }
         }
     }
 }
 
 export function forceShowDecorations(d: vscode.TextDocument, updatedRanges: ExtendedRange[]) {
+    const decorationTypes = getDecorationTypes();
     for (const editor of vscode.window.visibleTextEditors) {
         if (editor.document === d) {
-            editor.setDecorations(userEditDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.UserEdit).map(range => {
-                return {
-                    range: range,
-                    hoverMessage: `Edit by ${range.getAuthor() || 'you'} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`,
-                };
-            }));
-            editor.setDecorations(aiGeneratedDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.AIGenerated).map(range => {
-                const aiType = {
-                    'inlineCompletion': ' • Using inline completion',
-                    'applyPatch': ' • Using the apply patch tool',
-                    'createFile': ' • Using the create file tool',
-                    'insertEdit': ' • Using the insert edit tool',
-                    'replaceString': ' • Using the replace string tool',
-                    'applyEdit': ' • Using an internal command',
-                }[range.getAiType()] || ` • Using an unknown tool (${range.getAiType()})`;
-                return {
-                    range: range,
-                    hoverMessage: `AI Generated under ${range.getAuthor() ? (range.getAuthor() + "'s") : 'your'} control${range.getAiName() !== '' ? ` • ${range.getAiName()}` : ''}${range.getAiModel() !== '' ? ` (${range.getAiModel()})` : ''}${aiType} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`,
-                };
-            }));
-            editor.setDecorations(undoRedoDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.UndoRedo).map(range => {
-                return {
-                    range: range,
-                    hoverMessage: `Undo/Redo by ${range.getAuthor() || 'you'} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`,
-                };
-            }));
-            editor.setDecorations(pasteDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.Paste).map(range => {
-                return {
-                    range: range,
-                    hoverMessage: `Clipboard Paste by ${range.getAuthor() || 'you'}${range.getPasteUrl() !== '' ? ` • From the webpage [${range.getPasteTitle()}](${range.getPasteUrl()})` : ''} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`,
-                };
-            }));
-            editor.setDecorations(idePasteDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.IDEPaste).map(range => {
-                return {
-                    range: range,
-                    hoverMessage: `Clipboard Paste by ${range.getAuthor() || 'you'}${range.getPasteUrl() !== '' ? ` • From the [${range.getPasteUrl()}](${range.getPasteUrl()}) repository at \`${range.getPasteTitle()}\`` : ''} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`,
-                };
-            }));
-            editor.setDecorations(unknownDecorator, updatedRanges.filter(range => range.getType() === ExtendedRangeType.Unknown).map(range => {
-                return {
-                    range: range,
-                    hoverMessage: `Unknown Action by ${range.getAuthor() || 'you'} • Created at: ${new Date(range.getCreationTimestamp()).toLocaleString()}`
-                };
-            }));
+            for (const type of Object.values(ExtendedRangeType)) {
+                editor.setDecorations(decorationTypes[type], updatedRanges.filter(range => range.getType() === type).map(range => {
+                    return {
+                        range: toVscodeRange(range),
+                        hoverMessage: describeChange(serializeChange(range)),
+                    };
+                }));
+            }
         }
     }
 }
+
+/**
+ * Show the attribution of the active line (or of every line) at its end, as chosen by the tabd.inlineBlame setting
+ */
+export function updateInlineBlame(editor: vscode.TextEditor, updatedRanges: ExtendedRange[]) {
+    const config = vscode.workspace.getConfiguration('tabd');
+    const inlineBlame = config.get<string>('inlineBlame', 'off');
+    if ((inlineBlame !== 'activeLine' && inlineBlame !== 'allLines') || config.get<boolean>('disabled', false)) {
+        editor.setDecorations(inlineBlameDecorator, []);
+        return;
+    }
+
+    const lineAttribution = getLineAttribution(updatedRanges.map(serializeChange));
+    const lines = inlineBlame === 'allLines'
+        ? [...lineAttribution.keys()]
+        : [...new Set(editor.selections.map(selection => selection.active.line))];
+    const now = Date.now();
+
+    editor.setDecorations(inlineBlameDecorator, lines.flatMap(line => {
+        const change = lineAttribution.get(line);
+        if (!change || line >= editor.document.lineCount) {
+            return [];
+        }
+
+        const end = editor.document.lineAt(line).range.end;
+        return [{
+            range: new vscode.Range(end, end),
+            renderOptions: { after: { contentText: describeLineAttribution(change, now) } },
+        }];
+    }));
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { ExtendedRange, ExtendedRangeType, serializeChange } from './extendedRange';
+import { toVscodeRange } from './adapters';
+import { AttributionPolicy, PolicySeverity, evaluatePolicies, validatePolicies } from './policies';
+import { getRelativePath } from './utils';
+import { describeChange } from './lineAttribution';
+
+const attributionDiagnostics = vscode.languages.createDiagnosticCollection('tabd');
+const policyDiagnostics = vscode.languages.createDiagnosticCollection('tabd-policies');
+
+/** The types of change reported by the attribution diagnostics, as the rest were typed in the editor */
+export const ATTRIBUTION_DIAGNOSTIC_TYPES: ExtendedRangeType[] = [ExtendedRangeType.AIGenerated, ExtendedRangeType.Paste, ExtendedRangeType.IDEPaste, ExtendedRangeType.Unknown];
+
+/** Where the diagnostic codes are documented */
+const DIAGNOSTIC_CODE_TARGET = vscode.Uri.parse('https://github.com/iann0036/tabd#diagnostics');
+
+const severities: { [severity in PolicySeverity]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+};
+
+let reportedPolicyIssues = '';
+
+/**
+ * Get the valid policies from the tabd.policies setting, logging any invalid ones (once, rather than on every edit)
+ */
+export function getConfiguredPolicies(): AttributionPolicy[] {
+    const { policies, issues } = validatePolicies(vscode.workspace.getConfiguration('tabd').get<unknown>('policies', []));
+
+    if (issues.join(', ') !== reportedPolicyIssues) {
+        reportedPolicyIssues = issues.join(', ');
+        if (issues.length > 0) {
+            console.warn(`Ignoring invalid Tab'd policies: ${reportedPolicyIssues}`);
+        }
+    }
+
+    return policies;
+}
+
+/**
+ * Flag the ranges of a document which break an attribution policy
+ */
+export function updatePolicyDiagnostics(d: vscode.TextDocument, updatedRanges: ExtendedRange[]) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(d.uri);
+    const policies = getConfiguredPolicies();
+    if (!workspaceFolder || policies.length === 0) {
+        policyDiagnostics.delete(d.uri);
+        return;
+    }
+
+    const violations = evaluatePolicies(policies, {
+        path: getRelativePath(workspaceFolder, d.uri),
+        content: d.getText(),
+        changes: updatedRanges.map(serializeChange),
+    });
+
+    policyDiagnostics.set(d.uri, violations.flatMap(violation => violation.changes.map(change => {
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(change.start.line, change.start.character, change.end.line, change.end.character),
+            violation.message,
+            severities[violation.severity],
+        );
+        diagnostic.source = "Tab'd";
+        diagnostic.code = violation.policy.name || 'policy';
+        return diagnostic;
+    })));
+}
+
+/**
+ * Report the AI generated, pasted and unknown ranges of a document as diagnostics, if enabled by the
+ * tabd.diagnostics setting. Each diagnostic's code is the type of change, so they can be filtered by it.
+ */
+export function updateAttributionDiagnostics(d: vscode.TextDocument, updatedRanges: ExtendedRange[]) {
+    const level = vscode.workspace.getConfiguration('tabd').get<string>('diagnostics', 'off');
+    if (level !== 'information' && level !== 'hint') {
+        attributionDiagnostics.delete(d.uri);
+        return;
+    }
+
+    attributionDiagnostics.set(d.uri, updatedRanges
+        .filter(range => ATTRIBUTION_DIAGNOSTIC_TYPES.includes(range.getType()) && !range.isEmpty)
+        .map(range => {
+            const diagnostic = new vscode.Diagnostic(
+                toVscodeRange(range),
+                describeChange(serializeChange(range), false),
+                level === 'hint' ? vscode.DiagnosticSeverity.Hint : vscode.DiagnosticSeverity.Information,
+            );
+            diagnostic.source = "Tab'd";
+            diagnostic.code = { value: range.getType(), target: DIAGNOSTIC_CODE_TARGET };
+            return diagnostic;
+        }));
+}
+
+/**
+ * Update every Tab'd diagnostic of a document after its ranges have changed
+ */
+export function updateDiagnostics(d: vscode.TextDocument, updatedRanges: ExtendedRange[]) {
+    updateAttributionDiagnostics(d, updatedRanges);
+    updatePolicyDiagnostics(d, updatedRanges);
+}
+
+export function clearDiagnostics(uri: vscode.Uri) {
+    attributionDiagnostics.delete(uri);
+    policyDiagnostics.delete(uri);
+}
@@ -0,0 +1,265 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+import { escapeMarkdown, getCoveredLines, getTypeLabel, markdownRow } from './report';
+
+/** Lines added or rewritten on the new side of a diff */
+export interface DiffHunk {
+    /** Path of the file relative to the workspace folder, with forward slashes */
+    path: string;
+    /** The first line, zero-based */
+    startLine: number;
+    lineCount: number;
+}
+
+/** Consecutive changed lines with the same attribution, posted as one review comment */
+export interface DiffLineAnnotation {
+    path: string;
+    /** The first and last line, one-based as in the diff */
+    startLine: number;
+    endLine: number;
+    type: ExtendedRangeType;
+    author?: string;
+    pasteUrl?: string;
+    pasteTitle?: string;
+    aiName?: string;
+    aiModel?: string;
+}
+
+export interface DiffAttributionTotals {
+    changedLines: number;
+    /** Changed lines by the type of change they came from, for the reviewed types only */
+    byType: { [type: string]: number };
+}
+
+export interface DiffFileAttribution extends DiffAttributionTotals {
+    path: string;
+}
+
+export interface DiffAttribution {
+    /** The Git range which was compared, such as origin/main...HEAD */
+    range: string;
+    /** Browser URL of the repository, used to link to the changed lines */
+    remoteUrl?: string;
+    /** The commit the changed lines were read at */
+    commit?: string;
+    totals: DiffAttributionTotals;
+    files: DiffFileAttribution[];
+    annotations: DiffLineAnnotation[];
+}
+
+/** A review with line comments, in the shape accepted by GitHub's create review API */
+export interface ReviewCommentPayload {
+    body: string;
+    event: 'COMMENT';
+    comments: {
+        path: string;
+        line: number;
+        side: 'RIGHT';
+        start_line?: number;
+        start_side?: 'RIGHT';
+        body: string;
+    }[];
+}
+
+/** The types of change reviewers are shown, as the rest were typed in the editor */
+export const REVIEWED_TYPES: ExtendedRangeType[] = [ExtendedRangeType.AIGenerated, ExtendedRangeType.Paste, ExtendedRangeType.IDEPaste];
+
+/**
+ * Parse the hunks of a unified diff (as output by git diff --unified=0) into the lines they add to each file.
+ * Deleted files and hunks which only remove lines are left out.
+ */
+export function parseDiffHunks(diffOutput: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let currentPath: string | undefined;
+
+    for (const line of diffOutput.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            let filePath = line.substring(4).replace(/\t$/, '');
+            if (filePath.startsWith('"') && filePath.endsWith('"')) {
+                filePath = JSON.parse(filePath);
+            }
+            currentPath = filePath === '/dev/null' ? undefined : filePath.replace(/^b\//, '');
+            continue;
+        }
+
+        const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (match && currentPath) {
+            const lineCount = match[2] === undefined ? 1 : Number(match[2]);
+            if (lineCount > 0) {
+                hunks.push({ path: currentPath, startLine: Number(match[1]) - 1, lineCount });
+            }
+        }
+    }
+
+    return hunks;
+}
+
+function getAnnotationKey(change: SerializedChange): string {
+    return JSON.stringify([change.type, change.author, change.pasteUrl, change.pasteTitle, change.aiName, change.aiModel]);
+}
+
+/**
+ * Intersect the lines changed in a diff with the changes recorded for the files, so each changed line
+ * which was AI generated or pasted is attributed
+ * @param range The Git range the hunks were taken from
+ * @param hunks The changed lines
+ * @param files The recorded changes of the changed files, anchored to the content the diff was taken against
+ * @param link Where to link the changed lines to, if the repository has a browsable remote
+ */
+export function buildDiffAttribution(range: string, hunks: DiffHunk[], files: { path: string; changes: SerializedChange[] }[], link?: { remoteUrl: string; commit: string }): DiffAttribution {
+    const changedLinesByPath = new Map<string, Set<number>>();
+    for (const hunk of hunks) {
+        if (!changedLinesByPath.has(hunk.path)) {
+            changedLinesByPath.set(hunk.path, new Set());
+        }
+        for (let line = hunk.startLine; line < hunk.startLine + hunk.lineCount; line++) {
+            changedLinesByPath.get(hunk.path)!.add(line);
+        }
+    }
+
+    const attribution: DiffAttribution = { range, ...link, totals: { changedLines: 0, byType: {} }, files: [], annotations: [] };
+    for (const [filePath, changedLines] of [...changedLinesByPath].sort(([a], [b]) => a.localeCompare(b))) {
+        // Changes are merged, so at most one covers each character, and the last one listed wins on shared lines
+        const lineChanges = new Map<number, SerializedChange>();
+        for (const change of files.find(file => file.path === filePath)?.changes || []) {
+            if (!REVIEWED_TYPES.includes(change.type as ExtendedRangeType) || (change.start.line === change.end.line && change.start.character === change.end.character)) {
+                continue;
+            }
+            for (const line of getCoveredLines(change)) {
+                if (changedLines.has(line)) {
+                    lineChanges.set(line, change);
+                }
+            }
+        }
+
+        const fileAttribution: DiffFileAttribution = { path: filePath, changedLines: changedLines.size, byType: {} };
+        let previous: { line: number; key: string; annotation: DiffLineAnnotation } | undefined;
+        for (const line of [...lineChanges.keys()].sort((a, b) => a - b)) {
+            const change = lineChanges.get(line)!;
+            fileAttribution.byType[change.type] = (fileAttribution.byType[change.type] || 0) + 1;
+            attribution.totals.byType[change.type] = (attribution.totals.byType[change.type] || 0) + 1;
+
+            const key = getAnnotationKey(change);
+            if (previous && previous.line === line - 1 && previous.key === key) {
+                previous.annotation.endLine = line + 1;
+                previous.line = line;
+                continue;
+            }
+
+            const annotation: DiffLineAnnotation = {
+                path: filePath,
+                startLine: line + 1,
+                endLine: line + 1,
+                type: change.type as ExtendedRangeType,
+                author: change.author || undefined,
+                pasteUrl: change.pasteUrl || undefined,
+                pasteTitle: change.pasteTitle || undefined,
+                aiName: change.aiName || undefined,
+                aiModel: change.aiModel || undefined,
+            };
+            attribution.annotations.push(annotation);
+            previous = { line, key, annotation };
+        }
+
+        attribution.totals.changedLines += fileAttribution.changedLines;
+        attribution.files.push(fileAttribution);
+    }
+
+    return attribution;
+}
+
+function getLineUrl(attribution: DiffAttribution, filePath: string, startLine?: number, endLine?: number): string | undefined {
+    if (!attribution.remoteUrl?.startsWith('https://') || !attribution.commit) {
+        return undefined;
+    }
+    const fileUrl = `${attribution.remoteUrl}/blob/${attribution.commit}/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+    if (startLine === undefined) {
+        return fileUrl;
+    }
+    return `${fileUrl}#L${startLine}${endLine !== undefined && endLine !== startLine ? `-L${endLine}` : ''}`;
+}
+
+/**
+ * Describe where the lines of an annotation came from, as the Markdown body of a review comment
+ */
+export function describeAnnotation(annotation: DiffLineAnnotation): string {
+    const lineCount = annotation.endLine - annotation.startLine + 1;
+    let description = `**${getTypeLabel(annotation.type)}** (${lineCount === 1 ? '1 line' : `${lineCount} lines`})`;
+
+    if (annotation.type === ExtendedRangeType.AIGenerated && annotation.aiName) {
+        description += ` by ${escapeMarkdown(annotation.aiName)}${annotation.aiModel ? ` (${escapeMarkdown(annotation.aiModel)})` : ''}`;
+    } else if (annotation.pasteUrl) {
+        description += ` from [${escapeMarkdown(annotation.pasteTitle || annotation.pasteUrl)}](${annotation.pasteUrl})`;
+    } else if (annotation.pasteTitle) {
+        description += ` from ${escapeMarkdown(annotation.pasteTitle)}`;
+    }
+    if (annotation.author) {
+        description += `, added by ${escapeMarkdown(annotation.author)}`;
+    }
+
+    return description + '.';
+}
+
+function getPercentage(lines: number, changedLines: number): string {
+    return changedLines === 0 ? '0.0' : (lines / changedLines * 100).toFixed(1);
+}
+
+/**
+ * Render a Markdown summary of the attribution of a diff, suitable for the body of a review or pull request comment
+ */
+export function formatDiffAttributionMarkdown(attribution: DiffAttribution): string {
+    const attributedLines = Object.values(attribution.totals.byType).reduce((sum, lines) => sum + lines, 0);
+    const lines: string[] = [
+        `## Tab'd Attribution for \`${attribution.range}\``,
+        '',
+        `${attributedLines} of ${attribution.totals.changedLines} changed line${attribution.totals.changedLines === 1 ? '' : 's'} (${getPercentage(attributedLines, attribution.totals.changedLines)}%) in ${attribution.files.length} file${attribution.files.length === 1 ? '' : 's'} were AI generated or pasted.`,
+    ];
+
+    if (attributedLines === 0) {
+        return lines.join('\n') + '\n';
+    }
+
+    const types = REVIEWED_TYPES.filter(type => attribution.totals.byType[type]);
+    lines.push(
+        '',
+        markdownRow(['Type', 'Changed Lines', '% of Changed Lines']),
+        markdownRow(['---', '---:', '---:']),
+        ...types.map(type => markdownRow([getTypeLabel(type), attribution.totals.byType[type], `${getPercentage(attribution.totals.byType[type], attribution.totals.changedLines)}%`])),
+        '',
+        '### By File',
+        '',
+        markdownRow(['File', 'Changed Lines', ...types.map(getTypeLabel)]),
+        markdownRow(['---', '---:', ...types.map(() => '---:')]),
+    );
+    for (const file of attribution.files.filter(file => Object.keys(file.byType).length > 0)) {
+        const url = getLineUrl(attribution, file.path);
+        const name = url ? `[${escapeMarkdown(file.path)}](${url})` : escapeMarkdown(file.path);
+        lines.push(markdownRow([name, file.changedLines, ...types.map(type => file.byType[type] || 0)]));
+    }
+
+    lines.push('', '### Lines', '');
+    for (const annotation of attribution.annotations) {
+        const location = `${annotation.path}:${annotation.startLine}${annotation.endLine !== annotation.startLine ? `-${annotation.endLine}` : ''}`;
+        const url = getLineUrl(attribution, annotation.path, annotation.startLine, annotation.endLine);
+        lines.push(`- ${url ? `[${escapeMarkdown(location)}](${url})` : escapeMarkdown(location)}: ${describeAnnotation(annotation)}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Build a review which posts the summary along with a comment on each attributed group of lines
+ */
+export function buildReviewCommentPayload(attribution: DiffAttribution): ReviewCommentPayload {
+    return {
+        body: formatDiffAttributionMarkdown(attribution),
+        event: 'COMMENT',
+        comments: attribution.annotations.map(annotation => ({
+            path: annotation.path,
+            line: annotation.endLine,
+            side: 'RIGHT',
+            ...(annotation.startLine !== annotation.endLine ? { start_line: annotation.startLine, start_side: 'RIGHT' } : {}),
+            body: describeAnnotation(annotation),
+        })),
+    };
+}
@@ -1,4 +1,5 @@
-import * as vscode from 'vscode';
+import { Position, Range, toPosition } from './range';
+import { SerializedChange } from './types';
 
 export enum ExtendedRangeType {
     Unknown = "UNKNOWN",
@@ -18,15 +19,15 @@ export class ExtendedRangeOptions {
 	aiType?: string;
 }
 
-export class ExtendedRange extends vscode.Range {
+export class ExtendedRange extends Range {
     private creationTimestamp: number;
     private rangeType: ExtendedRangeType;
     private author: string;
 	private options: ExtendedRangeOptions;
 
     constructor(
-        start: vscode.Position,
-        end: vscode.Position,
+        start: Position,
+        end: Position,
         rangeType: ExtendedRangeType = ExtendedRangeType.Unknown,
         creationTimestamp: number = Date.now(),
         author: string = '',
@@ -474,4 +475,45 @@ export function mergeRangesSequentially(existingRanges: ExtendedRange[], newRang
 	
 	// Apply AI merging logic to merge adjacent AI-generated ranges
 	return mergeAIGeneratedRanges(uniqueRanges);
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a range to the form it is stored in (without a fingerprint, which needs the file content)
+ */
+export function serializeChange(range: ExtendedRange): SerializedChange {
+	return {
+		start: { line: range.start.line, character: range.start.character },
+		end: { line: range.end.line, character: range.end.character },
+		type: range.getType(),
+		creationTimestamp: range.getCreationTimestamp(),
+		author: range.getAuthor(),
+		pasteUrl: range.getPasteUrl(),
+		pasteTitle: range.getPasteTitle(),
+		aiName: range.getAiName(),
+		aiModel: range.getAiModel(),
+		aiExplanation: range.getAiExplanation(),
+		aiType: range.getAiType(),
+	};
+}
+
+/**
+ * Create a range from a change loaded from storage
+ */
+export function deserializeChange(change: SerializedChange): ExtendedRange {
+	const options = new ExtendedRangeOptions();
+	options.pasteUrl = change.pasteUrl || "";
+	options.pasteTitle = change.pasteTitle || "";
+	options.aiName = change.aiName || "";
+	options.aiModel = change.aiModel || "";
+	options.aiExplanation = change.aiExplanation || "";
+	options.aiType = change.aiType || "";
+
+	return new ExtendedRange(
+		toPosition(change.start),
+		toPosition(change.end),
+		change.type,
+		change.creationTimestamp,
+		change.author || "",
+		options,
+	);
+}
@@ -1,18 +1,36 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import { getUpdatedRanges, mostRecentInternalCommand } from "./positionalTracking";
+import { isStoredRecordAnchored, loadRangesFromStoredRecords } from './tracking';
 import { Mutex } from 'async-mutex';
-import { fsPath, uniqueFileName, shouldProcessFile, getLogDirectory, getStorageDirectory, generateDataChecksum, verifyDataChecksum } from './utils';
-import { ExtendedRange, ExtendedRangeOptions, ExtendedRangeType, mergeRangesSequentially, mergeUserEdits } from './extendedRange';
+import { fsPath, generateDataChecksum, isHiddenPath, saveContentSnapshot, loadContentSnapshot, pruneContentSnapshots } from './utils';
+import { getConfiguredStorageBackend, shouldProcessFile } from './workspace';
+import { ExtendedRange, ExtendedRangeType, mergeUserEdits, serializeChange } from './extendedRange';
 import { PasteEditProvider } from './pasteEditProvider';
-import { triggerDecorationUpdate } from './decorators';
-import { SerializedFileState, GlobalFileState } from './types';
-import { getGitNotesNamespace, saveToGitNotes, loadFromGitNotes, getCurrentGitUser } from './git';
+import { resetDecorationTypes, triggerDecorationUpdate, updateInlineBlame } from './decorators';
+import { ATTRIBUTION_VIEW_SCHEME, AttributionContentProvider, compareWithAttributionView } from './contentProvider';
+import { AttributionView } from './contentViews';
+import { AttributionCodeLensProvider, refreshCodeLenses, showSymbolAttribution } from './codeLens';
+import { clearDiagnostics, getConfiguredPolicies, updateDiagnostics } from './diagnostics';
+import { SerializedChange, SerializedFileState, GlobalFileState, SERIALIZED_FILE_STATE_VERSION } from './types';
+import { getCurrentGitUser, getFileHistoryContents, copyOrphanedGitNotes, installGitHooks, installPolicyHook, isPolicyHookInstalled, consumeReplayPending, getGitPath, getDiff, getRemoteUrl, resolveCommit, REPLAY_PENDING_FILE } from './git';
 import { enableClipboardTracking, disableClipboardTracking } from './clipboard';
 import { patchExtensions } from './patch';
 import { installNativeHost } from './nativeHost';
+import { createFingerprint, replaySerializedFileState } from './rebase';
+import { getTextInRange } from './range';
+import { fromVscodeRange } from './adapters';
+import { AttributionReport, ReportFile, buildAttributionReport } from './report';
+import { showAttributionReport } from './reportView';
+import { AttributionTimeline, buildAttributionTimeline } from './timeline';
+import { showAttributionTimeline } from './timelineView';
+import { AttributionTreeNode, AttributionTreeProvider, refreshAttributionTree } from './treeView';
+import { AttributionFileDecorationProvider, refreshFileDecorations } from './fileDecorations';
+import { DiffAttribution, buildDiffAttribution, buildReviewCommentPayload, formatDiffAttributionMarkdown, parseDiffHunks } from './diffAttribution';
+import { GitNotesStorageBackend, StorageBackend, StoredRecord, copyStoredRecords, getStorageBackend, getStorageTypes, isBuiltInStorageType } from './storage';
+import { AIEditMetadata, TabdApi, createTabdApi, mergeReportedAIEdit, notifyAttributionChange } from './api';
+import { formatInternalEventIssues, getInlineCompletionUri, parseInternalEvent } from './internalEvents';
 
 let currentUser: string = "";
 var editLock = new Mutex();
@@ -22,7 +40,7 @@ const vscodeVersion = vscode.version;
 const vscodeMajorMinor = vscodeVersion.split('.').slice(0, 2).map(Number);
 const [vscodeMajor, vscodeMinor] = vscodeMajorMinor;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): TabdApi {
 	// Only exclude the .tabd directory from the file explorer when using repository storage
 	const config = vscode.workspace.getConfiguration('tabd');
 	const storageType = config.get<string>('storage', 'repository');
@@ -34,6 +52,11 @@ export function activate(context: vscode.ExtensionContext) {
 		files.update('exclude', exclude, vscode.ConfigurationTarget.Global);
 	}
 
+	const fileDecorationProvider = new AttributionFileDecorationProvider(
+		workspaceFolder => listWorkspaceFiles(workspaceFolder),
+		(workspaceFolder, uri) => loadReportFile(workspaceFolder, getConfiguredStorageBackend(), uri, vscode.workspace.asRelativePath(uri, false)),
+	);
+
 	const disposables = [
 		// Register the text editor change listener
 		vscode.workspace.onDidChangeTextDocument(e => {
@@ -88,6 +111,11 @@ export function activate(context: vscode.ExtensionContext) {
 			loadGlobalFileStateForDocumentFromDisk(document);
 		}),
 
+		// Diagnostics are only kept for open documents, as they are not updated once closed
+		vscode.workspace.onDidCloseTextDocument(document => {
+			clearDiagnostics(document.uri);
+		}),
+
 		// Register listener for when text editors are opened
 		vscode.window.onDidChangeActiveTextEditor(editor => {
 			if (!editor || editor.document.uri.scheme !== 'file' || !shouldProcessFile(editor.document.uri)) {
@@ -102,6 +130,7 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 
 			const showBlame = config.get<boolean>('showBlame', false);
+			updateInlineBlame(editor, globalFileState[fsPath(editor.document.uri)]?.changes || []);
 
 			if (showBlame) {
 				const filePath = fsPath(editor.document.uri);
@@ -113,9 +142,23 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		}),
 
+		// Register listener for cursor moves, which move the inline blame of the active line
+		vscode.window.onDidChangeTextEditorSelection(e => {
+			if (e.textEditor.document.uri.scheme !== 'file' || vscode.workspace.getConfiguration('tabd').get<string>('inlineBlame', 'off') !== 'activeLine') {
+				return;
+			}
+
+			updateInlineBlame(e.textEditor, globalFileState[fsPath(e.textEditor.document.uri)]?.changes || []);
+		}),
+
 		// Register listener for configuration changes
 		vscode.workspace.onDidChangeConfiguration(e => {
-			if (e.affectsConfiguration('tabd.showBlame')) {
+			const decorationsChanged = e.affectsConfiguration('tabd.blameStyle') || e.affectsConfiguration('workbench.colorCustomizations') || e.affectsConfiguration('workbench.colorTheme');
+			if (decorationsChanged) {
+				resetDecorationTypes();
+			}
+
+			if (e.affectsConfiguration('tabd.showBlame') || decorationsChanged) {
 				// Update decorations for all visible editors when the setting changes
 				for (const editor of vscode.window.visibleTextEditors) {
 					if (editor.document.uri.scheme === 'file' && shouldProcessFile(editor.document.uri)) {
@@ -128,9 +171,39 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 			}
 
+			if (e.affectsConfiguration('tabd.policies') || e.affectsConfiguration('tabd.diagnostics')) {
+				for (const document of vscode.workspace.textDocuments) {
+					const fileState = globalFileState[fsPath(document.uri)];
+					if (document.uri.scheme === 'file' && fileState) {
+						updateDiagnostics(document, fileState.changes);
+					}
+				}
+			}
+
+			if (e.affectsConfiguration('tabd.fileDecorations') || e.affectsConfiguration('tabd.fileDecorationThreshold') || e.affectsConfiguration('tabd.disabled')) {
+				refreshFileDecorations();
+			}
+
+			if (e.affectsConfiguration('tabd.codeLens') || e.affectsConfiguration('tabd.disabled')) {
+				refreshCodeLenses();
+			}
+
+			if (e.affectsConfiguration('tabd.inlineBlame') || e.affectsConfiguration('tabd.disabled')) {
+				for (const editor of vscode.window.visibleTextEditors) {
+					if (editor.document.uri.scheme === 'file') {
+						updateInlineBlame(editor, globalFileState[fsPath(editor.document.uri)]?.changes || []);
+					}
+				}
+			}
+
+			if (e.affectsConfiguration('tabd.policies') || e.affectsConfiguration('tabd.storage')) {
+				refreshPolicyHooks(context);
+			}
+
 			if (e.affectsConfiguration('tabd.storage')) {
 				// Clear global file state when storage type changes to force reload from new location
 				globalFileState = {};
+				refreshAttributionViews();
 
 				// Update files.exclude based on storage type
 				const config = vscode.workspace.getConfiguration('tabd');
@@ -173,46 +246,45 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 
 			if (globalFileState[fsPath(document.uri)]) {
-				editLock.runExclusive(() => saveFileState(document));
+				editLock.runExclusive(() => saveFileState(document)).then(() => refreshAttributionViews(document.uri));
 			}
 		}),
 
-		// Register the listener for when files are renamed
-		// TODO: Change this to an absolute storage state change, as there is no guarantee globalFileState[oldFilePath] is loaded
+		// Register the listener for when files are renamed, moving their stored data whether or not it is loaded
 		vscode.workspace.onDidRenameFiles(e => {
+			const storageBackend = getConfiguredStorageBackend();
+
 			for (const rename of e.files) {
-				if (rename.oldUri.scheme !== 'file' || !shouldProcessFile(rename.oldUri)) {
+				if (rename.oldUri.scheme !== 'file' || rename.newUri.scheme !== 'file' || !shouldProcessFile(rename.oldUri) || !shouldProcessFile(rename.newUri)) {
 					continue;
 				}
 
-				const oldFilePath = fsPath(rename.oldUri);
-				const newFilePath = fsPath(rename.newUri);
-
-				if (globalFileState[oldFilePath]) {
-					editLock.runExclusive(async () => {
-						// Move the file state to the new path
-						globalFileState[newFilePath] = globalFileState[oldFilePath];
-						delete globalFileState[oldFilePath];
+				const workspaceFolder = vscode.workspace.getWorkspaceFolder(rename.newUri);
+				if (!workspaceFolder) {
+					continue;
+				}
 
-						// Update the save path if it exists
-						if (globalFileState[newFilePath].savePath) {
-							globalFileState[newFilePath].savePath = globalFileState[newFilePath].savePath.replace(oldFilePath, newFilePath);
+				const renamedFiles = listRenamedFiles(rename.oldUri, rename.newUri);
+				editLock.runExclusive(async () => {
+					for (const [oldUri, newUri] of renamedFiles) {
+						try {
+							storageBackend.rename(workspaceFolder, oldUri, newUri);
+						} catch (error) {
+							console.warn(`Failed to move Tab'd data from ${oldUri.fsPath} to ${newUri.fsPath}:`, error);
 						}
 
-						// Force all changes to be saved
-						globalFileState[newFilePath].loadTimestamp = undefined;
+						const oldFilePath = fsPath(oldUri);
+						const newFilePath = fsPath(newUri);
+						if (globalFileState[oldFilePath]) {
+							// The record saved this session was moved with the rest, so later saves start a new one under the new path
+							globalFileState[newFilePath] = globalFileState[oldFilePath];
+							globalFileState[newFilePath].savePath = undefined;
+							delete globalFileState[oldFilePath];
 
-						console.debug(`Moved file state from ${oldFilePath} to ${newFilePath}`);
-						console.debug(globalFileState[newFilePath]);
-					}).then(() => {
-						// Open the new document to load its state
-						vscode.workspace.openTextDocument(rename.newUri).then(newDocument => {
-							if (newDocument) {
-								saveFileState(newDocument);
-							}
-						});
-					});
-				}
+							console.debug(`Moved file state from ${oldFilePath} to ${newFilePath}`);
+						}
+					}
+				}).then(() => refreshAttributionViews(renamedFiles.flat()));
 			}
 		}),
 
@@ -242,38 +314,13 @@ export function activate(context: vscode.ExtensionContext) {
 				return;
 			}
 
-			const document = activeEditor.document;
-			const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+			const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
 			if (!workspaceFolder) {
 				vscode.window.showWarningMessage('File is not part of a workspace.');
 				return;
 			}
 
-			const result = await vscode.window.showWarningMessage(
-				`Are you sure you want to clear all Tab'd data for "${path.basename(document.uri.fsPath)}"? This action cannot be undone.`,
-				{ modal: true },
-				'Clear Data'
-			);
-
-			if (result === 'Clear Data') {
-				try {
-					await clearFileData(workspaceFolder, document);
-
-					// Clear from memory
-					const filePath = fsPath(document.uri);
-					if (globalFileState[filePath]) {
-						globalFileState[filePath] = { changes: [], pasteRanges: [], loadTimestamp: Date.now() - 1 };
-					}
-
-					// Update decorations to reflect cleared state
-					triggerDecorationUpdate(document, []);
-
-					vscode.window.showInformationMessage(`Tab'd data cleared for "${path.basename(document.uri.fsPath)}".`);
-				} catch (error) {
-					console.error('Failed to clear file data:', error);
-					vscode.window.showErrorMessage(`Failed to clear Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
-				}
-			}
+			await confirmAndClearFileData(workspaceFolder, activeEditor.document.uri);
 		}),
 
 		// Register the command to clear data for the current workspace or repository
@@ -304,6 +351,8 @@ export function activate(context: vscode.ExtensionContext) {
 						}
 					}
 
+					refreshAttributionViews();
+
 					vscode.window.showInformationMessage(`All Tab'd data cleared for workspace "${workspaceFolder.name}".`);
 				} catch (error) {
 					console.error('Failed to clear workspace data:', error);
@@ -312,10 +361,312 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		}),
 
+		// Register the command to compact the stored history of the current workspace or repository
+		vscode.commands.registerCommand('tabd.compactData', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			if (!getConfiguredStorageBackend().compact) {
+				vscode.window.showInformationMessage(`Tab'd data only needs to be compacted when it is stored in the home directory or repository.`);
+				return;
+			}
+
+			try {
+				const compactedFiles = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Compacting Tab'd data`,
+				}, progress => compactWorkspaceData(workspaceFolder, progress));
+
+				refreshAttributionViews();
+				vscode.window.showInformationMessage(`Compacted Tab'd data for ${compactedFiles} file${compactedFiles === 1 ? '' : 's'} in workspace "${workspaceFolder.name}".`);
+			} catch (error) {
+				console.error('Failed to compact workspace data:', error);
+				vscode.window.showErrorMessage(`Failed to compact Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to replay stored attribution onto files rewritten by rebases, merges and cherry-picks
+		vscode.commands.registerCommand('tabd.replayHistory', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			try {
+				const replayedFiles = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Replaying Tab'd data through Git history`,
+				}, progress => replayWorkspaceData(workspaceFolder, progress));
+
+				refreshAttributionViews();
+				vscode.window.showInformationMessage(`Replayed Tab'd data for ${replayedFiles} file${replayedFiles === 1 ? '' : 's'} in workspace "${workspaceFolder.name}".`);
+			} catch (error) {
+				console.error('Failed to replay workspace data:', error);
+				vscode.window.showErrorMessage(`Failed to replay Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to install the Git hooks which trigger a replay after history rewrites
+		vscode.commands.registerCommand('tabd.installGitHooks', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			try {
+				const installedHooks = installGitHooks(workspaceFolder);
+				watchReplayPending(context, workspaceFolder);
+
+				if (installedHooks.length === 0) {
+					vscode.window.showInformationMessage(`Tab'd Git hooks are already installed in workspace "${workspaceFolder.name}".`);
+				} else {
+					vscode.window.showInformationMessage(`Installed Tab'd Git hooks (${installedHooks.join(', ')}) in workspace "${workspaceFolder.name}".`);
+				}
+			} catch (error) {
+				console.error('Failed to install Git hooks:', error);
+				vscode.window.showErrorMessage(`Failed to install Git hooks: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to install the pre-commit hook which enforces the attribution policies
+		vscode.commands.registerCommand('tabd.installPolicyHook', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			const storageType = vscode.workspace.getConfiguration('tabd').get<string>('storage', 'repository');
+			if (!isBuiltInStorageType(storageType)) {
+				vscode.window.showErrorMessage(`The pre-commit hook cannot read tracking data from the "${storageType}" storage option, as it is provided by another extension.`);
+				return;
+			}
+
+			try {
+				installPolicyHook(workspaceFolder, context.asAbsolutePath(path.join('out', 'cli.js')), storageType, getConfiguredPolicies());
+				const policyCount = getConfiguredPolicies().length;
+				vscode.window.showInformationMessage(`Installed the Tab'd pre-commit hook in workspace "${workspaceFolder.name}", enforcing ${policyCount} polic${policyCount === 1 ? 'y' : 'ies'}.`);
+			} catch (error) {
+				console.error('Failed to install the pre-commit hook:', error);
+				vscode.window.showErrorMessage(`Failed to install the pre-commit hook: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to migrate stored data from another storage option into the selected one
+		vscode.commands.registerCommand('tabd.migrateStorage', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			const config = vscode.workspace.getConfiguration('tabd');
+			const targetStorageType = config.get<string>('storage', 'repository');
+			const sourceStorageType = await vscode.window.showQuickPick(
+				getStorageTypes().filter(storageType => storageType !== targetStorageType),
+				{ placeHolder: `Select the storage option to migrate Tab'd data from into "${targetStorageType}"` }
+			);
+			if (!sourceStorageType) {
+				return;
+			}
+
+			const result = await vscode.window.showWarningMessage(
+				`Migrate all Tab'd data for workspace "${workspaceFolder.name}" from "${sourceStorageType}" to "${targetStorageType}"?`,
+				{ modal: true },
+				'Migrate',
+				'Migrate and Delete Source'
+			);
+			if (!result) {
+				return;
+			}
+
+			try {
+				const sourceBackend = getStorageBackend(sourceStorageType);
+				const targetBackend = getStorageBackend(targetStorageType);
+				const migrationResult = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Migrating Tab'd data from "${sourceStorageType}" to "${targetStorageType}"`,
+				}, progress => migrateWorkspaceData(workspaceFolder, sourceBackend, targetBackend, result === 'Migrate and Delete Source', progress));
+
+				refreshAttributionViews();
+				const message = `Migrated Tab'd data for ${migrationResult.migratedFiles} file${migrationResult.migratedFiles === 1 ? '' : 's'} from "${sourceStorageType}" to "${targetStorageType}".`;
+				if (migrationResult.failedFiles.length > 0) {
+					vscode.window.showWarningMessage(`${message} Failed to migrate ${migrationResult.failedFiles.length} file${migrationResult.failedFiles.length === 1 ? '' : 's'}: ${migrationResult.failedFiles.join(', ')}`);
+				} else {
+					vscode.window.showInformationMessage(message);
+				}
+			} catch (error) {
+				console.error('Failed to migrate workspace data:', error);
+				vscode.window.showErrorMessage(`Failed to migrate Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to report how much of the workspace was written by each type of change, AI and author
+		vscode.commands.registerCommand('tabd.generateReport', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			try {
+				const report = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Generating Tab'd report`,
+				}, progress => generateWorkspaceReport(workspaceFolder, progress));
+
+				showAttributionReport(report, workspaceFolder.uri);
+			} catch (error) {
+				console.error('Failed to generate report:', error);
+				vscode.window.showErrorMessage(`Failed to generate Tab'd report: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the command to show how the attribution of the current file built up over time
+		vscode.commands.registerCommand('tabd.showTimeline', async () => {
+			const activeEditor = vscode.window.activeTextEditor;
+			if (!activeEditor || activeEditor.document.uri.scheme !== 'file') {
+				vscode.window.showWarningMessage('No active file editor found.');
+				return;
+			}
+
+			const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('File is not part of a workspace.');
+				return;
+			}
+
+			try {
+				const timeline = loadAttributionTimeline(workspaceFolder, activeEditor.document);
+				if (timeline.sessions.length === 0) {
+					vscode.window.showInformationMessage(`No Tab'd data found for "${path.basename(activeEditor.document.uri.fsPath)}".`);
+					return;
+				}
+
+				showAttributionTimeline(timeline, activeEditor.document.uri);
+			} catch (error) {
+				console.error('Failed to show attribution timeline:', error);
+				vscode.window.showErrorMessage(`Failed to show the Tab'd timeline: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		vscode.commands.registerCommand('tabd.generateDiffAttribution', async () => {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+			if (!workspaceFolder) {
+				vscode.window.showWarningMessage('No workspace folder found.');
+				return;
+			}
+
+			const gitRange = await vscode.window.showInputBox({
+				title: `Tab'd: Generate attribution of the lines changed in a pull request or Git range`,
+				prompt: 'The Git range to compare, such as the base branch of a pull request and HEAD',
+				value: 'origin/main...HEAD',
+			});
+			if (!gitRange) {
+				return;
+			}
+
+			try {
+				const attribution = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Attributing the lines changed in ${gitRange}`,
+				}, progress => generateDiffAttribution(workspaceFolder, gitRange, progress));
+
+				const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatDiffAttributionMarkdown(attribution) });
+				await vscode.window.showTextDocument(document);
+
+				const selection = await vscode.window.showInformationMessage(
+					`${attribution.annotations.length} group${attribution.annotations.length === 1 ? '' : 's'} of AI generated or pasted lines found in ${gitRange}.`,
+					'Copy Review Comments',
+				);
+				if (selection === 'Copy Review Comments') {
+					await vscode.env.clipboard.writeText(JSON.stringify(buildReviewCommentPayload(attribution), null, 2));
+				}
+			} catch (error) {
+				console.error('Failed to generate diff attribution:', error);
+				vscode.window.showErrorMessage(`Failed to attribute the lines changed in ${gitRange}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the CodeLenses summarizing how each class and function was written
+		vscode.languages.registerCodeLensProvider({
+			scheme: 'file'
+		}, new AttributionCodeLensProvider(document => globalFileState[fsPath(document.uri)]?.changes)),
+
+		vscode.commands.registerCommand('tabd.showSymbolAttribution', async (uri: vscode.Uri, name: string, range: vscode.Range) => {
+			const fileState = globalFileState[fsPath(uri)];
+			await showSymbolAttribution(uri, name, range, fileState ? fileState.changes : []);
+		}),
+
+		// Register the view of attributed files in the Explorer
+		vscode.window.createTreeView('tabd.attribution', {
+			treeDataProvider: new AttributionTreeProvider(workspaceFolder => loadWorkspaceReportFiles(workspaceFolder)),
+			showCollapseAll: true,
+		}),
+
+		// Register the badges of attributed files in the Explorer and SCM views
+		vscode.window.registerFileDecorationProvider(fileDecorationProvider),
+		fileDecorationProvider,
+
+		vscode.commands.registerCommand('tabd.refreshAttributionView', () => {
+			refreshAttributionViews();
+		}),
+
+		vscode.commands.registerCommand('tabd.clearDataForFile', async (node?: AttributionTreeNode) => {
+			if (node?.kind === 'file') {
+				await confirmAndClearFileData(node.workspaceFolder, node.uri);
+			}
+		}),
+
+		vscode.commands.registerCommand('tabd.exportDataForFile', async (node?: AttributionTreeNode) => {
+			if (node?.kind !== 'file') {
+				return;
+			}
+
+			const uri = await vscode.window.showSaveDialog({
+				defaultUri: vscode.Uri.joinPath(node.workspaceFolder.uri, `${path.basename(node.uri.fsPath)}.tabd.json`),
+				filters: { 'JSON': ['json'] },
+			});
+			if (!uri) {
+				return;
+			}
+
+			try {
+				// The same shape as the export command of the command line tool
+				fs.writeFileSync(uri.fsPath, JSON.stringify([{ path: node.file.path, changes: node.file.changes }], null, 2) + '\n');
+				vscode.window.showInformationMessage(`Exported Tab'd data for "${node.file.path}" to ${uri.fsPath}.`);
+			} catch (error) {
+				console.error('Failed to export file data:', error);
+				vscode.window.showErrorMessage(`Failed to export Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
+		// Register the AI only and human only views of files, which can be compared with the files themselves
+		vscode.workspace.registerTextDocumentContentProvider(ATTRIBUTION_VIEW_SCHEME, new AttributionContentProvider(document => {
+			loadGlobalFileStateForDocumentFromDisk(document);
+			return globalFileState[fsPath(document.uri)]?.changes || [];
+		})),
+
+		...(['ai', 'human'] as AttributionView[]).map(view => vscode.commands.registerCommand(view === 'ai' ? 'tabd.compareAIOnly' : 'tabd.compareHumanOnly', async () => {
+			const activeEditor = vscode.window.activeTextEditor;
+			if (!activeEditor || activeEditor.document.uri.scheme !== 'file') {
+				vscode.window.showWarningMessage('No active file editor found.');
+				return;
+			}
+
+			await compareWithAttributionView(activeEditor.document.uri, view);
+		})),
+
 		// Register listener for window state changes
 		vscode.window.onDidChangeWindowState(windowState => {
 			if (windowState.focused && windowState.active) {
 				enableClipboardTracking();
+				replayIfPending();
 			} else {
 				disableClipboardTracking();
 			}
@@ -341,38 +692,49 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				const obj = JSON.parse(String(args));
-
-				console.debug("Received internal command:", obj);
-
-				if (!obj || !obj._type) {
-					console.warn("Received invalid internal command:", obj);
+				const { event: obj, issues } = parseInternalEvent(args);
+				if (!obj) {
+					console.warn(`Rejected internal command from ${issues[0].source}: ${formatInternalEventIssues(issues)}`, args);
 					return;
 				}
 
+				console.debug("Received internal command:", obj);
+
 				if (obj._extensionName === "kiroAgent") {
 					obj._extensionName = "Kiro"; // Normalize extension name
 				}
 
-				if (obj._type.startsWith('onBeforeApplyEdit') || obj._type.startsWith('onAfterApplyEdit')) {
-					if (obj.edit) {
-						obj.filePath = obj.edit[0][0].fsPath;
-						if (obj.edit[0][1].length !== 1) {
-							console.warn("Received internal command with unexpected edit length:", obj);
-							return;
-						}
-						obj.insertText = obj.edit[0][1][0].newText;
+				if ((obj._type === 'onBeforeApplyEdit' || obj._type === 'onAfterApplyEdit') && obj.edit) {
+					const pendingEvent = mostRecentInternalCommand.value;
+					if (obj._type === 'onAfterApplyEdit' && pendingEvent._type === 'onBeforeApplyEdit' && pendingEvent.edit) {
+						// The changes of the edit are tracked in the order they were queued, so once they have been any edits
+						// still pending were not made and would only match later user edits
+						editLock.runExclusive(async () => {
+							if (mostRecentInternalCommand.value === pendingEvent) {
+								mostRecentInternalCommand.value = { "_type": "initial" };
+								mostRecentInternalCommand.edits = [];
+							}
+						});
+						return;
 					}
-				}
 
-				if (obj && obj.insertText && typeof obj.insertText !== 'string') {
-					console.warn("Received internal command with invalid insertText:", obj);
+					// Every text edit is matched to the change it makes as each document changes, whichever files they are in.
+					// Extensions which only send the event after the edit are matched the same way, as its changes are
+					// tracked once editLock is free rather than as they happen.
+					mostRecentInternalCommand.value = obj;
+					mostRecentInternalCommand.document = null;
+					mostRecentInternalCommand.changes = [];
+					mostRecentInternalCommand.edits = obj.edit.flatMap(([uri, edits]) => {
+						const uriString = vscode.Uri.from(uri).toString();
+						return edits.map(edit => ({ ...edit, uri: uriString }));
+					});
 					return;
 				}
 
 				if (!obj.filePath) {
-					if (obj.command && obj.command.arguments && obj.command.arguments[0] && obj.command.arguments[0].uri) {
-						obj.filePath = fsPath(vscode.Uri.parse(obj.command.arguments[0].uri));
+					const completionUri = obj._type === 'inlineCompletion' ? getInlineCompletionUri(obj) : undefined;
+					if (completionUri) {
+						obj.filePath = fsPath(vscode.Uri.parse(completionUri));
 					} else if (obj._type === 'inlineCompletion') {
 						// use active editor for inline completions
 						const activeEditor = vscode.window.activeTextEditor;
@@ -388,25 +750,26 @@ export function activate(context: vscode.ExtensionContext) {
 					}
 				}
 
-				if (typeof obj.filePath !== 'string') {
-					console.warn("Received internal command with invalid filePath:", obj);
-					return;
-				}
-
 				if (obj._type === 'onAfterInsertEditTool') {
 					editLock.runExclusive(async () => {
-						let fileState = globalFileState[fsPath(mostRecentInternalCommand.document.uri)];
+						const document = mostRecentInternalCommand.document;
+						if (!document) {
+							console.warn("Received internal command without a matching onBeforeInsertEditTool:", obj);
+							return;
+						}
+
+						let fileState = globalFileState[fsPath(document.uri)];
 						let updatedRanges = getUpdatedRanges(
 							fileState.changes,
 							fileState.pasteRanges,
 							mostRecentInternalCommand.changes,
 							ExtendedRangeType.AIGenerated,
-							mostRecentInternalCommand.document,
+							document,
 						);
 
 						fileState.changes = updatedRanges;
 
-						triggerDecorationUpdate(mostRecentInternalCommand.document, updatedRanges);
+						triggerDecorationUpdate(document, updatedRanges);
 					});
 					return;
 				}
@@ -432,7 +795,7 @@ export function activate(context: vscode.ExtensionContext) {
 									range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 0)),
 									rangeOffset: 0, // unused
 									rangeLength: 0, // unused
-									text: obj.insertText,
+									text: obj.insertText || '',
 								}
 							],
 							undefined,
@@ -491,6 +854,20 @@ export function activate(context: vscode.ExtensionContext) {
 	enableClipboardTracking();
 
 	patchExtensions();
+
+	// Pick up history rewrites flagged by the Git hooks, both those made while closed and any made from now on
+	for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+		watchReplayPending(context, workspaceFolder);
+	}
+	replayIfPending();
+	refreshPolicyHooks(context);
+	pruneSnapshots();
+
+	// Let other extensions read and report attribution, and provide their own storage backends
+	return createTabdApi(
+		uri => globalFileState[fsPath(uri)]?.changes,
+		reportAIEdit,
+	);
 }
 
 async function notifyPaste(d: vscode.TextDocument, ranges: readonly vscode.Range[]) {
@@ -517,206 +894,544 @@ async function notifyPaste(d: vscode.TextDocument, ranges: readonly vscode.Range
 	});
 };
 
-async function clearFileData(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument): Promise<void> {
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
+async function reportAIEdit(uri: vscode.Uri, ranges: readonly vscode.Range[], metadata: AIEditMetadata): Promise<void> {
+	if (uri.scheme !== 'file' || !shouldProcessFile(uri) || vscode.workspace.getConfiguration('tabd').get<boolean>('disabled', false)) {
+		return;
+	}
 
-	if (storageType === 'gitNotes') {
-		// Clear Git notes for this file
+	// Load the stored data first, so the file's earlier ranges are kept
+	const d = await vscode.workspace.openTextDocument(uri);
+	loadGlobalFileStateForDocumentFromDisk(d);
+
+	return editLock.runExclusive(async () => {
+		let fileState = globalFileState[fsPath(d.uri)];
+		const now = Date.now();
+		if (!fileState) {
+			fileState = globalFileState[fsPath(d.uri)] = { changes: [], pasteRanges: [], loadTimestamp: now - 1 };
+		}
+
+		fileState.changes = mergeReportedAIEdit(fileState.changes, ranges.map(range => fromVscodeRange(d.validateRange(range))), metadata, now);
+
+		triggerDecorationUpdate(d, fileState.changes);
+	});
+}
+
+async function clearFileData(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, everyBranch = false): Promise<void> {
+	const storageBackend = getConfiguredStorageBackend();
+	if (everyBranch && storageBackend instanceof GitNotesStorageBackend) {
+		storageBackend.clearEveryBranch(workspaceFolder, uri);
+	} else {
+		storageBackend.clear(workspaceFolder, uri);
+	}
+	pruneSnapshots();
+}
+
+async function confirmAndClearFileData(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): Promise<void> {
+	// Git notes are kept per branch, so clearing them on other branches as well needs its own confirmation
+	const everyBranchOption = getConfiguredStorageBackend() instanceof GitNotesStorageBackend ? ['Clear Data on Every Branch'] : [];
+	const result = await vscode.window.showWarningMessage(
+		`Are you sure you want to clear all Tab'd data for "${path.basename(uri.fsPath)}"${everyBranchOption.length > 0 ? ' on the current branch' : ''}? This action cannot be undone.`,
+		{ modal: true },
+		'Clear Data',
+		...everyBranchOption
+	);
+
+	if (result === 'Clear Data' || result === 'Clear Data on Every Branch') {
 		try {
-			const namespace = getGitNotesNamespace(workspaceFolder, document);
+			await clearFileData(workspaceFolder, uri, result === 'Clear Data on Every Branch');
 
-			// Get all commits with notes in this namespace
-			try {
-				const notesOutput = execSync(`git notes --ref=${namespace} list`, {
-					cwd: workspaceFolder.uri.fsPath,
-					encoding: 'utf8',
-					timeout: 5000,
-				}).trim();
-
-				if (notesOutput) {
-					const noteLines = notesOutput.split('\n').filter((line: string) => line.trim());
-
-					for (const noteLine of noteLines) {
-						const [, commitId] = noteLine.split(' ');
-						if (commitId) {
-							try {
-								execSync(`git notes --ref=${namespace} remove ${commitId}`, {
-									cwd: workspaceFolder.uri.fsPath,
-									timeout: 5000,
-								});
-							} catch (removeError) {
-								console.warn(`Failed to remove note for commit ${commitId}:`, removeError);
-							}
-						}
-					}
+			// Clear from memory
+			const filePath = fsPath(uri);
+			if (globalFileState[filePath]) {
+				globalFileState[filePath] = { changes: [], pasteRanges: [], loadTimestamp: Date.now() - 1 };
+			}
 
-					// Try to push the removal to origin
-					try {
-						execSync(`git push origin refs/notes/${namespace}`, {
-							cwd: workspaceFolder.uri.fsPath,
-							timeout: 15000,
-						});
-					} catch (pushError) {
-						console.warn(`Failed to push Git notes deletion to origin:`, pushError);
-					}
-				}
-			} catch (listError) {
-				// No notes exist for this namespace, which is fine
-				console.debug(`No Git notes found for namespace ${namespace}:`, listError);
+			// Update decorations to reflect cleared state
+			const document = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && fsPath(d.uri) === filePath);
+			if (document) {
+				triggerDecorationUpdate(document, []);
 			}
+			refreshAttributionViews(uri);
+
+			vscode.window.showInformationMessage(`Tab'd data cleared for "${path.basename(uri.fsPath)}".`);
 		} catch (error) {
-			console.warn('Failed to clear Git notes:', error);
-			throw new Error(`Failed to clear Git notes: ${error instanceof Error ? error.message : String(error)}`);
+			console.error('Failed to clear file data:', error);
+			vscode.window.showErrorMessage(`Failed to clear Tab'd data: ${error instanceof Error ? error.message : String(error)}`);
 		}
+	}
+}
+
+/**
+ * Update the views of attributed files after stored data has changed
+ * @param uris The files which changed, or undefined if any may have
+ */
+function refreshAttributionViews(uris?: vscode.Uri | vscode.Uri[]): void {
+	refreshAttributionTree();
+	refreshFileDecorations(uris);
+}
+
+async function clearWorkspaceData(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+	getConfiguredStorageBackend().clear(workspaceFolder);
+	pruneSnapshots();
+}
+
+/**
+ * Remove the content snapshots which are too old, or beyond the size limit, for records to still need them
+ */
+function pruneSnapshots(): void {
+	try {
+		const removedSnapshots = pruneContentSnapshots();
+		if (removedSnapshots > 0) {
+			console.debug(`Removed ${removedSnapshots} content snapshots.`);
+		}
+	} catch (error) {
+		console.warn('Failed to remove old content snapshots:', error);
+	}
+}
+
+async function compactFileData(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): Promise<boolean> {
+	const storageBackend = getConfiguredStorageBackend();
+
+	if (!storageBackend.compact) {
+		return false; // Git notes already hold a single record per commit, and the database compacts itself
+	}
+
+	const storedRecords = storageBackend.load(workspaceFolder, uri);
+	if (storedRecords.length <= 1) {
+		return false; // Nothing to compact
+	}
+
+	const filePath = fsPath(uri);
+	const openDocument = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && fsPath(d.uri) === filePath);
+	if (openDocument && openDocument.isDirty) {
+		console.debug(`Skipping compaction of ${filePath} as it has unsaved changes.`);
+		return false;
+	}
+
+	let fileContent: string;
+	if (openDocument) {
+		fileContent = openDocument.getText();
+	} else if (fs.existsSync(filePath)) {
+		fileContent = fs.readFileSync(filePath, 'utf8');
 	} else {
-		// Clear traditional file-based storage (homeDirectory and repository)
-		const logDir = getLogDirectory(workspaceFolder, document);
+		console.debug(`Skipping compaction of ${filePath} as the file no longer exists.`);
+		return false;
+	}
 
-		if (fs.existsSync(logDir)) {
-			const files = fs.readdirSync(logDir);
-			const jsonFiles = files.filter(file => file.endsWith('.json'));
+	// Records with ranges which don't anchor onto the current content are kept as they are, as those ranges may
+	// anchor again later (such as once a branch is switched back), and only the rest are folded into one
+	const anchoredRecordIds = storedRecords
+		.filter(storedRecord => isStoredRecordAnchored(storedRecord, fileContent))
+		.map(storedRecord => storedRecord.id);
+	if (anchoredRecordIds.length <= 1) {
+		return false;
+	}
 
-			for (const file of jsonFiles) {
-				const filePath = path.join(logDir, file);
-				try {
-					fs.unlinkSync(filePath);
-				} catch (error) {
-					console.warn(`Failed to delete file ${filePath}:`, error);
+	// Use what is currently displayed if the file is loaded, otherwise replay the records the same way loading would.
+	// Ranges are merged by their timestamps, so the kept records resolve against the folded one as they did before.
+	const fileState = globalFileState[filePath];
+	const ranges = openDocument && fileState
+		? mergeUserEdits(fileState.changes)
+		: loadRangesFromStoredRecords(storedRecords, fileContent);
+
+	if (!storageBackend.compact(workspaceFolder, uri, serializeFileState(ranges, fileContent, storageBackend), anchoredRecordIds)) {
+		return false;
+	}
+	if (ranges.length > 0) {
+		saveContentSnapshot(generateDataChecksum(fileContent), fileContent);
+	}
+
+	// Everything recorded so far now lives in the compacted record, so later saves start a new one
+	if (fileState) {
+		fileState.savePath = undefined;
+		fileState.loadTimestamp = Date.now();
+	}
+
+	console.debug(`Compacted ${anchoredRecordIds.length} of ${storedRecords.length} records for ${filePath}.`);
+	return true;
+}
+
+async function compactWorkspaceData(workspaceFolder: vscode.WorkspaceFolder, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<number> {
+	const uris = getConfiguredStorageBackend().list(workspaceFolder);
+
+	let compactedFiles = 0;
+	for (const uri of uris) {
+		const relativePath = vscode.workspace.asRelativePath(uri, false);
+		progress.report({ message: relativePath, increment: 100 / uris.length });
+
+		try {
+			if (await editLock.runExclusive(() => compactFileData(workspaceFolder, uri))) {
+				compactedFiles++;
+			}
+		} catch (error) {
+			console.warn(`Failed to compact Tab'd data for ${relativePath}:`, error);
+		}
+	}
+
+	pruneSnapshots();
+	return compactedFiles;
+}
+
+async function replayFileData(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): Promise<boolean> {
+	const storageBackend = getConfiguredStorageBackend();
+	const filePath = fsPath(uri);
+	if (!fs.existsSync(filePath)) {
+		console.debug(`Skipping replay of ${filePath} as the file no longer exists.`);
+		return false;
+	}
+
+	// Earlier versions of the file come from local snapshots, falling back to Git (including commits from before a rebase).
+	// Git is only read when a snapshot is missing, and before taking the lock so edits are not held up meanwhile.
+	const currentChecksum = generateDataChecksum(fs.readFileSync(filePath, 'utf8'));
+	const savedChecksums = new Set(storageBackend.load(workspaceFolder, uri)
+		.map(storedRecord => storedRecord.data.checksum)
+		.filter((checksum): checksum is string => !!checksum && checksum !== currentChecksum));
+	if (savedChecksums.size === 0) {
+		return false;
+	}
+	const snapshotContents = new Map<string, string | undefined>([...savedChecksums].map(checksum => [checksum, loadContentSnapshot(checksum)]));
+	const historyContents = [...snapshotContents.values()].some(content => content === undefined)
+		? await getFileHistoryContents(workspaceFolder, path.relative(workspaceFolder.uri.fsPath, filePath).split(path.sep).join('/'))
+		: new Map<string, string>();
+	const findContent = (checksum: string) => snapshotContents.get(checksum) ?? historyContents.get(checksum) ?? loadContentSnapshot(checksum);
+
+	return editLock.runExclusive(async () => {
+		const openDocument = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && fsPath(d.uri) === filePath);
+		if (openDocument && openDocument.isDirty) {
+			console.debug(`Skipping replay of ${filePath} as it has unsaved changes.`);
+			return false;
+		}
+		if (!fs.existsSync(filePath)) {
+			console.debug(`Skipping replay of ${filePath} as the file no longer exists.`);
+			return false;
+		}
+
+		const fileContent = openDocument ? openDocument.getText() : fs.readFileSync(filePath, 'utf8');
+
+		let replayedRecords = 0;
+		for (const storedRecord of storageBackend.load(workspaceFolder, uri)) {
+			try {
+				const unreplayedChanges: SerializedChange[] = [];
+				const replayedFileState = replaySerializedFileState(storedRecord.data, fileContent, findContent, unreplayedChanges);
+				if (!replayedFileState) {
+					continue;
+				}
+
+				// Ranges which could not be replayed are kept in a record of their own, against the content they were saved with
+				if (unreplayedChanges.length > 0 && !storageBackend.save(workspaceFolder, uri, { ...storedRecord.data, changes: unreplayedChanges })) {
+					continue;
+				}
+				if (storageBackend.save(workspaceFolder, uri, replayedFileState, storedRecord.id)) {
+					replayedRecords++;
 				}
+			} catch (error) {
+				console.warn(`Failed to replay file state from ${storedRecord.id}:`, error);
 			}
+		}
+
+		if (replayedRecords === 0) {
+			return false;
+		}
+
+		saveContentSnapshot(generateDataChecksum(fileContent), fileContent);
+		console.debug(`Replayed ${replayedRecords} records for ${filePath}.`);
+		return true;
+	});
+}
+
+async function replayWorkspaceData(workspaceFolder: vscode.WorkspaceFolder, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<number> {
+	const storageBackend = getConfiguredStorageBackend();
+	const replayedFiles: string[] = [];
+
+	if (storageBackend instanceof GitNotesStorageBackend) {
+		// Notes are attached to commits rather than content, so they only need to follow rewritten commits
+		progress.report({ message: 'Git notes' });
+		if (copyOrphanedGitNotes(workspaceFolder) > 0) {
+			replayedFiles.push(...Object.keys(globalFileState));
+		}
+	} else {
+		const uris = storageBackend.list(workspaceFolder);
+
+		for (const uri of uris) {
+			const relativePath = vscode.workspace.asRelativePath(uri, false);
+			progress.report({ message: relativePath, increment: 100 / uris.length });
 
-			// Try to remove the directory if it's empty
 			try {
-				if (fs.readdirSync(logDir).length === 0) {
-					fs.rmdirSync(logDir);
+				if (await replayFileData(workspaceFolder, uri)) {
+					replayedFiles.push(fsPath(uri));
 				}
 			} catch (error) {
-				// Directory might not be empty or might not exist, which is fine
+				console.warn(`Failed to replay Tab'd data for ${relativePath}:`, error);
 			}
 		}
 	}
 
-	// Clear any temporary files for git notes storage
-	if (storageType === 'gitNotes') {
-		const tempDir = path.join(getStorageDirectory(workspaceFolder, document), 'temp');
-		if (fs.existsSync(tempDir)) {
-			const files = fs.readdirSync(tempDir);
-			const namespace = getGitNotesNamespace(workspaceFolder, document);
-			const relatedFiles = files.filter(file => file.startsWith(namespace));
+	// Reload the replayed files which are open and unmodified, so their decorations reflect the rewritten records
+	for (const document of vscode.workspace.textDocuments) {
+		const filePath = fsPath(document.uri);
+		if (document.uri.scheme !== 'file' || document.isDirty || !replayedFiles.includes(filePath)) {
+			continue;
+		}
 
-			for (const file of relatedFiles) {
-				try {
-					fs.unlinkSync(path.join(tempDir, file));
-				} catch (error) {
-					console.warn(`Failed to delete temp file ${file}:`, error);
-				}
+		await editLock.runExclusive(async () => {
+			delete globalFileState[filePath];
+			loadGlobalFileStateForDocumentFromDisk(document);
+			triggerDecorationUpdate(document, globalFileState[filePath]?.changes || []);
+		});
+	}
+
+	return replayedFiles.length;
+}
+
+async function migrateFileData(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, sourceBackend: StorageBackend, targetBackend: StorageBackend, deleteSource: boolean): Promise<boolean> {
+	const sourceRecords = sourceBackend.load(workspaceFolder, uri);
+	if (sourceRecords.length === 0) {
+		return false;
+	}
+
+	const filePath = fsPath(uri);
+	if (targetBackend instanceof GitNotesStorageBackend) {
+		// Git notes hold a single record per commit, so the records are folded into one (together with anything already
+		// stored for the file), which is only done when every range can be anchored onto the file so nothing is lost.
+		// Records are anchored to the saved file, so any unsaved changes in an open editor are ignored.
+		if (!fs.existsSync(filePath)) {
+			throw new Error('the file no longer exists, so its records cannot be folded into a Git note');
+		}
+		const fileContent = fs.readFileSync(filePath, 'utf8');
+
+		const storedRecords = [...targetBackend.load(workspaceFolder, uri), ...sourceRecords];
+		if (!storedRecords.every(storedRecord => isStoredRecordAnchored(storedRecord, fileContent))) {
+			throw new Error('some of its ranges no longer match the file, so its records cannot be folded into a Git note');
+		}
+
+		const ranges = loadRangesFromStoredRecords(storedRecords, fileContent);
+		if (ranges.length > 0) {
+			if (targetBackend.save(workspaceFolder, uri, serializeFileState(ranges, fileContent, targetBackend)) === undefined) {
+				throw new Error('the storage option did not save the data');
 			}
+			saveContentSnapshot(generateDataChecksum(fileContent), fileContent);
 		}
+	} else {
+		copyStoredRecords(workspaceFolder, uri, sourceBackend, targetBackend);
+	}
+
+	// Only reached once everything has been migrated, as any failure above throws
+	if (deleteSource) {
+		sourceBackend.clear(workspaceFolder, uri);
+	}
+
+	// The record saved this session belongs to the previous storage option, so later saves start a new one
+	const fileState = globalFileState[filePath];
+	if (fileState) {
+		fileState.savePath = undefined;
 	}
+
+	return true;
 }
 
-async function clearWorkspaceData(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
+async function migrateWorkspaceData(workspaceFolder: vscode.WorkspaceFolder, sourceBackend: StorageBackend, targetBackend: StorageBackend, deleteSource: boolean, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<{ migratedFiles: number; failedFiles: string[] }> {
+	const uris = sourceBackend.list(workspaceFolder);
+
+	let migratedFiles = 0;
+	const failedFiles: string[] = [];
+	for (const uri of uris) {
+		const relativePath = vscode.workspace.asRelativePath(uri, false);
+		progress.report({ message: relativePath, increment: 100 / uris.length });
 
-	if (storageType === 'gitNotes') {
-		// Clear all Git notes with tabd prefix
 		try {
-			// Get all tabd-related notes refs
-			try {
-				const refsOutput = execSync(`git for-each-ref refs/notes/tabd__*`, {
-					cwd: workspaceFolder.uri.fsPath,
-					encoding: 'utf8',
-					timeout: 10000,
-				}).trim();
-
-				if (refsOutput) {
-					const refLines = refsOutput.split('\n').filter((line: string) => line.trim());
-
-					for (const refLine of refLines) {
-						const parts = refLine.split('\t');
-						if (parts.length >= 3) {
-							const refName = parts[2]; // refs/notes/tabd__...
-							const namespace = refName.replace('refs/notes/', '');
-
-							try {
-								// Remove all notes in this namespace
-								const notesOutput = execSync(`git notes --ref=${namespace} list`, {
-									cwd: workspaceFolder.uri.fsPath,
-									encoding: 'utf8',
-									timeout: 5000,
-								}).trim();
-
-								if (notesOutput) {
-									const noteLines = notesOutput.split('\n').filter((line: string) => line.trim());
-
-									for (const noteLine of noteLines) {
-										const [, commitId] = noteLine.split(' ');
-										if (commitId) {
-											try {
-												execSync(`git notes --ref=${namespace} remove ${commitId}`, {
-													cwd: workspaceFolder.uri.fsPath,
-													timeout: 5000,
-												});
-											} catch (removeError) {
-												console.warn(`Failed to remove note for commit ${commitId}:`, removeError);
-											}
-										}
-									}
-								}
+			if (await editLock.runExclusive(() => migrateFileData(workspaceFolder, uri, sourceBackend, targetBackend, deleteSource))) {
+				migratedFiles++;
+			}
+		} catch (error) {
+			console.warn(`Failed to migrate Tab'd data for ${relativePath}:`, error);
+			failedFiles.push(relativePath);
+		}
+	}
 
-								// Try to push the removal to origin
-								try {
-									execSync(`git push origin refs/notes/${namespace}`, {
-										cwd: workspaceFolder.uri.fsPath,
-										timeout: 15000,
-									});
-								} catch (pushError) {
-									console.warn(`Failed to push Git notes deletion to origin for ${namespace}:`, pushError);
-								}
-							} catch (error) {
-								console.warn(`Failed to clear notes for namespace ${namespace}:`, error);
-							}
-						}
-					}
-				}
-			} catch (listError) {
-				// No tabd notes exist, which is fine
-				console.debug('No tabd Git notes found:', listError);
+	return { migratedFiles, failedFiles };
+}
+
+async function generateWorkspaceReport(workspaceFolder: vscode.WorkspaceFolder, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<AttributionReport> {
+	return buildAttributionReport(workspaceFolder.name, loadWorkspaceReportFiles(workspaceFolder, progress));
+}
+
+/**
+ * List every file of a workspace folder with tracked changes, whether stored or not yet saved
+ */
+function listWorkspaceFiles(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[] {
+	// Include files with changes which have not been saved to storage yet
+	const filePaths = new Set(getConfiguredStorageBackend().list(workspaceFolder).map(uri => fsPath(uri)));
+	for (const filePath of Object.keys(globalFileState)) {
+		if (globalFileState[filePath].changes.length > 0 && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.toString() === workspaceFolder.uri.toString()) {
+			filePaths.add(filePath);
+		}
+	}
+
+	return [...filePaths].map(filePath => vscode.Uri.file(filePath));
+}
+
+/**
+ * Load every file of a workspace folder with tracked changes, whether stored or not yet saved
+ */
+function loadWorkspaceReportFiles(workspaceFolder: vscode.WorkspaceFolder, progress?: vscode.Progress<{ message?: string; increment?: number }>): ReportFile[] {
+	const storageBackend = getConfiguredStorageBackend();
+	const uris = listWorkspaceFiles(workspaceFolder);
+
+	const reportFiles: ReportFile[] = [];
+	for (const uri of uris) {
+		const relativePath = vscode.workspace.asRelativePath(uri, false);
+		progress?.report({ message: relativePath, increment: 100 / uris.length });
+
+		try {
+			const reportFile = loadReportFile(workspaceFolder, storageBackend, uri, relativePath);
+			if (reportFile && reportFile.changes.length > 0) {
+				reportFiles.push(reportFile);
 			}
 		} catch (error) {
-			console.warn('Failed to clear Git notes:', error);
-			throw new Error(`Failed to clear Git notes: ${error instanceof Error ? error.message : String(error)}`);
+			console.warn(`Failed to load Tab'd data for ${relativePath}:`, error);
 		}
+	}
+
+	return reportFiles;
+}
+
+function loadReportFile(workspaceFolder: vscode.WorkspaceFolder, storageBackend: StorageBackend, uri: vscode.Uri, relativePath: string): ReportFile | undefined {
+	// Use what is currently displayed if the file is open, otherwise replay the records the same way loading would
+	const filePath = fsPath(uri);
+	const openDocument = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && fsPath(d.uri) === filePath);
+	const fileState = globalFileState[filePath];
+	let content: string;
+	let ranges: ExtendedRange[];
+	if (openDocument && fileState) {
+		content = openDocument.getText();
+		ranges = mergeUserEdits(fileState.changes);
+	} else if (fs.existsSync(filePath)) {
+		content = fs.readFileSync(filePath, 'utf8');
+		ranges = loadRangesFromStoredRecords(storageBackend.load(workspaceFolder, uri), content);
 	} else {
-		// Clear traditional file-based storage (homeDirectory and repository)
-		const storageDir = getStorageDirectory(workspaceFolder, { uri: workspaceFolder.uri } as vscode.TextDocument);
+		return undefined; // The file no longer exists
+	}
 
-		if (fs.existsSync(storageDir)) {
-			try {
-				// Remove the entire storage directory recursively
-				fs.rmSync(storageDir, { recursive: true, force: true });
-			} catch (error) {
-				console.warn(`Failed to remove storage directory ${storageDir}:`, error);
-				throw new Error(`Failed to remove storage directory: ${error instanceof Error ? error.message : String(error)}`);
-			}
+	return { path: relativePath, content, changes: serializeFileState(ranges, content, storageBackend).changes };
+}
+
+function loadAttributionTimeline(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument): AttributionTimeline {
+	const storageBackend = getConfiguredStorageBackend();
+	const content = document.getText();
+	const storedRecords = [...storageBackend.load(workspaceFolder, document.uri)];
+
+	// Changes made since the last save are shown as a session of their own
+	const fileState = globalFileState[fsPath(document.uri)];
+	if (fileState) {
+		const lastStoredTimestamp = Math.max(0, ...storedRecords.flatMap(storedRecord => storedRecord.data.changes.map(change => change.creationTimestamp)));
+		const unsavedChanges = mergeUserEdits(fileState.changes).filter(change => change.getCreationTimestamp() > Math.max(lastStoredTimestamp, fileState.loadTimestamp || 0));
+		if (unsavedChanges.length > 0) {
+			storedRecords.push({ id: 'Unsaved changes', data: serializeFileState(unsavedChanges, content, storageBackend) });
 		}
 	}
 
-	// Clear git notes storage temp directory
-	if (storageType === 'gitNotes') {
-		const storageDir = getStorageDirectory(workspaceFolder, { uri: workspaceFolder.uri } as vscode.TextDocument);
-		if (fs.existsSync(storageDir)) {
-			try {
-				fs.rmSync(storageDir, { recursive: true, force: true });
-			} catch (error) {
-				console.warn(`Failed to remove git notes storage directory ${storageDir}:`, error);
+	return buildAttributionTimeline(vscode.workspace.asRelativePath(document.uri, false), storedRecords, content);
+}
+
+async function generateDiffAttribution(workspaceFolder: vscode.WorkspaceFolder, gitRange: string, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<DiffAttribution> {
+	const storageBackend = getConfiguredStorageBackend();
+	const hunks = parseDiffHunks(getDiff(workspaceFolder, gitRange)).filter(hunk => !isHiddenPath(hunk.path));
+	const relativePaths = [...new Set(hunks.map(hunk => hunk.path))];
+
+	const files: ReportFile[] = [];
+	for (const relativePath of relativePaths) {
+		progress.report({ message: relativePath, increment: 100 / relativePaths.length });
+
+		try {
+			const reportFile = loadReportFile(workspaceFolder, storageBackend, vscode.Uri.joinPath(workspaceFolder.uri, relativePath), relativePath);
+			if (reportFile) {
+				files.push(reportFile);
 			}
+		} catch (error) {
+			console.warn(`Failed to load Tab'd data for ${relativePath}:`, error);
+		}
+	}
+
+	const remoteUrl = getRemoteUrl(workspaceFolder);
+	const commit = remoteUrl ? resolveCommit(workspaceFolder, 'HEAD') : undefined;
+	return buildDiffAttribution(gitRange, hunks, files, remoteUrl && commit ? { remoteUrl, commit } : undefined);
+}
+
+/**
+ * Keep installed policy hooks in step with the settings, and with the location of this version of the extension
+ */
+function refreshPolicyHooks(context: vscode.ExtensionContext): void {
+	const storageType = vscode.workspace.getConfiguration('tabd').get<string>('storage', 'repository');
+	if (!isBuiltInStorageType(storageType)) {
+		return;
+	}
+
+	for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+		if (!isPolicyHookInstalled(workspaceFolder)) {
+			continue;
+		}
+
+		try {
+			installPolicyHook(workspaceFolder, context.asAbsolutePath(path.join('out', 'cli.js')), storageType, getConfiguredPolicies());
+		} catch (error) {
+			console.warn(`Failed to update the pre-commit hook in workspace ${workspaceFolder.name}:`, error);
 		}
 	}
 }
 
+const watchedReplayPendingPaths = new Set<string>();
+let replayInProgress = false;
+
+function watchReplayPending(context: vscode.ExtensionContext, workspaceFolder: vscode.WorkspaceFolder): void {
+	let pendingPath: string;
+	try {
+		pendingPath = getGitPath(workspaceFolder, REPLAY_PENDING_FILE);
+	} catch (error) {
+		return; // Not a Git repository
+	}
+
+	if (watchedReplayPendingPaths.has(pendingPath)) {
+		return;
+	}
+	watchedReplayPendingPaths.add(pendingPath);
+
+	const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(path.dirname(pendingPath)), path.basename(pendingPath)), false, false, true);
+	watcher.onDidCreate(() => replayIfPending());
+	watcher.onDidChange(() => replayIfPending());
+	context.subscriptions.push(watcher);
+}
+
+function replayIfPending(): void {
+	if (replayInProgress || vscode.workspace.getConfiguration('tabd').get<boolean>('disabled', false)) {
+		return;
+	}
+
+	const pendingWorkspaceFolders = (vscode.workspace.workspaceFolders || []).filter(workspaceFolder => consumeReplayPending(workspaceFolder));
+	if (pendingWorkspaceFolders.length === 0) {
+		return;
+	}
+
+	replayInProgress = true;
+	vscode.window.withProgress({
+		location: vscode.ProgressLocation.Window,
+		title: `Replaying Tab'd data`,
+	}, async progress => {
+		let replayedFiles = 0;
+		for (const workspaceFolder of pendingWorkspaceFolders) {
+			replayedFiles += await replayWorkspaceData(workspaceFolder, progress);
+		}
+		return replayedFiles;
+	}).then(replayedFiles => {
+		replayInProgress = false;
+		console.debug(`Replayed Tab'd data for ${replayedFiles} files after a history rewrite.`);
+		// Rewrites flagged while replaying were skipped, so pick them up now
+		replayIfPending();
+	}, error => {
+		replayInProgress = false;
+		console.warn('Failed to replay Tab\'d data after a history rewrite:', error);
+	});
+}
+
 export function deactivate() { }
 
 async function saveFileState(document: vscode.TextDocument): Promise<void> {
@@ -735,109 +1450,47 @@ async function saveFileState(document: vscode.TextDocument): Promise<void> {
 		return;
 	}
 
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
+	let storageBackend: StorageBackend;
+	try {
+		storageBackend = getConfiguredStorageBackend();
+	} catch (error) {
+		console.error('Failed to save file state:', error);
+		return;
+	}
 
-	if (currentUser === "" && (storageType === 'repository' || storageType === 'gitNotes')) {
+	if (currentUser === "" && storageBackend.shared) {
 		currentUser = getCurrentGitUser(workspaceFolder);
 	}
 
 	// Prepare the data to save
-	const dataToSave: SerializedFileState = {
-		version: 1,
-		changes: mergeUserEdits(fileState.changes)
-			.filter(change => change.getCreationTimestamp() > (fileState.loadTimestamp || 0))
-			.map(change => ({
-				start: change.start,
-				end: change.end,
-				type: change.getType(),
-				creationTimestamp: change.getCreationTimestamp(),
-				author: change.getAuthor() || currentUser || ((storageType === 'repository' || storageType === 'gitNotes') ? 'an unknown user' : ''),
-				pasteUrl: change.getPasteUrl() || '',
-				pasteTitle: change.getPasteTitle() || '',
-				aiName: change.getAiName() || '',
-				aiModel: change.getAiModel() || '',
-				aiExplanation: change.getAiExplanation() || '',
-				aiType: change.getAiType() || '',
-			})),
-	};
+	const fileContent = document.getText();
+	const dataToSave = serializeFileState(
+		mergeUserEdits(fileState.changes).filter(change => change.getCreationTimestamp() > (fileState.loadTimestamp || 0)),
+		fileContent,
+		storageBackend,
+	);
 
 	if (dataToSave.changes.length === 0) {
 		console.warn(`No changes to save for ${document.uri.fsPath}. Skipping file state save.`);
 		return;
 	}
 
-	// Generate checksum for the actual file content
-	const fileContent = document.getText();
-	dataToSave.checksum = generateDataChecksum(fileContent);
-
-	// Handle gitnotes storage
-	if (storageType === 'gitNotes') {
-		// Check if Git is initialized at the workspace root
-		const gitPath = path.join(workspaceFolder.uri.fsPath, '.git');
-		const isGitRepo = fs.existsSync(gitPath);
-
-		if (!isGitRepo) {
-			console.warn('No Git repository found. Skipping file state save.');
-			return;
-		}
-
-		try {
-			const namespace = getGitNotesNamespace(workspaceFolder, document);
-			saveToGitNotes(workspaceFolder, document, dataToSave, namespace);
-
-			globalFileState[fsPath(document.uri)] = fileState;
-		} catch (error) {
-			console.error('Failed to save to Git notes:', error);
-		}
-		return;
+	// Keep a local copy of the content so ranges can be rebased if the file is changed outside the editor
+	try {
+		saveContentSnapshot(generateDataChecksum(fileContent), fileContent);
+	} catch (error) {
+		console.warn(`Failed to save content snapshot for ${document.uri.fsPath}:`, error);
 	}
 
-	// Write to existing file if it exists (traditional storage)
-	if (fileState.savePath) {
-		fs.writeFileSync(fileState.savePath, JSON.stringify(dataToSave));
+	// Later saves in this session overwrite the same record, as it holds every change since the file was loaded
+	try {
+		fileState.savePath = storageBackend.save(workspaceFolder, document.uri, dataToSave, fileState.savePath);
+	} catch (error) {
+		console.error('Failed to save file state:', error);
 		return;
 	}
 
-	// Check is Git is initialized at the workspace root (only required for repository storage)					
-	if (storageType === 'repository') {
-		const gitPath = path.join(workspaceFolder.uri.fsPath, '.git');
-		const isGitRepo = fs.existsSync(gitPath);
-
-		if (!isGitRepo) {
-			console.warn('No Git repository found. Skipping file state save.');
-			return;
-		}
-
-		const gitAttributesPath = path.join(workspaceFolder.uri.fsPath, '.gitattributes');
-		if (!fs.existsSync(gitAttributesPath)) {
-			// Create .gitattributes file if it doesn't exist
-			fs.writeFileSync(gitAttributesPath, `.tabd/** linguist-generated=true\n`);
-		}
-	}
-
-	// Get the appropriate storage directory
-	const baseStorageDir = getStorageDirectory(workspaceFolder, document);
-	if (!fs.existsSync(baseStorageDir)) {
-		fs.mkdirSync(baseStorageDir, { recursive: true });
-		// TODO: Make a README.md file in the storage directory
-	}
-
-	// Write the file state to a JSON file
-	const fileChangeRecordDir = getLogDirectory(workspaceFolder, document);
-	const fileChangeRecordPath = path.join(fileChangeRecordDir, uniqueFileName());
-	if (!fs.existsSync(fileChangeRecordDir)) {
-		fs.mkdirSync(fileChangeRecordDir, { recursive: true });
-	}
-	if (fs.existsSync(fileChangeRecordPath)) {
-		throw new Error(`File change record already exists at ${fileChangeRecordPath}. This should not happen!`);
-	}
-
-	// Write the file state to a JSON file with checksum
-	fs.writeFileSync(fileChangeRecordPath, JSON.stringify(dataToSave));
-
 	// Update the global file state
-	fileState.savePath = fileChangeRecordPath;
 	globalFileState[fsPath(document.uri)] = fileState;
 }
 
@@ -863,134 +1516,91 @@ function loadGlobalFileStateForDocumentFromDisk(document: vscode.TextDocument |
 		return;
 	}
 
-	// Check is Git is initialized at the workspace root (required for repository and gitnotes storage)
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
+	// The backend may come from another extension, which is not guaranteed to be registered yet or to load cleanly
+	let storedRecords: StoredRecord[];
+	try {
+		const storageBackend = getConfiguredStorageBackend();
 
-	if (storageType === 'repository' || storageType === 'gitNotes') {
 		// Set the current user if not already set
-		if (currentUser === "") {
+		if (storageBackend.shared && currentUser === "") {
 			currentUser = getCurrentGitUser(workspaceFolder) || "";
 		}
 
-		const gitPath = path.join(workspaceFolder.uri.fsPath, '.git');
-		const isGitRepo = fs.existsSync(gitPath);
-
-		if (!isGitRepo) {
-			return;
-		}
-	}
-
-	// Handle gitnotes storage
-	if (storageType === 'gitNotes') {
-		const namespace = getGitNotesNamespace(workspaceFolder, document);
-		const noteData = loadFromGitNotes(workspaceFolder, document, namespace);
-
-		let updatedRanges: ExtendedRange[] = [];
-
-		for (const fileState of noteData) {
-			if (fileState.version !== 1) {
-				continue; // Unsupported version
-			}
-
-			// Verify checksum if present
-			if (fileState.checksum) {
-				const currentFileContent = document.getText();
-				const currentChecksum = generateDataChecksum(currentFileContent);
-				if (currentChecksum !== fileState.checksum) {
-					console.debug(`File content has changed since Git notes data was saved. Skipping outdated data.`);
-					continue;
-				}
-			}
-
-			const newChanges = fileState.changes.map(change => {
-				const options = new ExtendedRangeOptions();
-				options.pasteUrl = change.pasteUrl || "";
-				options.pasteTitle = change.pasteTitle || "";
-				options.aiName = change.aiName || "";
-				options.aiModel = change.aiModel || "";
-				options.aiExplanation = change.aiExplanation || "";
-				options.aiType = change.aiType || "";
-
-				return new ExtendedRange(
-					new vscode.Position(change.start.line, change.start.character),
-					new vscode.Position(change.end.line, change.end.character),
-					change.type,
-					change.creationTimestamp,
-					change.author || "",
-					options,
-				);
-			});
-
-			updatedRanges = mergeRangesSequentially(updatedRanges, newChanges);
-		}
-
-		globalFileState[filePath].changes = updatedRanges;
+		storedRecords = storageBackend.load(workspaceFolder, document.uri);
+	} catch (error) {
+		console.warn(`Failed to load file state for ${document.uri.fsPath}:`, error);
 		return;
 	}
 
-	// Handle traditional file-based storage (homeDirectory and repository)
-	const fileChangeRecordDir = getLogDirectory(workspaceFolder, document);
-
-	if (!fs.existsSync(fileChangeRecordDir)) {
+	if (storedRecords.length === 0) {
 		return; // No file state found
 	}
 
-	const fileChangeRecords = fs.readdirSync(fileChangeRecordDir)
-		.filter(file => file.endsWith('.json'))
-		.map(file => path.join(fileChangeRecordDir, file));
+	globalFileState[filePath].changes = loadRangesFromStoredRecords(storedRecords, document.getText());
+	updateDiagnostics(document, globalFileState[filePath].changes);
+	refreshCodeLenses();
+	notifyAttributionChange(document.uri, globalFileState[filePath].changes);
+	for (const editor of vscode.window.visibleTextEditors) {
+		if (editor.document === document) {
+			updateInlineBlame(editor, globalFileState[filePath].changes);
+		}
+	}
 
-	if (fileChangeRecords.length === 0) {
-		return; // No file state found
+	// Fold the history into a single record once it grows past the configured threshold
+	const config = vscode.workspace.getConfiguration('tabd');
+	const compactionThreshold = config.get<number>('compactionThreshold', 50);
+	if (compactionThreshold > 0 && storedRecords.length > compactionThreshold) {
+		editLock.runExclusive(() => compactFileData(workspaceFolder, document.uri)).catch(error => {
+			console.warn(`Failed to compact Tab'd data for ${document.uri.fsPath}:`, error);
+		});
 	}
+}
 
-	// Sort file change records by filename (which includes timestamp) to process chronologically
-	fileChangeRecords.sort();
+/**
+ * Expand a rename into the old and new locations of each file it moved, as renaming a directory moves everything in it
+ */
+function listRenamedFiles(oldUri: vscode.Uri, newUri: vscode.Uri): [vscode.Uri, vscode.Uri][] {
+	let isDirectory = false;
+	try {
+		isDirectory = fs.statSync(newUri.fsPath).isDirectory();
+	} catch (error) {
+		// The file has since been moved again or removed, so only its own data can be moved
+	}
 
-	let updatedRanges: ExtendedRange[] = [];
+	if (!isDirectory) {
+		return shouldProcessFile(oldUri) && shouldProcessFile(newUri) ? [[oldUri, newUri]] : [];
+	}
 
-	for (const fileChangeRecordPath of fileChangeRecords) {
-		try {
-			const fileContent = fs.readFileSync(fileChangeRecordPath, 'utf8');
-			const fileState: SerializedFileState = JSON.parse(fileContent);
-			if (fileState.version !== 1) {
-				continue; // Unsupported version
-			}
-
-			// Verify checksum if present
-			if (fileState.checksum) {
-				const currentFileContent = document.getText();
-				const currentChecksum = generateDataChecksum(currentFileContent);
-				if (currentChecksum !== fileState.checksum) {
-					console.debug(`File content has changed since data was saved for ${fileChangeRecordPath}. Skipping outdated data.`);
-					continue;
-				}
+	const renamedFiles: [vscode.Uri, vscode.Uri][] = [];
+	const pendingDirs = [newUri.fsPath];
+	while (pendingDirs.length > 0) {
+		const dir = pendingDirs.pop()!;
+		for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+			const entryPath = path.join(dir, entry.name);
+			const oldEntryUri = vscode.Uri.file(path.join(oldUri.fsPath, path.relative(newUri.fsPath, entryPath)));
+			if (!shouldProcessFile(oldEntryUri) || !shouldProcessFile(vscode.Uri.file(entryPath))) {
+				continue;
 			}
 
-			const newChanges = fileState.changes.map(change => {
-				const options = new ExtendedRangeOptions();
-				options.pasteUrl = change.pasteUrl || "";
-				options.pasteTitle = change.pasteTitle || "";
-				options.aiName = change.aiName || "";
-				options.aiModel = change.aiModel || "";
-				options.aiExplanation = change.aiExplanation || "";
-				options.aiType = change.aiType || "";
-
-				return new ExtendedRange(
-					new vscode.Position(change.start.line, change.start.character),
-					new vscode.Position(change.end.line, change.end.character),
-					change.type,
-					change.creationTimestamp,
-					change.author || "",
-					options,
-				);
-			});
-
-			updatedRanges = mergeRangesSequentially(updatedRanges, newChanges);
-		} catch (error) {
-			console.warn(`Failed to load file state from ${fileChangeRecordPath}:`, error);
+			if (entry.isDirectory()) {
+				pendingDirs.push(entryPath);
+			} else if (entry.isFile()) {
+				renamedFiles.push([oldEntryUri, vscode.Uri.file(entryPath)]);
+			}
 		}
 	}
 
-	globalFileState[filePath].changes = updatedRanges;
+	return renamedFiles;
+}
+
+function serializeFileState(changes: ExtendedRange[], fileContent: string, storageBackend: StorageBackend): SerializedFileState {
+	return {
+		version: SERIALIZED_FILE_STATE_VERSION,
+		changes: changes.map(change => ({
+			...serializeChange(change),
+			author: change.getAuthor() || currentUser || (storageBackend.shared ? 'an unknown user' : ''),
+			fingerprint: change.isEmpty ? undefined : createFingerprint(getTextInRange(fileContent, change.start, change.end)),
+		})),
+		checksum: generateDataChecksum(fileContent),
+	};
 }
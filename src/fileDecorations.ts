@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { ExtendedRangeType } from './extendedRange';
+import { AttributionBadge, ReportFile, getAttributionBadge } from './report';
+
+/** The theme colors files are tinted with, by the type of change they are badged for */
+const BADGE_COLORS: { [type: string]: string } = {
+    [ExtendedRangeType.AIGenerated]: 'tabd.aiGeneratedFileForeground',
+    [ExtendedRangeType.Paste]: 'tabd.pasteFileForeground',
+};
+
+const indexChanges = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+
+/**
+ * Update the badges after stored data has changed
+ * @param uris The files which changed, or undefined to rebuild the index of every workspace folder
+ */
+export function refreshFileDecorations(uris?: vscode.Uri | vscode.Uri[]) {
+    indexChanges.fire(uris);
+}
+
+/**
+ * Badges files in the Explorer and SCM views by their attribution, when enabled by the tabd.fileDecorations setting.
+ * The badges are kept in an index which is built once per workspace folder and then updated a file at a time,
+ * as loading the stored data of every file each time the Explorer renders would be too slow. The index is built in the
+ * background, yielding between files, and badges appear as their files are indexed.
+ */
+export class AttributionFileDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly fileDecorationChanges = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    public readonly onDidChangeFileDecorations = this.fileDecorationChanges.event;
+    private readonly listFiles: (workspaceFolder: vscode.WorkspaceFolder) => vscode.Uri[];
+    private readonly loadFile: (workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri) => ReportFile | undefined;
+    /** Badges keyed by the URI of each file with one, for each workspace folder which has been indexed */
+    private readonly index = new Map<string, Map<string, AttributionBadge>>();
+    private readonly subscription: vscode.Disposable;
+
+    constructor(
+        listFiles: (workspaceFolder: vscode.WorkspaceFolder) => vscode.Uri[],
+        loadFile: (workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri) => ReportFile | undefined
+    ) {
+        this.listFiles = listFiles;
+        this.loadFile = loadFile;
+        this.subscription = indexChanges.event(uris => this.update(uris));
+    }
+
+    private getSettings(): { enabled: boolean; aiThreshold: number } {
+        const config = vscode.workspace.getConfiguration('tabd');
+        return {
+            enabled: config.get<boolean>('fileDecorations', false) && !config.get<boolean>('disabled', false),
+            aiThreshold: config.get<number>('fileDecorationThreshold', 50),
+        };
+    }
+
+    private getFolderIndex(workspaceFolder: vscode.WorkspaceFolder): Map<string, AttributionBadge> {
+        const key = workspaceFolder.uri.toString();
+        let folderIndex = this.index.get(key);
+        if (!folderIndex) {
+            folderIndex = new Map();
+            this.index.set(key, folderIndex);
+            this.buildFolderIndex(workspaceFolder, folderIndex);
+        }
+        return folderIndex;
+    }
+
+    /**
+     * Fill in the index of a workspace folder a file at a time, so the Explorer isn't held up while it is built
+     */
+    private async buildFolderIndex(workspaceFolder: vscode.WorkspaceFolder, folderIndex: Map<string, AttributionBadge>): Promise<void> {
+        let uris: vscode.Uri[];
+        try {
+            uris = this.listFiles(workspaceFolder);
+        } catch (error) {
+            console.warn(`Failed to index Tab'd data for ${workspaceFolder.name}:`, error);
+            return;
+        }
+
+        const badgedUris: vscode.Uri[] = [];
+        for (const uri of uris) {
+            await new Promise(resolve => setImmediate(resolve));
+
+            // The index is thrown away when the settings change, in which case a new one is being built instead
+            if (this.index.get(workspaceFolder.uri.toString()) !== folderIndex) {
+                return;
+            }
+            if (this.updateBadge(workspaceFolder, folderIndex, uri)) {
+                badgedUris.push(uri);
+            }
+        }
+
+        if (badgedUris.length > 0) {
+            this.fileDecorationChanges.fire(badgedUris);
+        }
+    }
+
+    /**
+     * Reload the badge of a file
+     * @returns True if the file has a badge
+     */
+    private updateBadge(workspaceFolder: vscode.WorkspaceFolder, folderIndex: Map<string, AttributionBadge>, uri: vscode.Uri): boolean {
+        let badge: AttributionBadge | undefined;
+        try {
+            const file = this.loadFile(workspaceFolder, uri);
+            badge = file ? getAttributionBadge(file, this.getSettings().aiThreshold) : undefined;
+        } catch (error) {
+            console.warn(`Failed to index Tab'd data for ${uri.fsPath}:`, error);
+        }
+
+        if (badge) {
+            folderIndex.set(uri.toString(), badge);
+        } else {
+            folderIndex.delete(uri.toString());
+        }
+        return !!badge;
+    }
+
+    private update(uris: vscode.Uri | vscode.Uri[] | undefined) {
+        if (!uris) {
+            this.index.clear();
+            this.fileDecorationChanges.fire(undefined);
+            return;
+        }
+
+        const changedUris: vscode.Uri[] = [];
+        for (const uri of Array.isArray(uris) ? uris : [uris]) {
+            // Folders which have not been indexed yet will pick up the change when they are
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+            const folderIndex = workspaceFolder && this.index.get(workspaceFolder.uri.toString());
+            if (workspaceFolder && folderIndex) {
+                this.updateBadge(workspaceFolder, folderIndex, uri);
+                changedUris.push(uri);
+            }
+        }
+
+        if (changedUris.length > 0) {
+            this.fileDecorationChanges.fire(changedUris);
+        }
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== 'file' || !this.getSettings().enabled) {
+            return undefined;
+        }
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        const badge = workspaceFolder && this.getFolderIndex(workspaceFolder).get(uri.toString());
+        if (!badge) {
+            return undefined;
+        }
+
+        return new vscode.FileDecoration(badge.badge, badge.tooltip, new vscode.ThemeColor(BADGE_COLORS[badge.type]));
+    }
+
+    dispose() {
+        this.subscription.dispose();
+        this.fileDecorationChanges.dispose();
+    }
+}
@@ -1,10 +1,15 @@
-import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import type * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { execFile, execFileSync, execSync, spawn } from 'child_process';
+import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createHash } from 'crypto';
 import { SerializedFileState } from './types';
-import { getLogDirectory } from './utils';
+import { ValidationIssue, loadSerializedFileState } from './migrations';
+import { getHomeStorageDirectory, generateDataChecksum, getRelativePath } from './utils';
+
+const execFileAsync = promisify(execFile);
 
 /**
  * Get the current Git user name
@@ -45,20 +50,27 @@ export function getCurrentGitUser(workspaceFolder: vscode.WorkspaceFolder): stri
     return '';
 }
 
-/**
- * Generate a Git notes namespace for a file
- * @param workspaceFolder The workspace folder
- * @param document The document
- * @returns The Git notes namespace (e.g., "tabd__directory1__file1.txt")
- */
-export function getGitNotesNamespace(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument): string {
-	const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+// Limits how far back the commit history is walked when looking for notes
+const MAX_ANCESTRY_COMMITS = 10000;
+
+function getNamespaceFileHash(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+	const relativePath = getRelativePath(workspaceFolder, uri);
 	// Replace path separators and special characters with double underscores
 	const namespace = relativePath
 		.replace(/[/\\]/g, '__')
 		.replace(/[^a-zA-Z0-9._-]/g, '_');
 
-	const sha256namespace = createHash('sha256').update(namespace).digest('hex');
+	return createHash('sha256').update(namespace).digest('hex');
+}
+
+/**
+ * Generate a Git notes namespace for a file
+ * @param workspaceFolder The workspace folder
+ * @param uri The file
+ * @returns The Git notes namespace (e.g., "tabd__directory1__file1.txt")
+ */
+export function getGitNotesNamespace(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+	const sha256namespace = getNamespaceFileHash(workspaceFolder, uri);
 
 	const branchNameOutput = execSync(`git rev-parse --abbrev-ref HEAD`, {
 		cwd: workspaceFolder.uri.fsPath,
@@ -69,17 +81,115 @@ export function getGitNotesNamespace(workspaceFolder: vscode.WorkspaceFolder, do
 	return `tabd__${branchNameOutput}__${sha256namespace}`;
 }
 
+/**
+ * Get the Git notes namespaces holding data for a file on any branch
+ * @param workspaceFolder The workspace folder
+ * @param uri The file
+ * @returns The local Git notes namespaces for the file
+ */
+export function getGitNotesNamespaces(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): string[] {
+	const sha256namespace = getNamespaceFileHash(workspaceFolder, uri);
+
+	try {
+		const refsOutput = execSync(`git for-each-ref --format="%(refname)" refs/notes/`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 5000,
+		}).trim();
+
+		return refsOutput.split('\n')
+			.map(refName => refName.trim().replace(/^refs\/notes\//, ''))
+			.filter(namespace => namespace.startsWith('tabd__') && namespace.endsWith(`__${sha256namespace}`));
+	} catch (error) {
+		console.warn('Failed to list Git notes namespaces:', error);
+		return [];
+	}
+}
+
+// The ancestry of HEAD in each repository, keyed by its workspace folder, which is only listed again once HEAD moves
+const ancestryCache = new Map<string, { head: string; ancestry: string[] }>();
+
+/**
+ * Get the commits reachable from HEAD, which includes those of any branch merged into it
+ * @param workspaceFolder The workspace folder
+ * @returns The commit hashes, newest first
+ */
+export function getCommitAncestry(workspaceFolder: vscode.WorkspaceFolder): string[] {
+	const head = resolveCommit(workspaceFolder, 'HEAD');
+	if (!head) {
+		return [];
+	}
+	const cached = ancestryCache.get(workspaceFolder.uri.fsPath);
+	if (cached && cached.head === head) {
+		return cached.ancestry;
+	}
+
+	try {
+		const revListOutput = execSync(`git rev-list --max-count=${MAX_ANCESTRY_COMMITS} ${head}`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 10,
+		}).trim();
+
+		const ancestry = revListOutput.split('\n').map(line => line.trim()).filter(line => line);
+		ancestryCache.set(workspaceFolder.uri.fsPath, { head, ancestry });
+		return ancestry;
+	} catch (error) {
+		console.warn('Failed to get commit ancestry:', error);
+		return [];
+	}
+}
+
+// Notes are fetched from origin once per session, and again only once this long has passed since
+const GIT_NOTES_FETCH_INTERVAL = 10 * 60 * 1000;
+
+// When the notes of each repository were last fetched, keyed by its workspace folder
+const gitNotesFetchTimes = new Map<string, number>();
+
+/**
+ * Fetch the Tab'd Git notes namespaces of every file on any branch from origin, unless they were fetched recently
+ * @param workspaceFolder The workspace folder
+ */
+function fetchGitNotesNamespaces(workspaceFolder: vscode.WorkspaceFolder): void {
+	const lastFetchTime = gitNotesFetchTimes.get(workspaceFolder.uri.fsPath);
+	if (lastFetchTime !== undefined && Date.now() - lastFetchTime < GIT_NOTES_FETCH_INTERVAL) {
+		return;
+	}
+	// Set before fetching, so an unreachable origin isn't retried on every file opened
+	gitNotesFetchTimes.set(workspaceFolder.uri.fsPath, Date.now());
+
+	try {
+		execSync(`git fetch origin "refs/notes/tabd__*:refs/notes/tabd__*"`, {
+			cwd: workspaceFolder.uri.fsPath,
+			timeout: 15000,
+			stdio: 'pipe',
+		});
+	} catch (pullError) {
+		console.warn('Failed to pull Git notes from origin:', pullError);
+	}
+}
+
+/**
+ * Get the directory where note content is written before being added to Git notes
+ * @param workspaceFolder The workspace folder
+ * @returns The temporary directory for the workspace
+ */
+export function getGitNotesTempDirectory(workspaceFolder: vscode.WorkspaceFolder): string {
+	return path.join(getHomeStorageDirectory('gitnotes', workspaceFolder), 'temp');
+}
+
 /**
  * Save data to Git notes
  * @param workspaceFolder The workspace folder
- * @param document The document
+ * @param uri The file
  * @param data The data to save
  * @param namespace The Git notes namespace
  */
-export function saveToGitNotes(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument, data: SerializedFileState, namespace: string): void {
+export function saveToGitNotes(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, namespace: string): void {
 	try {
 		// Create temporary file with the note content
-		const tempDir = getLogDirectory(workspaceFolder, document);
+		const tempDir = getGitNotesTempDirectory(workspaceFolder);
 		if (!fs.existsSync(tempDir)) {
 			fs.mkdirSync(tempDir, { recursive: true });
 		}
@@ -120,70 +230,785 @@ export function saveToGitNotes(workspaceFolder: vscode.WorkspaceFolder, document
 
 /**
  * Load data from Git notes
+ * Notes are gathered from the file's namespace on every branch, keeping those attached to commits
+ * in the history of HEAD, so attribution follows commits, branch switches and merges.
  * @param workspaceFolder The workspace folder
- * @param document The document
- * @param namespace The Git notes namespace
- * @returns The loaded data or null if not found
+ * @param uri The file
+ * @param issues Collects problems with notes which could not be fully loaded
+ * @returns The loaded data, oldest first
  */
-export function loadFromGitNotes(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument, namespace: string): SerializedFileState[] {
+export function loadFromGitNotes(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): SerializedFileState[] {
 	try {
 		// Pull notes from origin first
-		try {
-			execSync(`git fetch origin refs/notes/${namespace}:refs/notes/${namespace}`, {
-				cwd: workspaceFolder.uri.fsPath,
-				timeout: 15000,
-			});
-		} catch (pullError) {
-			console.warn(`Failed to pull Git notes from origin for namespace ${namespace}:`, pullError);
-		}
-		
-		// List all notes for this namespace
-		const notesOutput = execSync(`git notes --ref=${namespace} list`, {
-			cwd: workspaceFolder.uri.fsPath,
-			encoding: 'utf8',
-			timeout: 5000,
-		}).trim();
-		
-		if (!notesOutput) {
+		fetchGitNotesNamespaces(workspaceFolder);
+
+		const ancestry = new Set(getCommitAncestry(workspaceFolder));
+		if (ancestry.size === 0) {
 			return [];
 		}
-		
-		const notes: SerializedFileState[] = [];
-		const noteLines = notesOutput.split('\n').filter(line => line.trim());
-		
-		for (const noteLine of noteLines) {
-			const [noteId, commitId] = noteLine.split(' ');
-			if (!noteId || !commitId) {
-				continue;
-			}
-			
+
+		// The notes on commits in the history of HEAD, which are read together once they have all been listed
+		const noteBlobs: { namespace: string; noteId: string; commitId: string }[] = [];
+
+		for (const namespace of getGitNotesNamespaces(workspaceFolder, uri)) {
+			// List all notes for this namespace
+			let notesOutput: string;
 			try {
-				// Get the note content
-				const noteContent = execSync(`git notes --ref=${namespace} show ${commitId}`, {
+				notesOutput = execSync(`git notes --ref=${namespace} list`, {
 					cwd: workspaceFolder.uri.fsPath,
 					encoding: 'utf8',
 					timeout: 5000,
-				});
-				
-				const noteData: SerializedFileState = JSON.parse(noteContent);
-				if (noteData.version === 1) {
+				}).trim();
+			} catch (listError) {
+				console.warn(`Failed to list Git notes for namespace ${namespace}:`, listError);
+				continue;
+			}
+
+			if (!notesOutput) {
+				continue;
+			}
+
+			const noteLines = notesOutput.split('\n').filter(line => line.trim());
+
+			for (const noteLine of noteLines) {
+				const [noteId, commitId] = noteLine.split(' ');
+				if (noteId && commitId && ancestry.has(commitId)) {
+					noteBlobs.push({ namespace, noteId, commitId });
+				}
+			}
+		}
+
+		const noteContents = noteBlobs.length > 0 ? readBlobsSync(workspaceFolder, noteBlobs.map(noteBlob => noteBlob.noteId)) : new Map<string, string>();
+		const notes: SerializedFileState[] = [];
+		for (const { namespace, noteId, commitId } of noteBlobs) {
+			const source = `Git note ${namespace}@${commitId}`;
+			try {
+				const noteContent = noteContents.get(noteId);
+				if (noteContent === undefined) {
+					throw new Error(`note ${noteId} could not be read`);
+				}
+
+				const noteData = loadSerializedFileState(JSON.parse(noteContent), source, issues);
+				if (noteData) {
 					notes.push(noteData);
 				}
 			} catch (noteError) {
 				console.warn(`Failed to load note ${noteId} for commit ${commitId}:`, noteError);
+				issues?.push({ source, field: '', message: noteError instanceof Error ? noteError.message : String(noteError) });
 			}
 		}
-		
+
 		// Sort by creation timestamp if available
 		notes.sort((a, b) => {
 			const aTime = a.changes.length > 0 ? Math.min(...a.changes.map(c => c.creationTimestamp)) : 0;
 			const bTime = b.changes.length > 0 ? Math.min(...b.changes.map(c => c.creationTimestamp)) : 0;
 			return aTime - bTime;
 		});
-		
+
 		return notes;
 	} catch (error) {
-		console.warn(`Failed to load from Git notes namespace ${namespace}:`, error);
+		console.warn(`Failed to load from Git notes for ${uri.fsPath}:`, error);
 		return [];
 	}
 }
+
+function removeGitNotesNamespace(workspaceFolder: vscode.WorkspaceFolder, namespace: string): void {
+	// Get all commits with notes in this namespace
+	try {
+		const notesOutput = execSync(`git notes --ref=${namespace} list`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 5000,
+		}).trim();
+
+		if (notesOutput) {
+			const noteLines = notesOutput.split('\n').filter((line: string) => line.trim());
+
+			for (const noteLine of noteLines) {
+				const [, commitId] = noteLine.split(' ');
+				if (commitId) {
+					try {
+						execSync(`git notes --ref=${namespace} remove ${commitId}`, {
+							cwd: workspaceFolder.uri.fsPath,
+							timeout: 5000,
+						});
+					} catch (removeError) {
+						console.warn(`Failed to remove note for commit ${commitId}:`, removeError);
+					}
+				}
+			}
+
+			// Try to push the removal to origin
+			try {
+				execSync(`git push origin refs/notes/${namespace}`, {
+					cwd: workspaceFolder.uri.fsPath,
+					timeout: 15000,
+				});
+			} catch (pushError) {
+				console.warn(`Failed to push Git notes deletion to origin for ${namespace}:`, pushError);
+			}
+		}
+	} catch (listError) {
+		// No notes exist for this namespace, which is fine
+		console.debug(`No Git notes found for namespace ${namespace}:`, listError);
+	}
+}
+
+function listTabdNamespaces(workspaceFolder: vscode.WorkspaceFolder): string[] {
+	const refsOutput = execSync(`git for-each-ref --format="%(refname)" refs/notes/`, {
+		cwd: workspaceFolder.uri.fsPath,
+		encoding: 'utf8',
+		timeout: 10000,
+	}).trim();
+
+	return refsOutput.split('\n')
+		.map(refName => refName.trim().replace(/^refs\/notes\//, ''))
+		.filter(namespace => namespace.startsWith('tabd__'));
+}
+
+/**
+ * Remove the Tab'd Git notes of a file on the current branch, or of every file on every branch if no file is given
+ * @param workspaceFolder The workspace folder
+ * @param uri The file
+ * @param everyBranch Whether to remove the notes of the file on every branch, rather than only the current one
+ */
+export function clearGitNotes(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri, everyBranch = false): void {
+	let namespaces: string[];
+	try {
+		if (!uri) {
+			namespaces = listTabdNamespaces(workspaceFolder);
+		} else if (everyBranch) {
+			namespaces = getGitNotesNamespaces(workspaceFolder, uri);
+		} else {
+			namespaces = [getGitNotesNamespace(workspaceFolder, uri)];
+		}
+
+		for (const namespace of namespaces) {
+			removeGitNotesNamespace(workspaceFolder, namespace);
+		}
+	} catch (error) {
+		console.warn('Failed to clear Git notes:', error);
+		throw new Error(`Failed to clear Git notes: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	// Clear any temporary files written before adding the notes
+	const tempDir = getGitNotesTempDirectory(workspaceFolder);
+	if (!uri) {
+		fs.rmSync(path.dirname(tempDir), { recursive: true, force: true });
+	} else if (fs.existsSync(tempDir)) {
+		for (const file of fs.readdirSync(tempDir).filter(file => namespaces.some(namespace => file.startsWith(`${namespace}_`)))) {
+			try {
+				fs.unlinkSync(path.join(tempDir, file));
+			} catch (error) {
+				console.warn(`Failed to delete temp file ${file}:`, error);
+			}
+		}
+	}
+}
+
+/**
+ * Move the Tab'd Git notes of a file to the namespaces of its new path, on every branch
+ * @param workspaceFolder The workspace folder
+ * @param oldUri The old path of the file
+ * @param newUri The new path of the file
+ */
+export function renameGitNotes(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void {
+	const oldHash = getNamespaceFileHash(workspaceFolder, oldUri);
+	const newHash = getNamespaceFileHash(workspaceFolder, newUri);
+
+	for (const oldNamespace of getGitNotesNamespaces(workspaceFolder, oldUri)) {
+		const newNamespace = oldNamespace.substring(0, oldNamespace.length - oldHash.length) + newHash;
+
+		try {
+			// Copy the notes over, keeping those already recorded under the new path where both have a note for a commit
+			if (listTabdNamespaces(workspaceFolder).includes(newNamespace)) {
+				execSync(`git notes --ref=${newNamespace} merge -q -s ours refs/notes/${oldNamespace}`, {
+					cwd: workspaceFolder.uri.fsPath,
+					timeout: 10000,
+				});
+			} else {
+				execSync(`git update-ref refs/notes/${newNamespace} refs/notes/${oldNamespace}`, {
+					cwd: workspaceFolder.uri.fsPath,
+					timeout: 5000,
+				});
+			}
+
+			execSync(`git update-ref -d refs/notes/${oldNamespace}`, {
+				cwd: workspaceFolder.uri.fsPath,
+				timeout: 5000,
+			});
+		} catch (error) {
+			console.warn(`Failed to move Git notes from ${oldNamespace} to ${newNamespace}:`, error);
+			continue;
+		}
+
+		try {
+			execSync(`git push origin refs/notes/${newNamespace} :refs/notes/${oldNamespace}`, {
+				cwd: workspaceFolder.uri.fsPath,
+				timeout: 15000,
+			});
+		} catch (pushError) {
+			console.warn(`Failed to push moved Git notes to origin for ${newNamespace}:`, pushError);
+		}
+	}
+}
+
+/**
+ * Get the files in the repository which have Tab'd Git notes on any branch
+ * Namespaces only hold a hash of the path, so they are matched against the files Git knows about.
+ * @param workspaceFolder The workspace folder
+ * @returns The file URIs
+ */
+export function listGitNotesFiles(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[] {
+	try {
+		const hashes = new Set(listTabdNamespaces(workspaceFolder).map(namespace => namespace.substring(namespace.lastIndexOf('__') + 2)));
+		if (hashes.size === 0) {
+			return [];
+		}
+
+		const filesOutput = execSync('git ls-files --cached --others --exclude-standard', {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 50,
+		}).trim();
+
+		return filesOutput.split('\n')
+			.filter(file => file)
+			.map(file => URI.file(path.join(workspaceFolder.uri.fsPath, file)))
+			.filter(uri => hashes.has(getNamespaceFileHash(workspaceFolder, uri)));
+	} catch (error) {
+		console.warn('Failed to list files with Git notes:', error);
+		return [];
+	}
+}
+
+// Limits how many commits touching a file are searched when looking for an earlier version of it
+const MAX_FILE_HISTORY_COMMITS = 200;
+
+// Limits how much of a file's history is read, beyond which the later (older) versions are left out
+const MAX_FILE_HISTORY_BYTES = 1024 * 1024 * 100;
+
+/**
+ * Split the output of `git cat-file --batch` into the contents of each blob, stopping at any which was cut off
+ */
+function parseBlobs(output: Buffer): Map<string, string> {
+	// Each blob is output as "<blob id> blob <size>\n<content>\n", or "<blob id> missing\n"
+	const contents = new Map<string, string>();
+	let offset = 0;
+	while (offset < output.length) {
+		const headerEnd = output.indexOf('\n', offset);
+		if (headerEnd === -1) {
+			break;
+		}
+		const [blobId, type, size] = output.subarray(offset, headerEnd).toString('utf8').split(' ');
+		if (type === 'missing') {
+			offset = headerEnd + 1;
+			continue;
+		}
+		const contentEnd = headerEnd + 1 + Number(size);
+		if (!size || contentEnd > output.length) {
+			break; // Cut off by the size limit or the timeout
+		}
+		contents.set(blobId, output.subarray(headerEnd + 1, contentEnd).toString('utf8'));
+		offset = contentEnd + 1;
+	}
+	return contents;
+}
+
+/**
+ * Read blobs through a single `git cat-file --batch` process and wait for it, for callers which can't be asynchronous
+ * @returns The contents of the blobs which could be read, keyed by blob id
+ */
+function readBlobsSync(workspaceFolder: vscode.WorkspaceFolder, blobIds: string[]): Map<string, string> {
+	try {
+		return parseBlobs(execFileSync('git', ['cat-file', '--batch'], {
+			cwd: workspaceFolder.uri.fsPath,
+			input: blobIds.map(blobId => `${blobId}\n`).join(''),
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 50,
+			stdio: ['pipe', 'pipe', 'pipe'],
+		}));
+	} catch (error) {
+		console.warn('Failed to read blobs with git cat-file:', error);
+		return new Map();
+	}
+}
+
+/**
+ * Read blobs through a single `git cat-file --batch` process, rather than starting one process per blob
+ * @returns The contents of the blobs which could be read, keyed by blob id
+ */
+function readBlobs(workspaceFolder: vscode.WorkspaceFolder, blobIds: string[]): Promise<Map<string, string>> {
+	return new Promise(resolve => {
+		const chunks: Buffer[] = [];
+		let outputLength = 0;
+		const catFile = spawn('git', ['cat-file', '--batch'], { cwd: workspaceFolder.uri.fsPath });
+		const timeout = setTimeout(() => catFile.kill(), 30000);
+
+		catFile.stdout.on('data', (chunk: Buffer) => {
+			chunks.push(chunk);
+			outputLength += chunk.length;
+			if (outputLength > MAX_FILE_HISTORY_BYTES) {
+				catFile.kill();
+			}
+		});
+		catFile.stdin.on('error', error => console.warn('Failed to write blob ids to git cat-file:', error));
+		catFile.on('error', error => console.warn('Failed to run git cat-file:', error));
+		catFile.on('close', () => {
+			clearTimeout(timeout);
+			resolve(parseBlobs(Buffer.concat(chunks)));
+		});
+
+		catFile.stdin.end(blobIds.map(blobId => `${blobId}\n`).join(''));
+	});
+}
+
+/**
+ * Get the earlier versions of a file known to Git, including commits only reachable from the reflog
+ * (such as those from before a rebase). Git is run asynchronously, as a file can have hundreds of versions.
+ * @param workspaceFolder The workspace folder
+ * @param relativePath The path of the file relative to the workspace folder
+ * @returns The file contents keyed by their SHA-256 checksum
+ */
+export async function getFileHistoryContents(workspaceFolder: vscode.WorkspaceFolder, relativePath: string): Promise<Map<string, string>> {
+	const contents = new Map<string, string>();
+
+	try {
+		const { stdout: logOutput } = await execFileAsync('git', ['log', '--all', '--reflog', '--format=', '--raw', '--no-abbrev', '-n', String(MAX_FILE_HISTORY_COMMITS), '--', relativePath], {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 10,
+		});
+
+		// Raw lines look like ":100644 100644 <old blob> <new blob> M\t<path>"
+		const blobIds = new Set<string>();
+		for (const line of logOutput.trim().split('\n')) {
+			const parts = line.split('\t')[0].split(' ');
+			for (const blobId of parts.slice(2, 4)) {
+				if (/^[0-9a-f]+$/.test(blobId) && !/^0+$/.test(blobId)) {
+					blobIds.add(blobId);
+				}
+			}
+		}
+
+		if (blobIds.size === 0) {
+			return contents;
+		}
+
+		for (const content of (await readBlobs(workspaceFolder, [...blobIds])).values()) {
+			contents.set(generateDataChecksum(content), content);
+		}
+	} catch (error) {
+		console.warn(`Failed to get Git history for ${relativePath}:`, error);
+	}
+
+	return contents;
+}
+
+function getPatchId(workspaceFolder: vscode.WorkspaceFolder, commitId: string): string | undefined {
+	try {
+		const patchIdOutput = execSync(`git show ${commitId} | git patch-id --stable`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 50,
+		}).trim();
+
+		return patchIdOutput.split(' ')[0] || undefined;
+	} catch (error) {
+		console.warn(`Failed to get patch ID for commit ${commitId}:`, error);
+		return undefined;
+	}
+}
+
+/**
+ * Find the commit in the history of HEAD which is equivalent to another commit, such as the result
+ * of rebasing or cherry-picking it
+ * @param workspaceFolder The workspace folder
+ * @param commitId The commit which is not in the history of HEAD
+ * @param ancestry The commits reachable from HEAD
+ * @returns The equivalent commit hash, or undefined if there is none
+ */
+export function findEquivalentCommit(workspaceFolder: vscode.WorkspaceFolder, commitId: string, ancestry: Set<string>): string | undefined {
+	try {
+		// Commits with an equivalent change on the other side of the symmetric difference are marked with "="
+		const cherryOutput = execSync(`git log --cherry-mark --format="%m %H" HEAD...${commitId}`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 10,
+		}).trim();
+
+		const equivalentCommits = cherryOutput.split('\n')
+			.filter(line => line.startsWith('= '))
+			.map(line => line.substring(2).trim());
+
+		if (!equivalentCommits.includes(commitId)) {
+			return undefined;
+		}
+
+		const patchId = getPatchId(workspaceFolder, commitId);
+		if (!patchId) {
+			return undefined;
+		}
+
+		return equivalentCommits
+			.filter(candidate => candidate !== commitId && ancestry.has(candidate))
+			.find(candidate => getPatchId(workspaceFolder, candidate) === patchId);
+	} catch (error) {
+		console.warn(`Failed to find equivalent commit for ${commitId}:`, error);
+		return undefined;
+	}
+}
+
+/**
+ * Convert a Git remote URL into one which can be opened in a browser
+ * @param remoteUrl The remote URL, such as git@github.com:owner/repo.git
+ * @returns The URL without the .git suffix, with SSH remotes converted to HTTPS
+ */
+export function normalizeRemoteUrl(remoteUrl: string): string {
+	if (remoteUrl.startsWith('git@')) {
+		// Convert SSH URL to HTTPS
+		return remoteUrl
+			.replace(/^git@([^:]+):/, 'https://$1/')
+			.replace(/\.git$/, '');
+	} else if (remoteUrl.startsWith('https://')) {
+		return remoteUrl.replace(/\.git$/, '');
+	}
+	return remoteUrl;
+}
+
+/**
+ * Get the browser URL of the origin remote
+ * @param workspaceFolder The workspace folder
+ * @returns The normalized URL, or an empty string if there is no origin remote
+ */
+export function getRemoteUrl(workspaceFolder: vscode.WorkspaceFolder): string {
+	try {
+		const remoteUrl = execSync('git config --get remote.origin.url', {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 2000,
+		}).trim();
+
+		return normalizeRemoteUrl(remoteUrl);
+	} catch (error) {
+		return ''; // No origin remote
+	}
+}
+
+/**
+ * Get the commit hash a revision points to
+ * @param workspaceFolder The workspace folder
+ * @param revision The revision, such as HEAD
+ * @returns The commit hash, or undefined if the revision does not exist
+ */
+export function resolveCommit(workspaceFolder: vscode.WorkspaceFolder, revision: string): string | undefined {
+	try {
+		return execSync(`git rev-parse --verify --quiet ${revision}^{commit}`, {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 2000,
+		}).trim() || undefined;
+	} catch (error) {
+		return undefined;
+	}
+}
+
+/**
+ * Get the diff of a range of commits, without context lines and with paths relative to the workspace folder
+ * @param workspaceFolder The workspace folder
+ * @param gitRange A range accepted by git diff, such as origin/main...HEAD
+ * @returns The unified diff, throwing if the range is not valid
+ */
+export function getDiff(workspaceFolder: vscode.WorkspaceFolder, gitRange: string): string {
+	if (gitRange.startsWith('-') || !/^[\w./~^@{}:+-]+$/.test(gitRange)) {
+		throw new Error(`Invalid Git range: ${gitRange}`);
+	}
+
+	return execSync(`git -c core.quotePath=false diff --no-color --no-ext-diff --find-renames --unified=0 --relative ${gitRange} --`, {
+		cwd: workspaceFolder.uri.fsPath,
+		encoding: 'utf8',
+		timeout: 30000,
+		maxBuffer: 1024 * 1024 * 50,
+		stdio: ['ignore', 'pipe', 'pipe'],
+	});
+}
+
+/**
+ * Resolve a path inside the Git directory, respecting worktrees and core.hooksPath
+ * @param workspaceFolder The workspace folder
+ * @param gitPath The path within the Git directory (e.g. "hooks")
+ * @returns The absolute path
+ */
+export function getGitPath(workspaceFolder: vscode.WorkspaceFolder, gitPath: string): string {
+	const resolvedPath = execSync(`git rev-parse --git-path ${gitPath}`, {
+		cwd: workspaceFolder.uri.fsPath,
+		encoding: 'utf8',
+		timeout: 2000,
+	}).trim();
+
+	return path.resolve(workspaceFolder.uri.fsPath, resolvedPath);
+}
+
+/**
+ * Copy Tab'd notes from commits which are no longer in the history of HEAD onto their equivalents
+ * (such as the result of rebasing or cherry-picking them), so their attribution is picked up again
+ * @param workspaceFolder The workspace folder
+ * @returns The number of notes copied
+ */
+export function copyOrphanedGitNotes(workspaceFolder: vscode.WorkspaceFolder): number {
+	const ancestry = new Set(getCommitAncestry(workspaceFolder));
+	if (ancestry.size === 0) {
+		return 0;
+	}
+
+	let namespaces: string[];
+	try {
+		namespaces = listTabdNamespaces(workspaceFolder);
+	} catch (error) {
+		console.warn('Failed to list Git notes namespaces:', error);
+		return 0;
+	}
+
+	// The same commits tend to be orphaned across namespaces, so only look each one up once
+	const equivalentCommits = new Map<string, string | undefined>();
+	let copiedNotes = 0;
+
+	for (const namespace of namespaces) {
+		let notesOutput: string;
+		try {
+			notesOutput = execSync(`git notes --ref=${namespace} list`, {
+				cwd: workspaceFolder.uri.fsPath,
+				encoding: 'utf8',
+				timeout: 5000,
+			}).trim();
+		} catch (listError) {
+			console.warn(`Failed to list Git notes for namespace ${namespace}:`, listError);
+			continue;
+		}
+
+		const annotatedCommits = new Set(notesOutput.split('\n').map(line => line.split(' ')[1]).filter(commitId => commitId));
+		let copiedInNamespace = 0;
+
+		for (const commitId of annotatedCommits) {
+			if (ancestry.has(commitId)) {
+				continue;
+			}
+
+			if (!equivalentCommits.has(commitId)) {
+				equivalentCommits.set(commitId, findEquivalentCommit(workspaceFolder, commitId, ancestry));
+			}
+			const equivalentCommit = equivalentCommits.get(commitId);
+			if (!equivalentCommit || annotatedCommits.has(equivalentCommit)) {
+				continue; // Nothing to copy to, or the new commit already has its own note
+			}
+
+			try {
+				execSync(`git notes --ref=${namespace} copy ${commitId} ${equivalentCommit}`, {
+					cwd: workspaceFolder.uri.fsPath,
+					timeout: 5000,
+				});
+				copiedInNamespace++;
+			} catch (copyError) {
+				console.warn(`Failed to copy Git note ${namespace}@${commitId} to ${equivalentCommit}:`, copyError);
+			}
+		}
+
+		if (copiedInNamespace > 0) {
+			try {
+				execSync(`git push origin refs/notes/${namespace}`, {
+					cwd: workspaceFolder.uri.fsPath,
+					timeout: 15000,
+				});
+			} catch (pushError) {
+				console.warn(`Failed to push Git notes to origin for namespace ${namespace}:`, pushError);
+			}
+			copiedNotes += copiedInNamespace;
+		}
+	}
+
+	return copiedNotes;
+}
+
+/** Marker file written by the Git hooks when history has been rewritten */
+export const REPLAY_PENDING_FILE = 'tabd-replay-pending';
+
+const HOOK_MARKER = '# tabd: replay attribution after history rewrites';
+
+const hookScripts: Record<string, string> = {
+	// Runs after "git commit --amend" and "git rebase"
+	'post-rewrite': `echo "post-rewrite $1" >> "$(git rev-parse --git-path ${REPLAY_PENDING_FILE})"`,
+	'post-merge': `echo "post-merge" >> "$(git rev-parse --git-path ${REPLAY_PENDING_FILE})"`,
+	// Cherry-picks only run the post-commit hook, so check the reflog to tell them apart from other commits
+	'post-commit': `case "$(git reflog -1 --format=%gs 2>/dev/null)" in cherry-pick*) echo "cherry-pick" >> "$(git rev-parse --git-path ${REPLAY_PENDING_FILE})";; esac`,
+};
+
+/**
+ * Add a snippet to a Git hook, keeping any existing hook and marking the snippet so it is only added once
+ * @param replace Whether to replace the snippet if it has already been added, rather than leaving it
+ * @returns True if the hook was changed
+ */
+function installHookScript(workspaceFolder: vscode.WorkspaceFolder, hookName: string, marker: string, script: string, replace: boolean): boolean {
+	const hooksDir = getGitPath(workspaceFolder, 'hooks');
+	if (!fs.existsSync(hooksDir)) {
+		fs.mkdirSync(hooksDir, { recursive: true });
+	}
+
+	const hookPath = path.join(hooksDir, hookName);
+	const existingHook = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, 'utf8') : '';
+	let hookContent: string;
+	if (existingHook.includes(marker)) {
+		// The snippet is the line after the marker
+		hookContent = existingHook.replace(new RegExp(`${marker}\n.*`), () => `${marker}\n${script}`);
+		if (!replace || hookContent === existingHook) {
+			return false;
+		}
+	} else {
+		hookContent = existingHook
+			? `${existingHook.replace(/\n*$/, '\n')}\n${marker}\n${script}\n`
+			: `#!/bin/sh\n${marker}\n${script}\n`;
+	}
+
+	fs.writeFileSync(hookPath, hookContent);
+	fs.chmodSync(hookPath, 0o755);
+	return true;
+}
+
+/**
+ * Install Git hooks which flag history rewrites for replay, and have Git copy notes across rebases
+ * Existing hooks are kept, with the Tab'd snippet appended to them.
+ * @param workspaceFolder The workspace folder
+ * @returns The names of the hooks which were installed
+ */
+export function installGitHooks(workspaceFolder: vscode.WorkspaceFolder): string[] {
+	const installedHooks: string[] = [];
+	for (const [hookName, script] of Object.entries(hookScripts)) {
+		if (installHookScript(workspaceFolder, hookName, HOOK_MARKER, script, false)) {
+			installedHooks.push(hookName);
+		}
+	}
+
+	// Have Git carry Tab'd notes over to the new commits when amending or rebasing
+	try {
+		const rewriteRefs = execSync('git config --get-all notes.rewriteRef', {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 2000,
+		});
+		if (rewriteRefs.split('\n').includes('refs/notes/tabd__*')) {
+			return installedHooks;
+		}
+	} catch (error) {
+		// Not set, which is fine
+	}
+
+	execSync('git config --add notes.rewriteRef "refs/notes/tabd__*"', {
+		cwd: workspaceFolder.uri.fsPath,
+		timeout: 2000,
+	});
+
+	return installedHooks;
+}
+
+/**
+ * Check whether the Git hooks have flagged a history rewrite since the last check, clearing the flag
+ * @param workspaceFolder The workspace folder
+ * @returns True if attribution should be replayed
+ */
+export function consumeReplayPending(workspaceFolder: vscode.WorkspaceFolder): boolean {
+	try {
+		const pendingPath = getGitPath(workspaceFolder, REPLAY_PENDING_FILE);
+		if (!fs.existsSync(pendingPath)) {
+			return false;
+		}
+
+		fs.unlinkSync(pendingPath);
+		return true;
+	} catch (error) {
+		return false; // Not a Git repository
+	}
+}
+
+/** File in the Git directory holding the policies enforced by the pre-commit hook */
+export const POLICY_FILE = 'tabd-policies.json';
+
+const POLICY_HOOK_MARKER = '# tabd: enforce attribution policies';
+
+/**
+ * Install a pre-commit hook which runs the command line tool over the staged files, blocking the commit
+ * if they break an attribution policy. The policies are written to a file in the Git directory.
+ * @param workspaceFolder The workspace folder
+ * @param cliPath The path of the command line tool's script
+ * @param storageType Where the tracking data is stored
+ * @param policies The policies to enforce, as configured
+ * @returns True if the hook was installed or updated
+ */
+export function installPolicyHook(workspaceFolder: vscode.WorkspaceFolder, cliPath: string, storageType: string, policies: unknown): boolean {
+	fs.writeFileSync(getGitPath(workspaceFolder, POLICY_FILE), JSON.stringify(policies, null, 2));
+
+	// Skipped when node or the extension is not available, rather than blocking every commit
+	const cli = quoteShellArgument(cliPath);
+	const script = `if command -v node >/dev/null 2>&1 && [ -f ${cli} ]; then node ${cli} validate --staged --repo ${quoteShellArgument(workspaceFolder.uri.fsPath)} --storage ${quoteShellArgument(storageType)} --policies "$(git rev-parse --git-path ${POLICY_FILE})" || exit 1; fi`;
+	return installHookScript(workspaceFolder, 'pre-commit', POLICY_HOOK_MARKER, script, true);
+}
+
+/**
+ * Quote a value for a hook script, so no character in it (such as $, " or a backtick) is interpreted by the shell
+ */
+function quoteShellArgument(value: string): string {
+	return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Check whether the policy pre-commit hook has been installed
+ * @param workspaceFolder The workspace folder
+ */
+export function isPolicyHookInstalled(workspaceFolder: vscode.WorkspaceFolder): boolean {
+	try {
+		const hookPath = path.join(getGitPath(workspaceFolder, 'hooks'), 'pre-commit');
+		return fs.existsSync(hookPath) && fs.readFileSync(hookPath, 'utf8').includes(POLICY_HOOK_MARKER);
+	} catch (error) {
+		return false; // Not a Git repository
+	}
+}
+
+/**
+ * List the files staged for the next commit, other than deleted ones
+ * @param workspaceFolder The workspace folder
+ * @returns The paths relative to the workspace folder, with forward slashes
+ */
+export function getStagedFiles(workspaceFolder: vscode.WorkspaceFolder): string[] {
+	const output = execSync('git -c core.quotePath=false diff --cached --name-only --diff-filter=ACMR --relative', {
+		cwd: workspaceFolder.uri.fsPath,
+		encoding: 'utf8',
+		timeout: 10000,
+		maxBuffer: 1024 * 1024 * 10,
+		stdio: ['ignore', 'pipe', 'pipe'],
+	});
+
+	return output.split('\n').filter(line => line.length > 0);
+}
+
+/**
+ * Read the content of a file as it is staged for the next commit
+ * @param workspaceFolder The workspace folder
+ * @param relativePath The path relative to the workspace folder, with forward slashes
+ * @returns The staged content, or undefined if the file is not in the index
+ */
+export function getStagedFileContent(workspaceFolder: vscode.WorkspaceFolder, relativePath: string): string | undefined {
+	try {
+		// A path starting with ./ is resolved from the working directory rather than the root of the repository
+		return execFileSync('git', ['show', `:./${relativePath}`], {
+			cwd: workspaceFolder.uri.fsPath,
+			encoding: 'utf8',
+			timeout: 10000,
+			maxBuffer: 1024 * 1024 * 50,
+			stdio: ['ignore', 'pipe', 'pipe'],
+		});
+	} catch (error) {
+		return undefined;
+	}
+}
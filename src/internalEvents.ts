@@ -0,0 +1,310 @@
+import { ValidationIssue, isObject, validatePosition } from './migrations';
+
+/**
+ * The events which the code patched into AI extensions (see patch.ts) sends to the tabd._internal command,
+ * as a JSON string. Each event is told apart by its _type, and describes an edit the AI is about to make or has made.
+ *
+ * When changing the schema in a way which older patches or newer senders could not handle, bump
+ * INTERNAL_EVENT_VERSION. Events without a _version are taken to be version 1, as the first patches did not send one.
+ * Fields which are not part of the schema are ignored, so the spread items of inline completions can be sent as is.
+ */
+export const INTERNAL_EVENT_VERSION = 1;
+
+export interface InternalPosition {
+    line: number;
+    character: number;
+}
+
+/** A vscode.Range serialized to JSON, which is its start and end */
+export type InternalRange = [InternalPosition, InternalPosition];
+
+/** A vscode.Uri serialized to JSON, which only includes fsPath once it has been computed */
+export interface InternalUri {
+    scheme: string;
+    authority?: string;
+    path: string;
+    query?: string;
+    fragment?: string;
+    fsPath?: string;
+}
+
+/** A vscode.TextEdit serialized to JSON */
+export interface InternalTextEdit {
+    range: InternalRange;
+    newText: string;
+}
+
+/** A vscode.WorkspaceEdit serialized to JSON, which is the text edits of each file it changes */
+export type InternalWorkspaceEdit = [InternalUri, InternalTextEdit[]][];
+
+export interface InternalEventBase {
+    /** The version of the schema the event was written for */
+    _version?: number;
+    /** The name of the AI extension, as shown to users */
+    _extensionName?: string;
+    /** When the event was sent, in milliseconds since the epoch */
+    _timestamp?: number;
+    _modelId?: string;
+    _explanation?: string;
+    /** The file the edit is made to, as a path or URI */
+    filePath?: string;
+    /** The text the AI inserts */
+    insertText?: string;
+}
+
+/**
+ * Sent around applying a workspace edit, which may change several ranges of several files.
+ * Some extensions (such as Windsurf) send the file and the text it inserts instead of the workspace edit.
+ */
+export interface ApplyEditEvent extends InternalEventBase {
+    _type: 'onBeforeApplyEdit' | 'onAfterApplyEdit';
+    edit?: InternalWorkspaceEdit;
+}
+
+/** Sent around a chat tool which writes text to a file */
+export interface FileToolEvent extends InternalEventBase {
+    _type: 'onBeforeApplyPatchTool' | 'onAfterApplyPatchTool' | 'onBeforeCreateFileTool' | 'onAfterCreateFileTool';
+    filePath: string;
+}
+
+/** Sent around a chat tool which replaces part of a file, with the content before the edit */
+export interface TextEditToolEvent extends InternalEventBase {
+    _type: 'onBeforeInsertEditTool' | 'onAfterInsertEditTool' | 'onBeforeReplaceStringTool' | 'onAfterReplaceStringTool';
+    filePath: string;
+    oldText?: string;
+}
+
+/** Sent when an inline completion is shown, with the fields of the completion item */
+export interface InlineCompletionEvent extends InternalEventBase {
+    _type: 'inlineCompletion';
+    range?: InternalRange;
+    /** The command run when the completion is accepted, which some extensions send the model in */
+    command?: { arguments?: unknown[] };
+}
+
+export type InternalEvent = ApplyEditEvent | FileToolEvent | TextEditToolEvent | InlineCompletionEvent;
+
+export type InternalEventType = InternalEvent['_type'];
+
+const eventTypes: { [type in InternalEventType]: 'applyEdit' | 'fileTool' | 'textEditTool' | 'inlineCompletion' } = {
+    onBeforeApplyEdit: 'applyEdit',
+    onAfterApplyEdit: 'applyEdit',
+    onBeforeApplyPatchTool: 'fileTool',
+    onAfterApplyPatchTool: 'fileTool',
+    onBeforeCreateFileTool: 'fileTool',
+    onAfterCreateFileTool: 'fileTool',
+    onBeforeInsertEditTool: 'textEditTool',
+    onAfterInsertEditTool: 'textEditTool',
+    onBeforeReplaceStringTool: 'textEditTool',
+    onAfterReplaceStringTool: 'textEditTool',
+    inlineCompletion: 'inlineCompletion',
+};
+
+const optionalStringFields = ['_extensionName', '_modelId', '_explanation', 'filePath', 'insertText'];
+
+/** Read a value nested in objects, or undefined if any object along the way is missing */
+function getNestedValue(value: unknown, ...keys: string[]): unknown {
+    for (const key of keys) {
+        if (!isObject(value)) {
+            return undefined;
+        }
+        value = value[key];
+    }
+    return value;
+}
+
+function validateRange(value: unknown, field: string, source: string, issues: ValidationIssue[]): void {
+    if (!Array.isArray(value) || value.length !== 2) {
+        issues.push({ source, field, message: 'expected a [start, end] range' });
+        return;
+    }
+    validatePosition(value[0], `${field}[0]`, source, issues);
+    validatePosition(value[1], `${field}[1]`, source, issues);
+}
+
+function validateUri(value: unknown, field: string, source: string, issues: ValidationIssue[]): void {
+    if (!isObject(value)) {
+        issues.push({ source, field, message: 'expected a URI object' });
+        return;
+    }
+    for (const key of ['scheme', 'path']) {
+        if (typeof value[key] !== 'string') {
+            issues.push({ source, field: `${field}.${key}`, message: 'expected a string' });
+        }
+    }
+    for (const key of ['authority', 'query', 'fragment', 'fsPath']) {
+        if (value[key] !== undefined && typeof value[key] !== 'string') {
+            issues.push({ source, field: `${field}.${key}`, message: 'expected a string' });
+        }
+    }
+}
+
+function validateWorkspaceEdit(value: unknown, field: string, source: string, issues: ValidationIssue[]): void {
+    if (!Array.isArray(value) || value.length === 0) {
+        issues.push({ source, field, message: 'expected a non-empty array of [uri, edits] entries' });
+        return;
+    }
+
+    value.forEach((entry: unknown, index: number) => {
+        const entryField = `${field}[${index}]`;
+        if (!Array.isArray(entry) || entry.length !== 2) {
+            issues.push({ source, field: entryField, message: 'expected a [uri, edits] entry' });
+            return;
+        }
+
+        validateUri(entry[0], `${entryField}[0]`, source, issues);
+        if (!Array.isArray(entry[1])) {
+            issues.push({ source, field: `${entryField}[1]`, message: 'expected an array of text edits' });
+            return;
+        }
+        entry[1].forEach((edit: unknown, editIndex: number) => {
+            const editField = `${entryField}[1][${editIndex}]`;
+            if (!isObject(edit)) {
+                issues.push({ source, field: editField, message: 'expected a text edit object' });
+                return;
+            }
+            validateRange(edit.range, `${editField}.range`, source, issues);
+            if (typeof edit.newText !== 'string') {
+                issues.push({ source, field: `${editField}.newText`, message: 'expected a string' });
+            }
+        });
+    });
+}
+
+/**
+ * Validate an event against the schema, returning any issues found
+ */
+export function validateInternalEvent(value: unknown, source: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (!isObject(value)) {
+        issues.push({ source, field: '', message: 'expected an event object' });
+        return issues;
+    }
+
+    if (typeof value._type !== 'string' || !Object.prototype.hasOwnProperty.call(eventTypes, value._type)) {
+        issues.push({ source, field: '_type', message: `unknown type ${JSON.stringify(value._type)}` });
+        return issues;
+    }
+    const kind = eventTypes[value._type as InternalEventType];
+
+    if (value._version !== undefined && (typeof value._version !== 'number' || !Number.isInteger(value._version) || value._version < 1)) {
+        issues.push({ source, field: '_version', message: `invalid version ${JSON.stringify(value._version)}` });
+    } else if (typeof value._version === 'number' && value._version > INTERNAL_EVENT_VERSION) {
+        issues.push({ source, field: '_version', message: `version ${value._version} is newer than the supported version ${INTERNAL_EVENT_VERSION}` });
+    }
+
+    if (value._timestamp !== undefined && (typeof value._timestamp !== 'number' || !Number.isFinite(value._timestamp))) {
+        issues.push({ source, field: '_timestamp', message: 'expected a number' });
+    }
+
+    for (const key of optionalStringFields) {
+        if (value[key] !== undefined && typeof value[key] !== 'string') {
+            issues.push({ source, field: key, message: 'expected a string' });
+        }
+    }
+
+    if (kind === 'applyEdit') {
+        if (value.edit !== undefined) {
+            validateWorkspaceEdit(value.edit, 'edit', source, issues);
+        } else if (value.filePath === undefined || value.insertText === undefined) {
+            issues.push({ source, field: 'edit', message: 'expected a workspace edit, or a filePath and insertText' });
+        }
+    } else if (kind === 'fileTool' || kind === 'textEditTool') {
+        if (typeof value.filePath !== 'string') {
+            issues.push({ source, field: 'filePath', message: 'expected a string' });
+        }
+        if (kind === 'textEditTool' && value.oldText !== undefined && typeof value.oldText !== 'string') {
+            issues.push({ source, field: 'oldText', message: 'expected a string' });
+        }
+    } else {
+        if (value.range !== undefined) {
+            validateRange(value.range, 'range', source, issues);
+        }
+        if (value.command !== undefined && !isObject(value.command)) {
+            issues.push({ source, field: 'command', message: 'expected a command object' });
+        } else if (isObject(value.command) && value.command.arguments !== undefined && !Array.isArray(value.command.arguments)) {
+            issues.push({ source, field: 'command.arguments', message: 'expected an array' });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Parse an event sent to the tabd._internal command, which is normally a JSON string
+ * @returns The event, or the issues which it was rejected for
+ */
+export function parseInternalEvent(args: unknown): { event?: InternalEvent; issues: ValidationIssue[] } {
+    let value = args;
+    if (typeof args === 'string') {
+        try {
+            value = JSON.parse(args);
+        } catch (error) {
+            return { issues: [{ source: 'tabd._internal', field: '', message: `invalid JSON: ${error instanceof Error ? error.message : String(error)}` }] };
+        }
+    }
+
+    const source = isObject(value) && typeof value._extensionName === 'string' ? value._extensionName : 'tabd._internal';
+    const issues = validateInternalEvent(value, source);
+    return issues.length > 0 ? { issues } : { event: value as InternalEvent, issues };
+}
+
+/**
+ * Describe why an event was rejected, on one line
+ */
+export function formatInternalEventIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => `${issue.field || '(root)'} ${issue.message}`).join('; ');
+}
+
+/**
+ * The model an AI event was generated with, which inline completions may only send in their command's telemetry
+ */
+export function getInternalEventModel(event: InternalEvent | (InternalEventBase & { _type: string })): string {
+    if (event._modelId) {
+        return event._modelId;
+    }
+    if (event._type === 'inlineCompletion') {
+        const engineName = getNestedValue((event as InlineCompletionEvent).command?.arguments?.[0], 'telemetry', 'properties', 'engineName');
+        return typeof engineName === 'string' ? engineName : '';
+    }
+    return '';
+}
+
+/**
+ * The URI of the document an inline completion is for, which some extensions send as the argument of its command
+ */
+export function getInlineCompletionUri(event: InlineCompletionEvent): string | undefined {
+    const uri = getNestedValue(event.command?.arguments?.[0], 'uri');
+    return typeof uri === 'string' && uri ? uri : undefined;
+}
+
+/** A text edit of a workspace edit, with the URI of the file it is made to */
+export interface PendingTextEdit extends InternalTextEdit {
+    uri: string;
+}
+
+/**
+ * Find the edit of a workspace edit which made a change to a document. The text is compared with line endings
+ * normalized, as the editor converts them to the document's own, and the range chooses between edits with the same text.
+ * @returns The index of the edit, or -1 if none of them made the change
+ */
+export function findMatchingTextEdit(edits: PendingTextEdit[], uri: string, change: { range: { start: InternalPosition; end: InternalPosition }; text: string }): number {
+    const text = change.text.replace(/\r\n/g, '\n');
+    let match = -1;
+    for (let i = 0; i < edits.length; i++) {
+        const edit = edits[i];
+        if (edit.uri !== uri || edit.newText.replace(/\r\n/g, '\n') !== text) {
+            continue;
+        }
+        const [start, end] = edit.range;
+        if (start.line === change.range.start.line && start.character === change.range.start.character &&
+            end.line === change.range.end.line && end.character === change.range.end.character) {
+            return i;
+        }
+        if (match === -1) {
+            match = i;
+        }
+    }
+    return match;
+}
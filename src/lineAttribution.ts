@@ -0,0 +1,141 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+import { getCoveredLines, getTypeLabel } from './report';
+
+/** How much a type of change says about where a line came from, so a small edit to an AI generated line is still attributed to the AI */
+const TYPE_PRIORITIES: { [type: string]: number } = {
+    [ExtendedRangeType.AIGenerated]: 3,
+    [ExtendedRangeType.Paste]: 2,
+    [ExtendedRangeType.IDEPaste]: 2,
+    [ExtendedRangeType.Unknown]: 1,
+};
+
+/**
+ * Attribute each line to one of the non-empty changes covering it: AI generated changes first, then pastes,
+ * then unknown actions and then the rest, picking the most recent change of the same priority
+ * @returns The change each covered line is attributed to, keyed by the zero-based line
+ */
+export function getLineAttribution(changes: SerializedChange[]): Map<number, SerializedChange> {
+    const attribution = new Map<number, SerializedChange>();
+    const priority = (change: SerializedChange) => TYPE_PRIORITIES[change.type] || 0;
+
+    for (const change of changes) {
+        if (change.start.line === change.end.line && change.start.character === change.end.character) {
+            continue;
+        }
+
+        for (const line of getCoveredLines(change)) {
+            const existing = attribution.get(line);
+            if (!existing || priority(change) > priority(existing) || (priority(change) === priority(existing) && change.creationTimestamp > existing.creationTimestamp)) {
+                attribution.set(line, change);
+            }
+        }
+    }
+
+    return attribution;
+}
+
+const TIME_UNITS: { name: string; milliseconds: number }[] = [
+    { name: 'year', milliseconds: 365 * 24 * 60 * 60 * 1000 },
+    { name: 'month', milliseconds: 30 * 24 * 60 * 60 * 1000 },
+    { name: 'day', milliseconds: 24 * 60 * 60 * 1000 },
+    { name: 'hour', milliseconds: 60 * 60 * 1000 },
+    { name: 'minute', milliseconds: 60 * 1000 },
+];
+
+/**
+ * Describe how long ago a timestamp was, such as "3 days ago"
+ */
+export function formatRelativeTime(timestamp: number, now: number): string {
+    const elapsed = now - timestamp;
+    for (const unit of TIME_UNITS) {
+        const count = Math.floor(elapsed / unit.milliseconds);
+        if (count >= 1) {
+            return `${count} ${unit.name}${count === 1 ? '' : 's'} ago`;
+        }
+    }
+    return 'just now';
+}
+
+function getPasteSource(change: SerializedChange): string | undefined {
+    if (!change.pasteUrl) {
+        return undefined;
+    }
+
+    try {
+        const url = new URL(change.pasteUrl);
+        // Copies in the IDE are from a repository, which is told apart by its path rather than its host
+        return change.type === ExtendedRangeType.IDEPaste ? `${url.hostname}${url.pathname.replace(/\.git$/, '').replace(/\/$/, '')}` : url.hostname;
+    } catch (error) {
+        return change.pasteUrl; // Not a URL, such as a local repository
+    }
+}
+
+/**
+ * Describe the change a line is attributed to in a few words, such as "Copilot (claude-sonnet) · 3 days ago"
+ * or "Pasted from stackoverflow.com · 2 hours ago", mentioning the author when it is someone else
+ */
+export function describeLineAttribution(change: SerializedChange, now: number): string {
+    let description: string;
+    switch (change.type) {
+        case ExtendedRangeType.AIGenerated:
+            description = `${change.aiName || 'AI'}${change.aiModel ? ` (${change.aiModel})` : ''}`;
+            break;
+        case ExtendedRangeType.Paste:
+        case ExtendedRangeType.IDEPaste: {
+            const source = getPasteSource(change);
+            description = source ? `Pasted from ${source}` : 'Pasted';
+            break;
+        }
+        case ExtendedRangeType.UserEdit:
+            description = change.author || 'You';
+            break;
+        default:
+            description = getTypeLabel(change.type);
+    }
+
+    const author = change.author && change.type !== ExtendedRangeType.UserEdit ? ` · ${change.author}` : '';
+    return `${description}${author} · ${formatRelativeTime(change.creationTimestamp, now)}`;
+}
+
+const AI_TYPE_DESCRIPTIONS: { [aiType: string]: string } = {
+    'inlineCompletion': 'Using inline completion',
+    'applyPatch': 'Using the apply patch tool',
+    'createFile': 'Using the create file tool',
+    'insertEdit': 'Using the insert edit tool',
+    'replaceString': 'Using the replace string tool',
+    'applyEdit': 'Using an internal command',
+};
+
+/**
+ * Describe a change in full, such as "AI Generated under your control • Copilot (gpt-4o) • Using inline completion
+ * • Created at: ...", as shown when hovering over it and in its diagnostic
+ * @param markdown Whether to link the source of a paste, as diagnostic messages are plain text
+ */
+export function describeChange(change: SerializedChange, markdown: boolean = true): string {
+    const author = change.author || 'you';
+    const createdAt = ` • Created at: ${new Date(change.creationTimestamp).toLocaleString()}`;
+
+    switch (change.type) {
+        case ExtendedRangeType.UserEdit:
+            return `Edit by ${author}${createdAt}`;
+        case ExtendedRangeType.AIGenerated: {
+            const aiType = AI_TYPE_DESCRIPTIONS[change.aiType || ''] || `Using an unknown tool (${change.aiType || ''})`;
+            return `AI Generated under ${change.author ? (change.author + "'s") : 'your'} control${change.aiName ? ` • ${change.aiName}` : ''}${change.aiModel ? ` (${change.aiModel})` : ''} • ${aiType}${createdAt}`;
+        }
+        case ExtendedRangeType.UndoRedo:
+            return `Undo/Redo by ${author}${createdAt}`;
+        case ExtendedRangeType.Paste: {
+            const title = change.pasteTitle || change.pasteUrl;
+            const webpage = markdown ? `[${title}](${change.pasteUrl})` : `${title} (${change.pasteUrl})`;
+            return `Clipboard Paste by ${author}${change.pasteUrl ? ` • From the webpage ${webpage}` : ''}${createdAt}`;
+        }
+        case ExtendedRangeType.IDEPaste: {
+            const repository = markdown ? `[${change.pasteUrl}](${change.pasteUrl})` : change.pasteUrl;
+            const revision = markdown ? `\`${change.pasteTitle || ''}\`` : change.pasteTitle || '';
+            return `Clipboard Paste by ${author}${change.pasteUrl ? ` • From the ${repository} repository at ${revision}` : ''}${createdAt}`;
+        }
+        default:
+            return `Unknown Action by ${author}${createdAt}`;
+    }
+}
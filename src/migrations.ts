@@ -0,0 +1,229 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange, SerializedFileState, SerializedFileStateV1, SerializedFileStateV2, SERIALIZED_FILE_STATE_VERSION, VersionedSerializedFileState } from './types';
+
+export interface ValidationIssue {
+    /** Where the record was loaded from (e.g. a file path or Git notes namespace) */
+    source: string;
+    /** Path to the offending field (e.g. "changes[3].start.line") */
+    field: string;
+    message: string;
+}
+
+export interface Migration {
+    /** The version this migration upgrades to, from the version before it */
+    version: number;
+    up: (state: VersionedSerializedFileState) => VersionedSerializedFileState;
+    down: (state: VersionedSerializedFileState) => VersionedSerializedFileState;
+}
+
+/**
+ * Type a migration step against the shapes of the versions it moves between.
+ * The registry only runs a step on states of its own versions, so its state can be taken to be of those shapes.
+ */
+function defineMigration<From extends VersionedSerializedFileState, To extends VersionedSerializedFileState>(
+    version: To['version'],
+    up: (state: From) => To,
+    down: (state: To) => From,
+): Migration {
+    return {
+        version,
+        up: state => up(state as From),
+        down: state => down(state as To),
+    };
+}
+
+/**
+ * Registry of migrations between SerializedFileState versions, one step per version.
+ * When changing the format, bump SERIALIZED_FILE_STATE_VERSION and add a step here.
+ */
+export const migrations: Migration[] = [
+    // Version 2 added optional per-change fingerprints
+    defineMigration<SerializedFileStateV1, SerializedFileStateV2>(
+        2,
+        (state) => ({
+            ...state,
+            version: 2,
+        }),
+        (state) => ({
+            ...state,
+            version: 1,
+            changes: state.changes.map(({ fingerprint, ...change }) => change),
+        }),
+    ),
+];
+
+const rangeTypes = Object.values(ExtendedRangeType) as string[];
+
+const optionalStringFields = ['author', 'pasteUrl', 'pasteTitle', 'aiName', 'aiModel', 'aiExplanation', 'aiType'];
+
+/** Whether a value is a plain object (rather than null or an array), so its fields can be checked */
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isNonNegativeInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate a { line, character } position, as stored in records and sent in internal events
+ */
+export function validatePosition(value: unknown, field: string, source: string, issues: ValidationIssue[]): void {
+    if (!isObject(value)) {
+        issues.push({ source, field, message: 'expected a position object' });
+        return;
+    }
+    if (!isNonNegativeInteger(value.line)) {
+        issues.push({ source, field: `${field}.line`, message: 'expected a non-negative integer' });
+    }
+    if (!isNonNegativeInteger(value.character)) {
+        issues.push({ source, field: `${field}.character`, message: 'expected a non-negative integer' });
+    }
+}
+
+/**
+ * Validate a single serialized change, returning any issues found.
+ */
+export function validateSerializedChange(change: unknown, field: string, source: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (!isObject(change)) {
+        issues.push({ source, field, message: 'expected a change object' });
+        return issues;
+    }
+
+    validatePosition(change.start, `${field}.start`, source, issues);
+    validatePosition(change.end, `${field}.end`, source, issues);
+
+    if (issues.length === 0) {
+        // Both positions have been validated by now
+        const start = change.start as SerializedChange['start'];
+        const end = change.end as SerializedChange['end'];
+        if (end.line < start.line || (end.line === start.line && end.character < start.character)) {
+            issues.push({ source, field: `${field}.end`, message: 'end is before start' });
+        }
+    }
+
+    if (typeof change.type !== 'string' || !rangeTypes.includes(change.type)) {
+        issues.push({ source, field: `${field}.type`, message: `unknown type ${JSON.stringify(change.type)}` });
+    }
+
+    if (typeof change.creationTimestamp !== 'number' || !Number.isFinite(change.creationTimestamp)) {
+        issues.push({ source, field: `${field}.creationTimestamp`, message: 'expected a number' });
+    }
+
+    for (const key of optionalStringFields) {
+        if (change[key] !== undefined && typeof change[key] !== 'string') {
+            issues.push({ source, field: `${field}.${key}`, message: 'expected a string' });
+        }
+    }
+
+    if (change.fingerprint !== undefined) {
+        const fingerprint = change.fingerprint;
+        if (!isObject(fingerprint)) {
+            issues.push({ source, field: `${field}.fingerprint`, message: 'expected a fingerprint object' });
+        } else {
+            if (typeof fingerprint.hash !== 'string') {
+                issues.push({ source, field: `${field}.fingerprint.hash`, message: 'expected a string' });
+            }
+            if (!isNonNegativeInteger(fingerprint.length)) {
+                issues.push({ source, field: `${field}.fingerprint.length`, message: 'expected a non-negative integer' });
+            }
+            if (typeof fingerprint.excerpt !== 'string') {
+                issues.push({ source, field: `${field}.fingerprint.excerpt`, message: 'expected a string' });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validate the top level of a serialized file state (and each of its changes), returning any issues found.
+ */
+export function validateSerializedFileState(data: unknown, source: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (!isObject(data)) {
+        issues.push({ source, field: '', message: 'expected a file state object' });
+        return issues;
+    }
+
+    const version = data.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        issues.push({ source, field: 'version', message: `invalid version ${JSON.stringify(version)}` });
+    } else if (version > SERIALIZED_FILE_STATE_VERSION) {
+        issues.push({ source, field: 'version', message: `version ${version} is newer than the supported version ${SERIALIZED_FILE_STATE_VERSION}` });
+    }
+
+    if (data.checksum !== undefined && typeof data.checksum !== 'string') {
+        issues.push({ source, field: 'checksum', message: 'expected a string' });
+    }
+
+    if (!Array.isArray(data.changes)) {
+        issues.push({ source, field: 'changes', message: 'expected an array' });
+        return issues;
+    }
+
+    data.changes.forEach((change: unknown, index: number) => {
+        issues.push(...validateSerializedChange(change, `changes[${index}]`, source));
+    });
+
+    return issues;
+}
+
+/**
+ * Apply registered migrations step by step to move a file state from its version to the target version.
+ */
+export function migrateSerializedFileState(state: SerializedFileState, targetVersion: number = SERIALIZED_FILE_STATE_VERSION): SerializedFileState {
+    // Validated states are always of one of the versions the registry knows
+    let migratedState = state as VersionedSerializedFileState;
+
+    while (migratedState.version < targetVersion) {
+        const migration = migrations.find(m => m.version === migratedState.version + 1);
+        if (!migration) {
+            throw new Error(`No migration registered from version ${migratedState.version} to ${migratedState.version + 1}`);
+        }
+        migratedState = migration.up(migratedState);
+    }
+
+    while (migratedState.version > targetVersion) {
+        const migration = migrations.find(m => m.version === migratedState.version);
+        if (!migration) {
+            throw new Error(`No migration registered from version ${migratedState.version} to ${migratedState.version - 1}`);
+        }
+        migratedState = migration.down(migratedState);
+    }
+
+    return migratedState;
+}
+
+/**
+ * Validate raw data loaded from storage and upgrade it to the current version.
+ * Malformed changes are dropped and reported, and undefined is returned if the record itself is unusable.
+ * @param reportedIssues Collects the issues found, as well as logging them
+ */
+export function loadSerializedFileState(data: unknown, source: string, reportedIssues?: ValidationIssue[]): SerializedFileState | undefined {
+    const issues = validateSerializedFileState(data, source);
+    reportedIssues?.push(...issues);
+    const recordIssues = issues.filter(issue => !issue.field.startsWith('changes['));
+
+    if (recordIssues.length > 0) {
+        for (const issue of recordIssues) {
+            console.warn(`Skipping malformed Tab'd record ${issue.source}: ${issue.field || '(root)'} ${issue.message}`);
+        }
+        return undefined;
+    }
+
+    const state = data as SerializedFileState;
+    const invalidChanges = new Set<number>();
+    for (const issue of issues) {
+        console.warn(`Skipping malformed change in Tab'd record ${issue.source}: ${issue.field} ${issue.message}`);
+        invalidChanges.add(Number(issue.field.substring('changes['.length, issue.field.indexOf(']'))));
+    }
+
+    return migrateSerializedFileState({
+        ...state,
+        changes: state.changes.filter((_, index) => !invalidChanges.has(index)),
+    });
+}
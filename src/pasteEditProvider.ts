@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { shouldProcessFile } from "./utils";
+import { shouldProcessFile } from "./workspace";
 
 export class PasteEditProvider implements vscode.DocumentPasteEditProvider {
     public static readonly id = "tabd.pasteEditProvider";
@@ -0,0 +1,216 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+import { countLines, getCoveredLines, getTypeLabel } from './report';
+
+export type PolicySeverity = 'error' | 'warning' | 'information';
+
+/** A rule from the tabd.policies setting, which flags files whose attribution it does not allow */
+export interface AttributionPolicy {
+    /** Shown with violations so they can be told apart */
+    name?: string;
+    /** Globs of the files the policy applies to, relative to the workspace folder (default: every file) */
+    files?: string[];
+    /** The types of change the policy counts (default: every type) */
+    types?: ExtendedRangeType[];
+    /** Only count AI changes whose AI name matches one of these globs, ignoring case */
+    aiNames?: string[];
+    /** Only count pastes whose URL is on one of these domains (or their subdomains), where "*" matches any URL */
+    pasteDomains?: string[];
+    /** The percentage of a file's lines the matching changes may cover, where 0 (the default) allows none */
+    maxPercentage?: number;
+    severity?: PolicySeverity;
+    /** Replaces the description of the violation */
+    message?: string;
+}
+
+export interface PolicyViolation {
+    policy: AttributionPolicy;
+    path: string;
+    message: string;
+    severity: PolicySeverity;
+    /** Percentage of the file's lines covered by the matching changes */
+    percentage: number;
+    /** The changes the policy matched */
+    changes: SerializedChange[];
+}
+
+const SEVERITIES: PolicySeverity[] = ['error', 'warning', 'information'];
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Check the value of the tabd.policies setting, keeping the valid policies
+ * @returns The valid policies and a description of each problem found
+ */
+export function validatePolicies(value: unknown): { policies: AttributionPolicy[]; issues: string[] } {
+    const policies: AttributionPolicy[] = [];
+    const issues: string[] = [];
+
+    if (!Array.isArray(value)) {
+        return { policies, issues: value === undefined ? [] : ['policies expected an array'] };
+    }
+
+    value.forEach((item, index) => {
+        const field = `policies[${index}]`;
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+            issues.push(`${field} expected an object`);
+            return;
+        }
+
+        const policy: AttributionPolicy = {};
+        const problems: string[] = [];
+        for (const [key, fieldValue] of Object.entries(item as { [key: string]: unknown })) {
+            if ((key === 'name' || key === 'message') && typeof fieldValue === 'string') {
+                policy[key] = fieldValue;
+            } else if (key === 'files' && (typeof fieldValue === 'string' || isStringArray(fieldValue))) {
+                policy.files = typeof fieldValue === 'string' ? [fieldValue] : fieldValue;
+            } else if (key === 'types' && isStringArray(fieldValue) && fieldValue.every(type => (Object.values(ExtendedRangeType) as string[]).includes(type))) {
+                policy.types = fieldValue as ExtendedRangeType[];
+            } else if ((key === 'aiNames' || key === 'pasteDomains') && isStringArray(fieldValue)) {
+                policy[key] = fieldValue;
+            } else if (key === 'maxPercentage' && typeof fieldValue === 'number' && fieldValue >= 0 && fieldValue <= 100) {
+                policy.maxPercentage = fieldValue;
+            } else if (key === 'severity' && SEVERITIES.includes(fieldValue as PolicySeverity)) {
+                policy.severity = fieldValue as PolicySeverity;
+            } else {
+                problems.push(`${field}.${key} is not valid`);
+            }
+        }
+
+        if (problems.length > 0) {
+            issues.push(...problems);
+        } else {
+            policies.push(policy);
+        }
+    });
+
+    return { policies, issues };
+}
+
+/**
+ * Convert a glob into a regular expression matching the whole of a path with forward slashes.
+ * Supports *, ** (any number of directories), ?, {a,b} alternatives and [abc] character classes.
+ */
+export function globToRegExp(glob: string, flags?: string): RegExp {
+    let pattern = '';
+    let inAlternatives = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" also matches no directories at all
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{' && !inAlternatives) {
+            pattern += '(?:';
+            inAlternatives = true;
+        } else if (char === '}' && inAlternatives) {
+            pattern += ')';
+            inAlternatives = false;
+        } else if (char === ',' && inAlternatives) {
+            pattern += '|';
+        } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+            const end = glob.indexOf(']', i + 2);
+            pattern += `[${glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else {
+            pattern += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${pattern}$`, flags);
+}
+
+function matchesDomain(url: string | undefined, patterns: string[]): boolean {
+    let hostname: string;
+    try {
+        hostname = new URL(url || '').hostname.toLowerCase();
+    } catch (error) {
+        return false; // Not a URL, such as a paste with no known source
+    }
+
+    return patterns.some(pattern => {
+        const domain = pattern.toLowerCase().replace(/^\*\./, '');
+        return domain === '*' || hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Whether a policy applies to a file
+ * @param relativePath The path of the file relative to the workspace folder, with forward slashes
+ */
+export function policyAppliesTo(policy: AttributionPolicy, relativePath: string): boolean {
+    return !policy.files || policy.files.some(glob => globToRegExp(glob).test(relativePath));
+}
+
+/**
+ * Whether a policy counts a change
+ */
+export function policyMatchesChange(policy: AttributionPolicy, change: SerializedChange): boolean {
+    if (policy.types && !policy.types.includes(change.type as ExtendedRangeType)) {
+        return false;
+    }
+    if (policy.aiNames && !policy.aiNames.some(aiName => globToRegExp(aiName, 'i').test(change.aiName || ''))) {
+        return false;
+    }
+    if (policy.pasteDomains && !matchesDomain(change.pasteUrl, policy.pasteDomains)) {
+        return false;
+    }
+    return true;
+}
+
+function describePolicy(policy: AttributionPolicy): string {
+    let description = policy.types ? policy.types.map(getTypeLabel).join(' or ') : 'Attributed code';
+    if (policy.aiNames) {
+        description += ` by ${policy.aiNames.join(' or ')}`;
+    }
+    if (policy.pasteDomains) {
+        description += policy.pasteDomains.includes('*') ? ' from a URL' : ` from ${policy.pasteDomains.join(' or ')}`;
+    }
+    return description;
+}
+
+/**
+ * Evaluate the policies which apply to a file against its changes
+ * @param file The path of the file relative to the workspace folder (with forward slashes), its content and its changes
+ * @returns A violation for each policy the file breaks
+ */
+export function evaluatePolicies(policies: AttributionPolicy[], file: { path: string; content: string; changes: SerializedChange[] }): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const totalLines = countLines(file.content);
+
+    for (const policy of policies) {
+        if (!policyAppliesTo(policy, file.path)) {
+            continue;
+        }
+
+        const changes = file.changes.filter(change => policyMatchesChange(policy, change) && (change.start.line !== change.end.line || change.start.character !== change.end.character));
+        const lines = new Set(changes.flatMap(getCoveredLines));
+        const percentage = totalLines === 0 ? 0 : Math.min(lines.size / totalLines * 100, 100);
+        const maxPercentage = policy.maxPercentage || 0;
+        if (lines.size === 0 || percentage <= maxPercentage) {
+            continue;
+        }
+
+        const description = maxPercentage > 0
+            ? `${percentage.toFixed(1)}% of lines are ${describePolicy(policy)}, more than the maximum of ${maxPercentage}%`
+            : `${describePolicy(policy)} is not allowed${policy.files ? ` in ${policy.files.join(', ')}` : ''}`;
+
+        violations.push({
+            policy,
+            path: file.path,
+            message: policy.message || description,
+            severity: policy.severity || 'error',
+            percentage,
+            changes,
+        });
+    }
+
+    return violations;
+}
@@ -1,13 +1,26 @@
 import * as vscode from 'vscode';
 import { ExtendedRange, ExtendedRangeType, ExtendedRangeOptions } from './extendedRange';
+import { getInsertionEnd, getUpdatedPosition } from './range';
+import { applyChangeToRanges, removeEmptyAdjacentRanges } from './tracking';
+import { fromVscodeChange } from './adapters';
 import { execSync } from 'child_process';
 import { latestClipboardData } from './clipboard';
 import { getClipboardContentsFromBrowserExtension } from './nativeHost';
-
-let mostRecentInternalCommand: any = {
+import { normalizeRemoteUrl } from './git';
+import { InternalEvent, InternalEventBase, PendingTextEdit, findMatchingTextEdit, getInternalEventModel } from './internalEvents';
+
+let mostRecentInternalCommand: {
+    /** The latest event from an AI extension, or the initial placeholder until one is received */
+    value: InternalEvent | (InternalEventBase & { _type: 'initial' });
+    document: vscode.TextDocument | null;
+    changes: readonly vscode.TextDocumentContentChangeEvent[];
+    /** The text edits of an applied workspace edit which have not been seen in a document yet */
+    edits: PendingTextEdit[];
+} = {
     value: { "_type": "initial" },
     document: null,
     changes: [],
+    edits: [],
 };
 
 const typeMap: { [key: string]: string } = {
@@ -24,51 +37,6 @@ const typeMap: { [key: string]: string } = {
     'onAfterApplyEdit': 'applyEdit',
 };
 
-const getUpdatedPosition = (
-    position: vscode.Position,
-    change: vscode.TextDocumentContentChangeEvent
-): vscode.Position => {
-    let newLine = position.line;
-    let newCharacter = position.character;
-
-    // change before position-to-update
-    if (change.range.end.isBeforeOrEqual(position)) {
-        // change consisted in deletion
-        if (!change.range.start.isEqual(change.range.end)) {
-            // change range is also on the position-to-update's line
-            if (change.range.end.line === newLine) {
-                const characterDelta = change.range.end.character - change.range.start.character;
-                newCharacter -= characterDelta;
-            }
-
-            const lineDelta = change.range.end.line - change.range.start.line;
-            newLine -= lineDelta;
-        }
-
-        // change consisted in insertion
-        if (change.text) {
-            // insertion is on the same line as the position-to-update
-            if (change.range.start.line === newLine) {
-                // the insertion has at least one new line
-                if (change.text.split('\n').length - 1 > 0) {
-                    newCharacter -= change.range.start.character;
-
-                    const index = change.text.lastIndexOf('\n');
-                    newCharacter += change.text.slice(index + 1, change.text.length).length;
-
-                    // the insertion has no new lines
-                } else {
-                    newCharacter += change.text.length;
-                }
-            }
-
-            newLine += change.text.split('\n').length - 1;
-        }
-    }
-
-    return new vscode.Position(newLine, newCharacter);
-};
-
 const getUpdatedRanges = (
     ranges: ExtendedRange[],
     pasteRanges: ExtendedRange[],
@@ -105,6 +73,18 @@ const getUpdatedRanges = (
     const aiInfo = mostRecentInternalCommand.value;
 
     for (const change of sortedChanges) {
+        // The ranges added for the changes after this one have to move with it like the rest, as the changes
+        // are applied from the end of the document back and the ranges are made before the changes above them
+        const textChange = fromVscodeChange(change);
+        additionalRanges = additionalRanges.map(range => new ExtendedRange(
+            getUpdatedPosition(range.start, textChange),
+            getUpdatedPosition(range.end, textChange),
+            range.getType(),
+            range.getCreationTimestamp(),
+            range.getAuthor(),
+            range.getOptions(),
+        ));
+
         // Add new ranges
         let isAI = false;
 
@@ -140,31 +120,28 @@ const getUpdatedRanges = (
             }
 
 
-            additionalRanges.push(new ExtendedRange(change.range.start, document.positionAt(document.offsetAt(change.range.start) + change.text.length), reason, Date.now(), '', options));
+            additionalRanges.push(new ExtendedRange(change.range.start, getInsertionEnd(change.range.start, change.text), reason, Date.now(), '', options));
         } else if (reason === ExtendedRangeType.AIGenerated) { // e.g. onAfterInsertEditTool
             console.debug("Processing AI generated range:", aiInfo, change);
             const options = new ExtendedRangeOptions();
 
             options.aiName = aiInfo._extensionName || 'unknown';
-            options.aiModel = aiInfo._modelId || '';
-            if (!options.aiModel && aiInfo.command && aiInfo.command.arguments && aiInfo.command.arguments.length > 0 && aiInfo.command.arguments[0].telemetry && aiInfo.command.arguments[0].telemetry.properties && aiInfo.command.arguments[0].telemetry.properties.engineName) {
-                options.aiModel = aiInfo.command.arguments[0].telemetry.properties.engineName;
-            }
+            options.aiModel = getInternalEventModel(aiInfo);
             options.aiExplanation = aiInfo._explanation || '';
             options.aiType = aiInfo._type ? (typeMap[aiInfo._type] || aiInfo._type) : '';
 
-            additionalRanges.push(new ExtendedRange(change.range.start, document.positionAt(document.offsetAt(change.range.start) + change.text.length), ExtendedRangeType.AIGenerated, Date.now(), '', options));
+            additionalRanges.push(new ExtendedRange(change.range.start, getInsertionEnd(change.range.start, change.text), ExtendedRangeType.AIGenerated, Date.now(), '', options));
 
             isAI = true;
 
             clearMostRecentInternalCommandAtEnd = true;
         } else if (reason === vscode.TextDocumentChangeReason.Undo || reason === vscode.TextDocumentChangeReason.Redo) {
-            additionalRanges.push(new ExtendedRange(change.range.start, document.positionAt(document.offsetAt(change.range.start) + change.text.length), ExtendedRangeType.UndoRedo, Date.now()));
+            additionalRanges.push(new ExtendedRange(change.range.start, getInsertionEnd(change.range.start, change.text), ExtendedRangeType.UndoRedo, Date.now()));
         } else if (change.text.trim().length <= 1 && aiInfo._type !== 'onBeforeInsertEditTool' && aiInfo._type !== 'onBeforeApplyPatchTool' && aiInfo._type !== 'onBeforeCreateFileTool' && aiInfo._type !== 'onBeforeReplaceStringTool' && aiInfo._type !== 'onAfterReplaceStringTool' && aiInfo._type !== 'onAfterApplyPatchTool' && aiInfo._type !== 'onBeforeApplyEdit' && aiInfo._type !== 'onAfterApplyEdit') {
             additionalRanges.push(new ExtendedRange(change.range.start, change.range.end, ExtendedRangeType.UserEdit, Date.now()));
         } else {
             let startPosition = change.range.start;
-            const endPosition = document.positionAt(document.offsetAt(change.range.start) + change.text.length);
+            const endPosition = getInsertionEnd(change.range.start, change.text);
 
             const options = new ExtendedRangeOptions();
             try {
@@ -236,25 +213,37 @@ const getUpdatedRanges = (
                     continue;
                 }
 
-                if (aiInfo.insertText && aiInfo.insertText.trim().includes(change.text.trim()) &&
+                if ((aiInfo._type === 'onBeforeApplyEdit' || aiInfo._type === 'onAfterApplyEdit') && aiInfo.edit) {
+                    // Each text edit of the workspace edit is matched to the change it made, in whichever file it was made to
+                    const editIndex = (aiInfo._timestamp || 0) > Date.now() - 2000 ? findMatchingTextEdit(mostRecentInternalCommand.edits, document.uri.toString(), change) : -1;
+                    if (editIndex !== -1 && change.text.length > 0) {
+                        mostRecentInternalCommand.edits.splice(editIndex, 1);
+                        options.aiName = aiInfo._extensionName || 'unknown';
+                        options.aiModel = getInternalEventModel(aiInfo);
+                        options.aiExplanation = aiInfo._explanation || '';
+                        options.aiType = typeMap[aiInfo._type];
+                        isAI = true;
+
+                        if (mostRecentInternalCommand.edits.length === 0) { // use only once
+                            clearMostRecentInternalCommandAtEnd = true;
+                        }
+                    }
+                } else if (aiInfo.insertText && aiInfo.insertText.trim().includes(change.text.trim()) &&
                     (
-                        aiInfo._timestamp > Date.now() - 2000 || (
+                        (aiInfo._timestamp || 0) > Date.now() - 2000 || (
                             aiInfo._type === "inlineCompletion" &&
-                            aiInfo._timestamp > Date.now() - 300000 // 5 minutes
+                            (aiInfo._timestamp || 0) > Date.now() - 300000 // 5 minutes
                         )
                     ) &&
                     (
-                        aiInfo.range ? (
+                        aiInfo._type === "inlineCompletion" && aiInfo.range ? (
                             change.range.start.line === aiInfo.range[0].line &&
                             change.range.start.character === aiInfo.range[0].character
                         ) : (true)
                     )
                 ) {
                     options.aiName = aiInfo._extensionName || 'unknown';
-                    options.aiModel = aiInfo._modelId || '';
-                    if (!options.aiModel && aiInfo.command && aiInfo.command.arguments && aiInfo.command.arguments.length > 0 && aiInfo.command.arguments[0].telemetry && aiInfo.command.arguments[0].telemetry.properties && aiInfo.command.arguments[0].telemetry.properties.engineName) {
-                        options.aiModel = aiInfo.command.arguments[0].telemetry.properties.engineName;
-                    }
+                    options.aiModel = getInternalEventModel(aiInfo);
                     options.aiExplanation = aiInfo._explanation || '';
                     options.aiType = aiInfo._type ? (typeMap[aiInfo._type] || aiInfo._type) : '';
                     isAI = true;
@@ -272,127 +261,14 @@ const getUpdatedRanges = (
             }
         }
 
-        for (let i = 0; i < toUpdateRanges.length; i++) {
-            // ** onDeletion **
-            const currentRange = toUpdateRanges[i];
-            if (!currentRange) {
-                continue;
-            }
-
-            if (
-                change.range.intersection(currentRange) &&
-                !change.range.end.isEqual(currentRange.start) &&
-                !change.range.start.isEqual(currentRange.end)
-            ) {
-                if (!change.range.start.isEqual(change.range.end)) {
-                    if (isAI) {
-                        let newRangeStart = currentRange.start;
-                        let newRangeEnd = currentRange.end;
-
-                        let aiChangeRangeStart = change.range.end;
-                        let aiChangeRangeEnd = document.positionAt(document.offsetAt(change.range.start) + change.text.length);
-                        let aiChangeRange = new vscode.Range(aiChangeRangeStart, aiChangeRangeEnd);
-
-                        if (aiChangeRange.contains(currentRange.start)) {
-                            newRangeStart = aiChangeRangeEnd;
-                        }
-
-                        if (aiChangeRange.contains(currentRange.end)) {
-                            newRangeEnd = aiChangeRangeStart;
-                        }
-
-                        additionalRanges.push(new ExtendedRange(newRangeStart, newRangeEnd, currentRange.getType(), currentRange.getCreationTimestamp(), currentRange.getAuthor(), currentRange.getOptions()));
-                        toUpdateRanges[i] = null;
-                    } else {
-                        let newRangeStart = currentRange.start;
-                        let newRangeEnd = currentRange.end;
-
-                        if (change.range.contains(currentRange.start)) {
-                            newRangeStart = change.range.end;
-                        }
-
-                        if (change.range.contains(currentRange.end)) {
-                            newRangeEnd = change.range.start;
-                        }
-
-                        if (newRangeEnd.isBefore(newRangeStart)) {
-                            toUpdateRanges[i] = null;
-                        } else {
-                            toUpdateRanges[i] = new ExtendedRange(newRangeStart, newRangeEnd, currentRange.getType(), currentRange.getCreationTimestamp(), currentRange.getAuthor(), currentRange.getOptions());
-                        }
-                    }
-                }
-            }
-
-            // ** onAddition **
-            const updatedRange = toUpdateRanges[i];
-            if (!updatedRange) {
-                continue;
-            }
-
-            if (
-                change.range.intersection(updatedRange) &&
-                !change.range.end.isEqual(updatedRange.start) &&
-                !change.range.start.isEqual(updatedRange.end)
-            ) {
-                if (change.text) {
-                    toUpdateRanges.splice(
-                        i + 1,
-                        0,
-                        new ExtendedRange(change.range.start, updatedRange.end, updatedRange.getType(), updatedRange.getCreationTimestamp(), updatedRange.getAuthor(), updatedRange.getOptions())
-                    );
-                    toUpdateRanges[i] = new ExtendedRange(updatedRange.start, change.range.start, updatedRange.getType(), updatedRange.getCreationTimestamp(), updatedRange.getAuthor(), updatedRange.getOptions());
-                }
-            }
-
-            const finalRange = toUpdateRanges[i];
-            if (!finalRange) {
-                continue;
-            }
-            //
-
-            const updatedRangeStart = getUpdatedPosition(finalRange.start, change);
-            let updatedRangeEnd: vscode.Position;
-
-            if (
-                !finalRange.start.isEqual(finalRange.end) &&
-                finalRange.end.isEqual(change.range.end)
-            ) {
-                updatedRangeEnd = finalRange.end;
-            } else {
-                updatedRangeEnd = getUpdatedPosition(finalRange.end, change);
-            }
-
-            toUpdateRanges[i] = new ExtendedRange(updatedRangeStart, updatedRangeEnd, finalRange.getType(), finalRange.getCreationTimestamp(), finalRange.getAuthor(), finalRange.getOptions());
-        }
-    }
-
-    for (let i = 0; i < toUpdateRanges.length - 1; i++) {
-        const rangeI = toUpdateRanges[i];
-        if (!rangeI) {
-            continue;
-        }
-
-        for (let j = i + 1; j < toUpdateRanges.length; j++) {
-            const rangeJ = toUpdateRanges[j];
-            if (!rangeJ) {
-                continue;
-            }
-
-            if (
-                rangeI.end.isEqual(rangeJ.start) ||
-                rangeI.start.isEqual(rangeJ.end)
-            ) {
-                if (rangeJ.start.isEqual(rangeJ.end)) {
-                    toUpdateRanges[j] = null;
-                } else if (rangeI.start.isEqual(rangeI.end)) {
-                    toUpdateRanges[i] = null;
-                }
-            }
-        }
+        additionalRanges.push(...applyChangeToRanges(
+            toUpdateRanges,
+            textChange,
+            isAI ? getInsertionEnd(change.range.start, change.text) : undefined,
+        ));
     }
 
-    let updatedRanges = toUpdateRanges.filter((range): range is ExtendedRange => range !== null);
+    let updatedRanges = removeEmptyAdjacentRanges(toUpdateRanges);
 
     // Add additional ranges
     if (additionalRanges.length > 0) {
@@ -403,6 +279,7 @@ const getUpdatedRanges = (
         mostRecentInternalCommand.value = { "_type": "initial" };
         mostRecentInternalCommand.document = null;
         mostRecentInternalCommand.changes = [];
+        mostRecentInternalCommand.edits = [];
     }
 
     return updatedRanges;
@@ -451,16 +328,7 @@ function resolveIDEPaste(workspacePath: string, relativePath: string): { url: st
         }).trim();
 
         // Clean up the URL for display (remove .git suffix and convert SSH to HTTPS if needed)
-        if (remoteUrl.startsWith('git@')) {
-            // Convert SSH URL to HTTPS
-            gitUrl = remoteUrl
-                .replace(/^git@([^:]+):/, 'https://$1/')
-                .replace(/\.git$/, '');
-        } else if (remoteUrl.startsWith('https://')) {
-            gitUrl = remoteUrl.replace(/\.git$/, '');
-        } else {
-            gitUrl = remoteUrl;
-        }
+        gitUrl = normalizeRemoteUrl(remoteUrl);
 
         // Get the current branch name
         branchName = execSync('git rev-parse --abbrev-ref HEAD', {
@@ -0,0 +1,237 @@
+/**
+ * Positions and ranges in a text document, independent of the vscode module so the tracking model can be used outside
+ * the editor (such as by the CLI). They offer the same API as vscode.Position and vscode.Range, so they can be passed to
+ * the editor wherever its own types are expected.
+ */
+export class Position {
+    readonly line: number;
+    readonly character: number;
+
+    constructor(line: number, character: number) {
+        if (line < 0 || character < 0) {
+            throw new Error('Illegal argument: line and character must be non-negative');
+        }
+        this.line = line;
+        this.character = character;
+    }
+
+    isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+
+    isEqual(other: Position): boolean {
+        return this.line === other.line && this.character === other.character;
+    }
+
+    compareTo(other: Position): number {
+        return this.line - other.line || this.character - other.character;
+    }
+
+    translate(lineDelta?: number, characterDelta?: number): Position;
+    translate(change: { lineDelta?: number; characterDelta?: number }): Position;
+    translate(lineDeltaOrChange?: number | { lineDelta?: number; characterDelta?: number }, characterDelta: number = 0): Position {
+        if (typeof lineDeltaOrChange === 'object') {
+            return this.translate(lineDeltaOrChange.lineDelta, lineDeltaOrChange.characterDelta);
+        }
+        return new Position(this.line + (lineDeltaOrChange || 0), this.character + characterDelta);
+    }
+
+    with(line?: number, character?: number): Position;
+    with(change: { line?: number; character?: number }): Position;
+    with(lineOrChange?: number | { line?: number; character?: number }, character?: number): Position {
+        if (typeof lineOrChange === 'object') {
+            return this.with(lineOrChange.line, lineOrChange.character);
+        }
+        return new Position(lineOrChange ?? this.line, character ?? this.character);
+    }
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: Position, end: Position);
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+    constructor(startOrLine: Position | number, endOrCharacter: Position | number, endLine?: number, endCharacter?: number) {
+        let start = typeof startOrLine === 'number' ? new Position(startOrLine, endOrCharacter as number) : toPosition(startOrLine);
+        let end = typeof startOrLine === 'number' ? new Position(endLine!, endCharacter!) : toPosition(endOrCharacter as Position);
+
+        // Like the editor, a range given end first is flipped around
+        if (end.isBefore(start)) {
+            [start, end] = [end, start];
+        }
+        this.start = start;
+        this.end = end;
+    }
+
+    get isEmpty(): boolean {
+        return this.start.isEqual(this.end);
+    }
+
+    get isSingleLine(): boolean {
+        return this.start.line === this.end.line;
+    }
+
+    contains(positionOrRange: Position | Range): boolean {
+        if ('start' in positionOrRange) {
+            return this.contains(positionOrRange.start) && this.contains(positionOrRange.end);
+        }
+        return !positionOrRange.isBefore(this.start) && !this.end.isBefore(positionOrRange);
+    }
+
+    isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+
+    intersection(range: Range): Range | undefined {
+        const start = this.start.isBefore(range.start) ? range.start : this.start;
+        const end = this.end.isBefore(range.end) ? this.end : range.end;
+        return start.isAfter(end) ? undefined : new Range(start, end);
+    }
+
+    union(other: Range): Range {
+        return new Range(
+            this.start.isBefore(other.start) ? this.start : other.start,
+            this.end.isAfter(other.end) ? this.end : other.end,
+        );
+    }
+
+    with(start?: Position, end?: Position): Range;
+    with(change: { start?: Position; end?: Position }): Range;
+    with(startOrChange?: Position | { start?: Position; end?: Position }, end?: Position): Range {
+        if (startOrChange && !('line' in startOrChange)) {
+            return this.with(startOrChange.start, startOrChange.end);
+        }
+        return new Range(startOrChange ?? this.start, end ?? this.end);
+    }
+}
+
+/** A change to the text of a document, the part of vscode.TextDocumentContentChangeEvent the tracking model needs */
+export interface TextChange {
+    readonly range: Range;
+    readonly text: string;
+}
+
+/**
+ * Copy a position from any source with the same shape (such as the editor or stored JSON) into a Position
+ */
+export function toPosition(position: { line: number; character: number }): Position {
+    return position instanceof Position ? position : new Position(position.line, position.character);
+}
+
+/**
+ * Move a position to where it ends up after a change to the document
+ */
+export function getUpdatedPosition(position: Position, change: TextChange): Position {
+    let newLine = position.line;
+    let newCharacter = position.character;
+
+    // change before position-to-update
+    if (change.range.end.isBeforeOrEqual(position)) {
+        // change consisted in deletion
+        if (!change.range.start.isEqual(change.range.end)) {
+            // change range is also on the position-to-update's line
+            if (change.range.end.line === newLine) {
+                const characterDelta = change.range.end.character - change.range.start.character;
+                newCharacter -= characterDelta;
+            }
+
+            const lineDelta = change.range.end.line - change.range.start.line;
+            newLine -= lineDelta;
+        }
+
+        // change consisted in insertion
+        if (change.text) {
+            // insertion is on the same line as the position-to-update
+            if (change.range.start.line === newLine) {
+                // the insertion has at least one new line
+                if (change.text.split('\n').length - 1 > 0) {
+                    newCharacter -= change.range.start.character;
+
+                    const index = change.text.lastIndexOf('\n');
+                    newCharacter += change.text.slice(index + 1, change.text.length).length;
+
+                    // the insertion has no new lines
+                } else {
+                    newCharacter += change.text.length;
+                }
+            }
+
+            newLine += change.text.split('\n').length - 1;
+        }
+    }
+
+    return new Position(newLine, newCharacter);
+}
+
+/**
+ * Where text inserted at a position ends, in the document before any later change. Unlike asking the
+ * document, this stays correct while the other changes of the same event are still being applied.
+ */
+export function getInsertionEnd(start: { line: number; character: number }, text: string): Position {
+    const lastLineBreak = text.lastIndexOf('\n');
+    if (lastLineBreak === -1) {
+        return new Position(start.line, start.character + text.length);
+    }
+    return new Position(start.line + text.split('\n').length - 1, text.length - lastLineBreak - 1);
+}
+
+/**
+ * Get the offset at which each line of a plain string starts
+ */
+export function getLineOffsets(text: string): number[] {
+    const lineOffsets = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineOffsets.push(i + 1);
+        }
+    }
+    return lineOffsets;
+}
+
+/**
+ * Convert a position to an offset into a plain string, clamped to its length
+ */
+export function offsetAt(lineOffsets: number[], textLength: number, position: { line: number; character: number }): number {
+    if (position.line >= lineOffsets.length) {
+        return textLength;
+    }
+    return Math.min(lineOffsets[position.line] + position.character, textLength);
+}
+
+/**
+ * Convert an offset into a plain string to a position
+ */
+export function positionAt(lineOffsets: number[], offset: number): { line: number; character: number } {
+    let low = 0;
+    let high = lineOffsets.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lineOffsets[middle] <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return { line: low, character: offset - lineOffsets[low] };
+}
+
+/**
+ * Get the text between two positions of a plain string, the same as TextDocument.getText(range) would.
+ */
+export function getTextInRange(text: string, start: { line: number; character: number }, end: { line: number; character: number }): string {
+    const lineOffsets = getLineOffsets(text);
+    return text.substring(offsetAt(lineOffsets, text.length, start), offsetAt(lineOffsets, text.length, end));
+}
@@ -0,0 +1,349 @@
+import { SerializedChange, SerializedFileState, SerializedFingerprint } from './types';
+import { generateDataChecksum } from './utils';
+import { Position, Range, TextChange, getLineOffsets, getUpdatedPosition, offsetAt, positionAt } from './range';
+
+// Beyond this many differing lines the diff gives up and treats the middle of the file as one rewrite
+const MAX_EDIT_DISTANCE = 2000;
+
+const FINGERPRINT_EXCERPT_LENGTH = 64;
+
+// Limits how many occurrences of an excerpt are checked when re-anchoring a range
+const MAX_FINGERPRINT_CANDIDATES = 1000;
+
+// Shorter text (such as a closing brace) is too common to tell where a range moved to, so it is only verified in place
+const MIN_FINGERPRINT_SEARCH_LENGTH = 16;
+
+interface LineHunk {
+    oldStart: number;
+    oldEnd: number;
+    newStart: number;
+    newEnd: number;
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Myers diff over two line arrays, returning the matched (oldIndex, newIndex) pairs in order.
+ * Returns null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function matchLines(a: string[], b: string[]): [number, number][] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        // Only the diagonals reachable so far are kept, indexed from -(d + 1)
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    if (!found) {
+        return null;
+    }
+
+    const matches: [number, number][] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const previous = trace[d];
+        const base = d + 1;
+        const k = x - y;
+        let previousK: number;
+        if (k === -d || (k !== d && previous[base + k - 1] < previous[base + k + 1])) {
+            previousK = k + 1;
+        } else {
+            previousK = k - 1;
+        }
+        const previousX = d === 0 ? 0 : previous[base + previousK];
+        const previousY = d === 0 ? 0 : previousX - previousK;
+
+        while (x > previousX && y > previousY) {
+            x--;
+            y--;
+            matches.push([x, y]);
+        }
+
+        x = previousX;
+        y = previousY;
+    }
+
+    return matches.reverse();
+}
+
+function diffLines(a: string[], b: string[]): LineHunk[] {
+    // Trim common leading and trailing lines before running the (more expensive) diff
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length === 0 && middleB.length === 0) {
+        return [];
+    }
+
+    const matches = matchLines(middleA, middleB) ?? [];
+    const hunks: LineHunk[] = [];
+    let nextA = 0;
+    let nextB = 0;
+    for (const [i, j] of [...matches, [middleA.length, middleB.length] as [number, number]]) {
+        if (i > nextA || j > nextB) {
+            hunks.push({
+                oldStart: prefix + nextA,
+                oldEnd: prefix + i,
+                newStart: prefix + nextB,
+                newEnd: prefix + j,
+            });
+        }
+        nextA = i + 1;
+        nextB = j + 1;
+    }
+
+    return hunks;
+}
+
+function positionInHunk(hunkText: string, hunkStartLine: number, offset: number): Position {
+    const before = hunkText.substring(0, offset);
+    const lineBreaks = before.split('\n').length - 1;
+    return new Position(hunkStartLine + lineBreaks, offset - (before.lastIndexOf('\n') + 1));
+}
+
+/**
+ * Compute the content changes which turn oldText into newText, expressed in the coordinates of oldText
+ * and sorted from the end of the document to the start (the order getUpdatedRanges applies them in).
+ */
+export function computeContentChanges(oldText: string, newText: string): TextChange[] {
+    const oldLines = splitLines(oldText);
+    const newLines = splitLines(newText);
+    const changes: TextChange[] = [];
+
+    for (const hunk of diffLines(oldLines, newLines)) {
+        // Every line is treated as newline-terminated so that the refinement below can work on plain strings
+        const oldHunk = oldLines.slice(hunk.oldStart, hunk.oldEnd).map(line => line + '\n').join('');
+        const newHunk = newLines.slice(hunk.newStart, hunk.newEnd).map(line => line + '\n').join('');
+
+        // Narrow the line-level hunk down to the characters which actually differ
+        let prefix = 0;
+        while (prefix < oldHunk.length && prefix < newHunk.length && oldHunk[prefix] === newHunk[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (suffix < oldHunk.length - prefix && suffix < newHunk.length - prefix && oldHunk[oldHunk.length - 1 - suffix] === newHunk[newHunk.length - 1 - suffix]) {
+            suffix++;
+        }
+
+        const start = positionInHunk(oldHunk, hunk.oldStart, prefix);
+        const end = positionInHunk(oldHunk, hunk.oldStart, oldHunk.length - suffix);
+
+        changes.push({
+            range: new Range(start, end),
+            text: newHunk.substring(prefix, newHunk.length - suffix),
+        });
+    }
+
+    return changes.sort((change1, change2) => change2.range.start.compareTo(change1.range.start));
+}
+
+function rebaseSerializedChange(change: SerializedChange, contentChanges: readonly TextChange[]): SerializedChange | undefined {
+    let start = new Position(change.start.line, change.start.character);
+    let end = new Position(change.end.line, change.end.character);
+
+    for (const contentChange of contentChanges) {
+        const isEmpty = start.isEqual(end);
+        const overlapsDeletion = contentChange.range.start.isBefore(end) && start.isBefore(contentChange.range.end);
+        const insertsInside = contentChange.range.isEmpty && start.isBefore(contentChange.range.start) && contentChange.range.start.isBefore(end);
+
+        if (!isEmpty && (overlapsDeletion || insertsInside)) {
+            return undefined;
+        }
+
+        const updatedStart = getUpdatedPosition(start, contentChange);
+        // Text inserted directly after the range is not part of it
+        end = !isEmpty && end.isEqual(contentChange.range.end) ? end : getUpdatedPosition(end, contentChange);
+        start = updatedStart;
+    }
+
+    return {
+        ...change,
+        start: { line: start.line, character: start.character },
+        end: { line: end.line, character: end.character },
+    };
+}
+
+/**
+ * Remap serialized ranges recorded against oldText onto newText.
+ * Ranges whose text was rewritten (deleted, replaced or inserted into) are discarded, everything else is shifted.
+ */
+export function rebaseSerializedChanges(changes: SerializedChange[], oldText: string, newText: string): SerializedChange[] {
+    const contentChanges = computeContentChanges(oldText, newText);
+    if (contentChanges.length === 0) {
+        return changes;
+    }
+
+    return changes
+        .map(change => rebaseSerializedChange(change, contentChanges))
+        .filter((change): change is SerializedChange => change !== undefined);
+}
+
+function normalizeLineEndings(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
+
+/**
+ * Create a fingerprint of the text covered by a range, so the range can be verified and found again later.
+ */
+export function createFingerprint(text: string): SerializedFingerprint {
+    const normalizedText = normalizeLineEndings(text);
+    return {
+        hash: generateDataChecksum(normalizedText),
+        length: normalizedText.length,
+        excerpt: normalizedText.substring(0, FINGERPRINT_EXCERPT_LENGTH),
+    };
+}
+
+/**
+ * Find the text matching a fingerprint, checking occurrences of its excerpt outward from the expected offset.
+ * Returns the start offset of the match, or undefined if the text is too short to search for, no longer exists
+ * or occurs more than once (so it can't be told which occurrence the range moved to).
+ */
+function findFingerprint(text: string, fingerprint: SerializedFingerprint, expectedOffset: number): number | undefined {
+    if (fingerprint.excerpt.trim().length < MIN_FINGERPRINT_SEARCH_LENGTH) {
+        return undefined;
+    }
+
+    let match: number | undefined;
+    let candidates = 0;
+    let forward = text.indexOf(fingerprint.excerpt, expectedOffset);
+    let backward = expectedOffset > 0 ? text.lastIndexOf(fingerprint.excerpt, expectedOffset - 1) : -1;
+
+    // Beyond the candidate limit, a match is taken to be the only one near enough to be the same text
+    while ((forward !== -1 || backward !== -1) && candidates < MAX_FINGERPRINT_CANDIDATES) {
+        candidates++;
+        let offset: number;
+        if (backward === -1 || (forward !== -1 && forward - expectedOffset <= expectedOffset - backward)) {
+            offset = forward;
+            forward = text.indexOf(fingerprint.excerpt, forward + 1);
+        } else {
+            offset = backward;
+            backward = backward > 0 ? text.lastIndexOf(fingerprint.excerpt, backward - 1) : -1;
+        }
+
+        if (generateDataChecksum(text.substring(offset, offset + fingerprint.length)) === fingerprint.hash) {
+            if (match !== undefined) {
+                return undefined;
+            }
+            match = offset;
+        }
+    }
+
+    return match;
+}
+
+/**
+ * Anchor serialized ranges onto the current file content after it has changed since they were saved.
+ * Ranges are first rebased through a diff against savedText (when a snapshot of it is available), then
+ * fingerprinted ranges are verified against the current text where they are expected to be, and searched for if they no longer line up.
+ * Ranges which cannot be located are discarded.
+ * @param unanchoredChanges Collects the ranges which could not be located, as they were given
+ */
+export function anchorSerializedChanges(changes: SerializedChange[], savedText: string | undefined, currentText: string, unanchoredChanges?: SerializedChange[]): SerializedChange[] {
+    const contentChanges = savedText !== undefined ? computeContentChanges(savedText, currentText) : undefined;
+    const normalizedText = normalizeLineEndings(currentText);
+    const lineOffsets = getLineOffsets(normalizedText);
+    const anchoredChanges: SerializedChange[] = [];
+
+    for (const change of changes) {
+        const rebasedChange = contentChanges ? rebaseSerializedChange(change, contentChanges) : undefined;
+
+        if (!change.fingerprint) {
+            if (rebasedChange) {
+                anchoredChanges.push(rebasedChange);
+            } else {
+                unanchoredChanges?.push(change);
+            }
+            continue;
+        }
+
+        const candidate = rebasedChange ?? change;
+        const expectedOffset = offsetAt(lineOffsets, normalizedText.length, candidate.start);
+        const expectedEndOffset = offsetAt(lineOffsets, normalizedText.length, candidate.end);
+
+        if (generateDataChecksum(normalizedText.substring(expectedOffset, expectedEndOffset)) === change.fingerprint.hash) {
+            anchoredChanges.push(candidate);
+            continue;
+        }
+
+        const foundOffset = findFingerprint(normalizedText, change.fingerprint, expectedOffset);
+        if (foundOffset === undefined) {
+            unanchoredChanges?.push(change);
+            continue;
+        }
+
+        anchoredChanges.push({
+            ...change,
+            start: positionAt(lineOffsets, foundOffset),
+            end: positionAt(lineOffsets, foundOffset + change.fingerprint.length),
+        });
+    }
+
+    return anchoredChanges;
+}
+
+/**
+ * Replay a serialized file state recorded against an earlier version of a file onto its current content,
+ * such as after a rebase, cherry-pick or merge has rewritten the file, so it can be stored against the new content.
+ * Returns undefined if the state already matches, the earlier content is unknown or none of its ranges survive.
+ * @param unreplayedChanges Collects the ranges of a replayed state which could not be replayed, as they were saved
+ */
+export function replaySerializedFileState(fileState: SerializedFileState, currentText: string, findContent: (checksum: string) => string | undefined, unreplayedChanges?: SerializedChange[]): SerializedFileState | undefined {
+    const currentChecksum = generateDataChecksum(currentText);
+    if (!fileState.checksum || fileState.checksum === currentChecksum) {
+        return undefined;
+    }
+
+    const savedText = findContent(fileState.checksum);
+    if (savedText === undefined) {
+        return undefined;
+    }
+
+    const unanchoredChanges: SerializedChange[] = [];
+    const changes = anchorSerializedChanges(fileState.changes, savedText, currentText, unanchoredChanges);
+    if (changes.length === 0) {
+        return undefined;
+    }
+    unreplayedChanges?.push(...unanchoredChanges);
+
+    return {
+        ...fileState,
+        changes,
+        checksum: currentChecksum,
+    };
+}
@@ -0,0 +1,324 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+import { getTextInRange } from './range';
+
+/** A workspace file and the changes recorded for it, anchored to its current content */
+export interface ReportFile {
+    /** Path of the file relative to the workspace folder */
+    path: string;
+    content: string;
+    changes: SerializedChange[];
+}
+
+export interface AttributionTotals {
+    /** Lines with at least one character covered by a change */
+    lines: number;
+    /** Characters covered by changes */
+    characters: number;
+}
+
+export interface AttributionReportRow extends AttributionTotals {
+    /** The type, AI name, AI model or author the row counts */
+    name: string;
+    /** Number of files containing at least one matching change */
+    files: number;
+}
+
+export interface AttributionFileReport {
+    path: string;
+    /** Size of the file */
+    totals: AttributionTotals;
+    /** Lines and characters covered by any change */
+    attributed: AttributionTotals;
+    byType: { [type: string]: AttributionTotals };
+}
+
+export interface AttributionReport {
+    generatedAt: number;
+    workspace: string;
+    /** Size of every reported file put together */
+    totals: AttributionTotals;
+    files: AttributionFileReport[];
+    byType: AttributionReportRow[];
+    byAiName: AttributionReportRow[];
+    byAiModel: AttributionReportRow[];
+    byAuthor: AttributionReportRow[];
+}
+
+/** The sections of a report which break its totals down by a property of the changes */
+export const REPORT_BREAKDOWNS: { key: 'byType' | 'byAiName' | 'byAiModel' | 'byAuthor'; title: string }[] = [
+    { key: 'byType', title: 'Type' },
+    { key: 'byAiName', title: 'AI Name' },
+    { key: 'byAiModel', title: 'AI Model' },
+    { key: 'byAuthor', title: 'Author' },
+];
+
+export type ReportFormat = 'json' | 'csv' | 'markdown';
+
+const TYPE_LABELS: { [type: string]: string } = {
+    [ExtendedRangeType.UserEdit]: 'User Edit',
+    [ExtendedRangeType.AIGenerated]: 'AI Generated',
+    [ExtendedRangeType.UndoRedo]: 'Undo/Redo',
+    [ExtendedRangeType.Paste]: 'Paste',
+    [ExtendedRangeType.IDEPaste]: 'IDE Paste',
+    [ExtendedRangeType.Unknown]: 'Unknown',
+};
+
+export function getTypeLabel(type: string): string {
+    return TYPE_LABELS[type] || type;
+}
+
+/**
+ * Count the non-empty changes of each type, such as "User Edit 12 · AI Generated 3", in the order of the types
+ */
+export function formatTypeCounts(changes: SerializedChange[], separator: string = ' · '): string {
+    const counts = new Map<string, number>();
+    for (const change of changes) {
+        if (change.start.line !== change.end.line || change.start.character !== change.end.character) {
+            counts.set(change.type, (counts.get(change.type) || 0) + 1);
+        }
+    }
+
+    return Object.keys(TYPE_LABELS)
+        .filter(type => counts.has(type))
+        .map(type => `${getTypeLabel(type)} ${counts.get(type)}`)
+        .join(separator);
+}
+
+/** Tallies the lines, characters and files counted against one name */
+class Tally {
+    private readonly lines = new Map<string, Set<string>>();
+    private readonly characters = new Map<string, number>();
+    private readonly files = new Map<string, Set<string>>();
+
+    add(name: string, filePath: string, lines: number[], characters: number): void {
+        if (!this.lines.has(name)) {
+            this.lines.set(name, new Set());
+            this.files.set(name, new Set());
+            this.characters.set(name, 0);
+        }
+
+        // Lines are keyed by file so a line covered by several changes is only counted once
+        const countedLines = this.lines.get(name)!;
+        for (const line of lines) {
+            countedLines.add(`${filePath}\n${line}`);
+        }
+        this.files.get(name)!.add(filePath);
+        this.characters.set(name, this.characters.get(name)! + characters);
+    }
+
+    totals(name: string): AttributionTotals {
+        return { lines: this.lines.get(name)?.size || 0, characters: this.characters.get(name) || 0 };
+    }
+
+    rows(): AttributionReportRow[] {
+        return [...this.lines.keys()]
+            .map(name => ({ name, files: this.files.get(name)!.size, ...this.totals(name) }))
+            .sort((a, b) => b.lines - a.lines || b.characters - a.characters || a.name.localeCompare(b.name));
+    }
+}
+
+/**
+ * The lines a change covers any of, zero-based
+ */
+export function getCoveredLines(change: SerializedChange): number[] {
+    // A range ending at the start of a line does not cover anything on that line
+    const lastLine = change.end.character === 0 && change.end.line > change.start.line ? change.end.line - 1 : change.end.line;
+
+    const lines: number[] = [];
+    for (let line = change.start.line; line <= lastLine; line++) {
+        lines.push(line);
+    }
+    return lines;
+}
+
+/**
+ * The number of lines in a file, not counting the empty line after a trailing newline
+ */
+export function countLines(content: string): number {
+    if (content.length === 0) {
+        return 0;
+    }
+    return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+}
+
+/** A short label for the Explorer, marking a file as largely AI generated or as containing pastes */
+export interface AttributionBadge {
+    badge: string;
+    type: ExtendedRangeType;
+    tooltip: string;
+}
+
+/**
+ * Badge a file "AI" when more than a share of its lines are AI generated, or otherwise "P" when it contains
+ * pastes from outside the IDE
+ * @param aiThreshold The percentage of lines which must be AI generated, from 0 to 100
+ */
+export function getAttributionBadge(file: ReportFile, aiThreshold: number): AttributionBadge | undefined {
+    const changes = file.changes.filter(change => change.start.line !== change.end.line || change.start.character !== change.end.character);
+    const aiLines = new Set(changes.filter(change => change.type === ExtendedRangeType.AIGenerated).flatMap(getCoveredLines)).size;
+    const pastes = changes.filter(change => change.type === ExtendedRangeType.Paste).length;
+    const totalLines = countLines(file.content);
+    const aiPercentage = totalLines === 0 ? 0 : Math.min(aiLines / totalLines * 100, 100);
+
+    const details: string[] = [];
+    if (aiLines > 0) {
+        details.push(`${aiPercentage.toFixed(1)}% of lines AI generated`);
+    }
+    if (pastes > 0) {
+        details.push(`${pastes} paste${pastes === 1 ? '' : 's'} from outside the IDE`);
+    }
+    const tooltip = `Tab'd: ${details.join(', ')}`;
+
+    if (aiLines > 0 && aiPercentage > aiThreshold) {
+        return { badge: 'AI', type: ExtendedRangeType.AIGenerated, tooltip };
+    }
+    if (pastes > 0) {
+        return { badge: 'P', type: ExtendedRangeType.Paste, tooltip };
+    }
+    return undefined;
+}
+
+/**
+ * Count the lines and characters of a set of files covered by each type of change, AI name, AI model and author
+ */
+export function buildAttributionReport(workspace: string, files: ReportFile[]): AttributionReport {
+    const byType = new Tally();
+    const byAiName = new Tally();
+    const byAiModel = new Tally();
+    const byAuthor = new Tally();
+    const fileReports: AttributionFileReport[] = [];
+    const totals: AttributionTotals = { lines: 0, characters: 0 };
+
+    for (const file of files) {
+        const fileByType = new Tally();
+        const fileAttributed = new Tally();
+
+        for (const change of file.changes) {
+            const characters = getTextInRange(file.content, change.start, change.end).replace(/\r/g, '').length;
+            if (characters === 0) {
+                continue;
+            }
+
+            const lines = getCoveredLines(change);
+            byType.add(change.type, file.path, lines, characters);
+            fileByType.add(change.type, file.path, lines, characters);
+            fileAttributed.add('', file.path, lines, characters);
+            if (change.aiName) {
+                byAiName.add(change.aiName, file.path, lines, characters);
+            }
+            if (change.aiModel) {
+                byAiModel.add(change.aiModel, file.path, lines, characters);
+            }
+            if (change.author) {
+                byAuthor.add(change.author, file.path, lines, characters);
+            }
+        }
+
+        const fileTotals = { lines: countLines(file.content), characters: file.content.replace(/\r/g, '').length };
+        totals.lines += fileTotals.lines;
+        totals.characters += fileTotals.characters;
+
+        const fileReport: AttributionFileReport = { path: file.path, totals: fileTotals, attributed: fileAttributed.totals(''), byType: {} };
+        for (const row of fileByType.rows()) {
+            fileReport.byType[row.name] = { lines: row.lines, characters: row.characters };
+        }
+        fileReports.push(fileReport);
+    }
+
+    return {
+        generatedAt: Date.now(),
+        workspace,
+        totals,
+        files: fileReports.sort((a, b) => a.path.localeCompare(b.path)),
+        byType: byType.rows(),
+        byAiName: byAiName.rows(),
+        byAiModel: byAiModel.rows(),
+        byAuthor: byAuthor.rows(),
+    };
+}
+
+/**
+ * The share of a report's lines which a count makes up, as a percentage with one decimal place
+ */
+export function getLinePercentage(report: AttributionReport, lines: number): string {
+    return report.totals.lines === 0 ? '0.0' : (lines / report.totals.lines * 100).toFixed(1);
+}
+
+export function escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function escapeMarkdown(value: string): string {
+    return value.replace(/[\\|`*_]/g, match => `\\${match}`).replace(/\r?\n/g, ' ');
+}
+
+export function markdownRow(cells: (string | number)[]): string {
+    return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Render a report for export
+ */
+export function formatAttributionReport(report: AttributionReport, format: ReportFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(report, null, 2);
+    }
+
+    if (format === 'csv') {
+        // One table, with the breakdowns first and then a row per file and type
+        const rows: (string | number)[][] = [['table', 'name', 'type', 'files', 'lines', 'characters']];
+        for (const breakdown of REPORT_BREAKDOWNS) {
+            for (const row of report[breakdown.key]) {
+                rows.push([breakdown.key, row.name, breakdown.key === 'byType' ? row.name : '', row.files, row.lines, row.characters]);
+            }
+        }
+        for (const file of report.files) {
+            rows.push(['file', file.path, '', 1, file.totals.lines, file.totals.characters]);
+            for (const type of Object.keys(file.byType)) {
+                rows.push(['file', file.path, type, 1, file.byType[type].lines, file.byType[type].characters]);
+            }
+        }
+        return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+    }
+
+    const lines: string[] = [
+        `# Tab'd Authorship Report: ${escapeMarkdown(report.workspace)}`,
+        '',
+        `Generated ${new Date(report.generatedAt).toISOString()} from ${report.files.length} file${report.files.length === 1 ? '' : 's'} (${report.totals.lines} lines, ${report.totals.characters} characters).`,
+    ];
+
+    for (const breakdown of REPORT_BREAKDOWNS) {
+        lines.push('', `## By ${breakdown.title}`, '');
+        if (report[breakdown.key].length === 0) {
+            lines.push('No changes recorded.');
+            continue;
+        }
+
+        lines.push(
+            markdownRow([breakdown.title, 'Files', 'Lines', '% of Lines', 'Characters']),
+            markdownRow(['---', '---:', '---:', '---:', '---:']),
+        );
+        for (const row of report[breakdown.key]) {
+            const name = breakdown.key === 'byType' ? getTypeLabel(row.name) : row.name;
+            lines.push(markdownRow([escapeMarkdown(name), row.files, row.lines, `${getLinePercentage(report, row.lines)}%`, row.characters]));
+        }
+    }
+
+    lines.push('', '## By File', '');
+    if (report.files.length === 0) {
+        lines.push('No files with recorded changes.');
+    } else {
+        const types = report.byType.map(row => row.name);
+        lines.push(
+            markdownRow(['File', 'Lines', 'Attributed Lines', ...types.map(getTypeLabel)]),
+            markdownRow(['---', '---:', '---:', ...types.map(() => '---:')]),
+        );
+        for (const file of report.files) {
+            lines.push(markdownRow([escapeMarkdown(file.path), file.totals.lines, file.attributed.lines, ...types.map(type => file.byType[type]?.lines || 0)]));
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
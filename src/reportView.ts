@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { AttributionReport, REPORT_BREAKDOWNS, ReportFormat, formatAttributionReport, getLinePercentage, getTypeLabel } from './report';
+
+const EXPORT_FORMATS: { [format in ReportFormat]: { label: string; extension: string } } = {
+    json: { label: 'JSON', extension: 'json' },
+    csv: { label: 'CSV', extension: 'csv' },
+    markdown: { label: 'Markdown', extension: 'md' },
+};
+
+export function escapeHtml(value: string | number): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** A table cell, sorted by its value rather than its displayed text */
+interface Cell {
+    text: string | number;
+    value?: string | number;
+}
+
+function renderTable(headers: string[], rows: Cell[][]): string {
+    const headerCells = headers.map((header, index) => `<th data-column="${index}">${escapeHtml(header)}</th>`).join('');
+    const bodyRows = rows.map(row => `<tr>${row.map(cell => {
+        const value = cell.value ?? cell.text;
+        return `<td data-value="${escapeHtml(value)}"${typeof value === 'number' ? ' class="number"' : ''}>${escapeHtml(cell.text)}</td>`;
+    }).join('')}</tr>`).join('');
+
+    return `<table class="sortable"><thead><tr>${headerCells}</tr></thead><tbody>${bodyRows}</tbody></table>`;
+}
+
+function renderReport(report: AttributionReport, nonce: string, cspSource: string): string {
+    const sections = REPORT_BREAKDOWNS.map(breakdown => {
+        const rows = report[breakdown.key].map(row => [
+            { text: breakdown.key === 'byType' ? getTypeLabel(row.name) : row.name },
+            { text: row.files },
+            { text: row.lines },
+            { text: `${getLinePercentage(report, row.lines)}%`, value: row.lines },
+            { text: row.characters },
+        ]);
+
+        return `<h2>By ${escapeHtml(breakdown.title)}</h2>` + (rows.length === 0
+            ? '<p>No changes recorded.</p>'
+            : renderTable([breakdown.title, 'Files', 'Lines', '% of Lines', 'Characters'], rows));
+    });
+
+    const types = report.byType.map(row => row.name);
+    const fileRows = report.files.map(file => [
+        { text: file.path },
+        { text: file.totals.lines },
+        { text: file.attributed.lines },
+        ...types.map(type => ({ text: file.byType[type]?.lines || 0 })),
+    ]);
+    sections.push('<h2>By File</h2>' + (fileRows.length === 0
+        ? '<p>No files with recorded changes.</p>'
+        : renderTable(['File', 'Lines', 'Attributed Lines', ...types.map(getTypeLabel)], fileRows)));
+
+    const exportButtons = (Object.keys(EXPORT_FORMATS) as ReportFormat[])
+        .map(format => `<button data-format="${format}">Export ${EXPORT_FORMATS[format].label}</button>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Tab'd Authorship Report</title>
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        table { border-collapse: collapse; margin-bottom: 16px; }
+        th, td { padding: 4px 12px; border-bottom: 1px solid var(--vscode-panel-border); text-align: left; }
+        th { cursor: pointer; user-select: none; }
+        th.ascending::after { content: ' \\25B2'; }
+        th.descending::after { content: ' \\25BC'; }
+        td.number { text-align: right; font-variant-numeric: tabular-nums; }
+        button { margin-right: 8px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+    </style>
+</head>
+<body>
+    <h1>Tab'd Authorship Report: ${escapeHtml(report.workspace)}</h1>
+    <p>Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())} from ${report.files.length} file${report.files.length === 1 ? '' : 's'} (${report.totals.lines} lines, ${report.totals.characters} characters).</p>
+    <p>${exportButtons}</p>
+    ${sections.join('\n    ')}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        for (const button of document.querySelectorAll('button[data-format]')) {
+            button.addEventListener('click', () => vscode.postMessage({ command: 'export', format: button.dataset.format }));
+        }
+
+        for (const table of document.querySelectorAll('table.sortable')) {
+            for (const header of table.querySelectorAll('th')) {
+                header.addEventListener('click', () => {
+                    const column = Number(header.dataset.column);
+                    const ascending = !header.classList.contains('ascending');
+                    for (const otherHeader of table.querySelectorAll('th')) {
+                        otherHeader.classList.remove('ascending', 'descending');
+                    }
+                    header.classList.add(ascending ? 'ascending' : 'descending');
+
+                    const body = table.querySelector('tbody');
+                    const rows = [...body.querySelectorAll('tr')];
+                    rows.sort((a, b) => {
+                        const aValue = a.children[column].dataset.value;
+                        const bValue = b.children[column].dataset.value;
+                        const comparison = a.children[column].classList.contains('number')
+                            ? Number(aValue) - Number(bValue)
+                            : aValue.localeCompare(bValue);
+                        return ascending ? comparison : -comparison;
+                    });
+                    body.append(...rows);
+                });
+            }
+        }
+    </script>
+</body>
+</html>`;
+}
+
+async function exportReport(report: AttributionReport, format: ReportFormat, defaultDirectory: vscode.Uri | undefined): Promise<void> {
+    const exportFormat = EXPORT_FORMATS[format];
+    if (!exportFormat) {
+        return;
+    }
+
+    const fileName = `tabd-report.${exportFormat.extension}`;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: defaultDirectory ? vscode.Uri.joinPath(defaultDirectory, fileName) : undefined,
+        filters: { [exportFormat.label]: [exportFormat.extension] },
+    });
+    if (!uri) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(uri.fsPath, formatAttributionReport(report, format));
+        vscode.window.showInformationMessage(`Exported Tab'd report to ${uri.fsPath}.`);
+    } catch (error) {
+        console.error('Failed to export report:', error);
+        vscode.window.showErrorMessage(`Failed to export Tab'd report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Open a report in a webview, with sortable tables and buttons to export it
+ * @param defaultDirectory Where the save dialog starts when exporting
+ */
+export function showAttributionReport(report: AttributionReport, defaultDirectory?: vscode.Uri): vscode.WebviewPanel {
+    const panel = vscode.window.createWebviewPanel('tabdReport', `Tab'd Report: ${report.workspace}`, vscode.ViewColumn.Active, {
+        enableScripts: true,
+        localResourceRoots: [],
+    });
+
+    panel.webview.html = renderReport(report, randomBytes(16).toString('hex'), panel.webview.cspSource);
+    panel.webview.onDidReceiveMessage(message => {
+        if (message && message.command === 'export') {
+            exportReport(report, message.format, defaultDirectory);
+        }
+    });
+
+    return panel;
+}
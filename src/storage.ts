@@ -0,0 +1,430 @@
+import type * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SerializedFileState } from './types';
+import { ValidationIssue, loadSerializedFileState } from './migrations';
+import { getHomeStorageDirectory, getRelativePath, uniqueFileName } from './utils';
+import { clearGitNotes, getGitNotesNamespace, listGitNotesFiles, loadFromGitNotes, renameGitNotes, saveToGitNotes } from './git';
+import { AttributionDatabase, openDatabase } from './database';
+
+/** A stored record of the changes made to a file */
+export interface StoredRecord {
+    /** Identifies the record within its backend, and where it was loaded from in log messages */
+    id: string;
+    data: SerializedFileState;
+}
+
+/**
+ * Where Tab'd data is saved to and loaded from. Each value of the `tabd.storage` setting maps to one backend,
+ * and other extensions can add their own with registerStorageBackend.
+ */
+export interface StorageBackend {
+    /** Whether the data is shared with other users, so that changes need to be attributed to an author */
+    readonly shared: boolean;
+
+    /**
+     * Save a record for a file
+     * @param recordId The record saved earlier in this session, to overwrite rather than adding a new record
+     * @returns The id of the saved record, or undefined if nothing was saved
+     */
+    save(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, recordId?: string): string | undefined;
+
+    /**
+     * Load the records for a file, oldest first
+     * @param issues Collects problems with records which could not be fully loaded, where the backend can tell
+     */
+    load(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): StoredRecord[];
+
+    /**
+     * Delete the records for a file, or for the whole workspace if no file is given
+     */
+    clear(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri): void;
+
+    /**
+     * Move the records for a file after it has been renamed
+     */
+    rename(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void;
+
+    /**
+     * List the files in the workspace which have records
+     */
+    list(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[];
+
+    /**
+     * Replace every record for a file with a single one (optional, for backends which accumulate many records per file)
+     * @param recordIds Only replace these records, keeping the rest (such as those saved since they were loaded)
+     * @returns Whether the records were replaced
+     */
+    compact?(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, recordIds?: string[]): boolean;
+}
+
+function isGitRepository(workspaceFolder: vscode.WorkspaceFolder): boolean {
+    return fs.existsSync(path.join(workspaceFolder.uri.fsPath, '.git'));
+}
+
+function listFileChangeRecords(fileChangeRecordDir: string): string[] {
+    if (!fs.existsSync(fileChangeRecordDir)) {
+        return [];
+    }
+
+    // Sort file change records by filename (which includes timestamp) to process chronologically
+    return fs.readdirSync(fileChangeRecordDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.join(fileChangeRecordDir, file))
+        .sort();
+}
+
+function removeEmptyDirectories(dir: string, rootDir: string): void {
+    // Walk up from dir, stopping at the first directory which still has something in it
+    while (dir.startsWith(rootDir + path.sep) && fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+        fs.rmdirSync(dir);
+        dir = path.dirname(dir);
+    }
+}
+
+/**
+ * Stores each record as a JSON file under a log directory per workspace file,
+ * either in the home directory or in the repository itself (where it is shared through commits)
+ */
+export class FileStorageBackend implements StorageBackend {
+    constructor(readonly shared: boolean) { }
+
+    getStorageDirectory(workspaceFolder: vscode.WorkspaceFolder): string {
+        return this.shared
+            ? path.join(workspaceFolder.uri.fsPath, '.tabd')
+            : getHomeStorageDirectory('workspaces', workspaceFolder);
+    }
+
+    getLogDirectory(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+        return path.join(this.getStorageDirectory(workspaceFolder), 'log', getRelativePath(workspaceFolder, uri));
+    }
+
+    save(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, recordId?: string): string | undefined {
+        // Write to existing file if it exists
+        if (recordId) {
+            fs.writeFileSync(recordId, JSON.stringify(data));
+            return recordId;
+        }
+
+        // Check is Git is initialized at the workspace root (only required for repository storage)
+        if (this.shared) {
+            if (!isGitRepository(workspaceFolder)) {
+                console.warn('No Git repository found. Skipping file state save.');
+                return undefined;
+            }
+
+            const gitAttributesPath = path.join(workspaceFolder.uri.fsPath, '.gitattributes');
+            if (!fs.existsSync(gitAttributesPath)) {
+                // Create .gitattributes file if it doesn't exist
+                fs.writeFileSync(gitAttributesPath, `.tabd/** linguist-generated=true\n`);
+            }
+        }
+
+        // Get the appropriate storage directory
+        const baseStorageDir = this.getStorageDirectory(workspaceFolder);
+        if (!fs.existsSync(baseStorageDir)) {
+            fs.mkdirSync(baseStorageDir, { recursive: true });
+            // TODO: Make a README.md file in the storage directory
+        }
+
+        // Write the file state to a JSON file
+        const fileChangeRecordDir = this.getLogDirectory(workspaceFolder, uri);
+        const fileChangeRecordPath = path.join(fileChangeRecordDir, uniqueFileName());
+        if (!fs.existsSync(fileChangeRecordDir)) {
+            fs.mkdirSync(fileChangeRecordDir, { recursive: true });
+        }
+        if (fs.existsSync(fileChangeRecordPath)) {
+            throw new Error(`File change record already exists at ${fileChangeRecordPath}. This should not happen!`);
+        }
+
+        fs.writeFileSync(fileChangeRecordPath, JSON.stringify(data));
+        return fileChangeRecordPath;
+    }
+
+    load(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): StoredRecord[] {
+        if (this.shared && !isGitRepository(workspaceFolder)) {
+            return [];
+        }
+
+        const records: StoredRecord[] = [];
+        for (const fileChangeRecordPath of listFileChangeRecords(this.getLogDirectory(workspaceFolder, uri))) {
+            try {
+                const data = loadSerializedFileState(JSON.parse(fs.readFileSync(fileChangeRecordPath, 'utf8')), fileChangeRecordPath, issues);
+                if (data) {
+                    records.push({ id: fileChangeRecordPath, data });
+                }
+            } catch (error) {
+                console.warn(`Failed to load file state from ${fileChangeRecordPath}:`, error);
+                issues?.push({ source: fileChangeRecordPath, field: '', message: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        return records;
+    }
+
+    clear(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri): void {
+        if (!uri) {
+            const storageDir = this.getStorageDirectory(workspaceFolder);
+
+            if (fs.existsSync(storageDir)) {
+                try {
+                    // Remove the entire storage directory recursively
+                    fs.rmSync(storageDir, { recursive: true, force: true });
+                } catch (error) {
+                    console.warn(`Failed to remove storage directory ${storageDir}:`, error);
+                    throw new Error(`Failed to remove storage directory: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            return;
+        }
+
+        const logDir = this.getLogDirectory(workspaceFolder, uri);
+        for (const fileChangeRecordPath of listFileChangeRecords(logDir)) {
+            try {
+                fs.unlinkSync(fileChangeRecordPath);
+            } catch (error) {
+                console.warn(`Failed to delete file ${fileChangeRecordPath}:`, error);
+            }
+        }
+
+        // Try to remove the directory if it's empty
+        try {
+            removeEmptyDirectories(logDir, this.getStorageDirectory(workspaceFolder));
+        } catch (error) {
+            // Directory might not be empty or might not exist, which is fine
+        }
+    }
+
+    rename(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        const oldLogDir = this.getLogDirectory(workspaceFolder, oldUri);
+        const newLogDir = this.getLogDirectory(workspaceFolder, newUri);
+        const fileChangeRecords = listFileChangeRecords(oldLogDir);
+        if (fileChangeRecords.length === 0) {
+            return;
+        }
+
+        // Record names are unique, so they can join any records already under the new path
+        fs.mkdirSync(newLogDir, { recursive: true });
+        for (const fileChangeRecordPath of fileChangeRecords) {
+            fs.renameSync(fileChangeRecordPath, path.join(newLogDir, path.basename(fileChangeRecordPath)));
+        }
+
+        try {
+            removeEmptyDirectories(oldLogDir, this.getStorageDirectory(workspaceFolder));
+        } catch (error) {
+            // Directory might not be empty, which is fine
+        }
+    }
+
+    list(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[] {
+        const logRootDir = path.join(this.getStorageDirectory(workspaceFolder), 'log');
+        if (!fs.existsSync(logRootDir)) {
+            return [];
+        }
+
+        // Each directory under the log root which holds records corresponds to a workspace file
+        const uris: vscode.Uri[] = [];
+        const pendingDirs = [logRootDir];
+        while (pendingDirs.length > 0) {
+            const dir = pendingDirs.pop()!;
+            const entries = fs.readdirSync(dir, { withFileTypes: true });
+            if (entries.some(entry => entry.isFile() && entry.name.endsWith('.json'))) {
+                uris.push(URI.file(path.join(workspaceFolder.uri.fsPath, path.relative(logRootDir, dir))));
+            }
+            for (const entry of entries) {
+                if (entry.isDirectory()) {
+                    pendingDirs.push(path.join(dir, entry.name));
+                }
+            }
+        }
+
+        return uris;
+    }
+
+    compact(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, recordIds?: string[]): boolean {
+        const fileChangeRecords = listFileChangeRecords(this.getLogDirectory(workspaceFolder, uri))
+            .filter(fileChangeRecordPath => !recordIds || recordIds.includes(fileChangeRecordPath));
+
+        // Write the compacted record before deleting the old ones, so nothing is lost if writing fails
+        if (data.changes.length > 0 && !this.save(workspaceFolder, uri, data)) {
+            return false;
+        }
+
+        for (const fileChangeRecordPath of fileChangeRecords) {
+            try {
+                fs.unlinkSync(fileChangeRecordPath);
+            } catch (error) {
+                console.warn(`Failed to delete file ${fileChangeRecordPath}:`, error);
+            }
+        }
+
+        return true;
+    }
+}
+
+/**
+ * Stores records as Git notes attached to HEAD, with one notes namespace per branch and file
+ */
+export class GitNotesStorageBackend implements StorageBackend {
+    readonly shared = true;
+
+    save(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState): string | undefined {
+        if (!isGitRepository(workspaceFolder)) {
+            console.warn('No Git repository found. Skipping file state save.');
+            return undefined;
+        }
+
+        // Notes are attached to HEAD, so the note for the namespace is always the one overwritten
+        const namespace = getGitNotesNamespace(workspaceFolder, uri);
+        saveToGitNotes(workspaceFolder, uri, data, namespace);
+        return namespace;
+    }
+
+    load(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): StoredRecord[] {
+        if (!isGitRepository(workspaceFolder)) {
+            return [];
+        }
+
+        const relativePath = getRelativePath(workspaceFolder, uri);
+        return loadFromGitNotes(workspaceFolder, uri, issues).map((data, index) => ({
+            id: `Git notes for ${relativePath} #${index}`,
+            data,
+        }));
+    }
+
+    /**
+     * Delete the notes of a file on the current branch, or of every file on every branch if no file is given
+     */
+    clear(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri): void {
+        clearGitNotes(workspaceFolder, uri);
+    }
+
+    /**
+     * Delete the notes of a file on every branch, once the user has confirmed it
+     */
+    clearEveryBranch(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): void {
+        clearGitNotes(workspaceFolder, uri, true);
+    }
+
+    rename(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        renameGitNotes(workspaceFolder, oldUri, newUri);
+    }
+
+    list(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[] {
+        return isGitRepository(workspaceFolder) ? listGitNotesFiles(workspaceFolder) : [];
+    }
+}
+
+/**
+ * Stores every record of a workspace in a single append-only database file in the home directory
+ */
+export class DatabaseStorageBackend implements StorageBackend {
+    readonly shared = false;
+
+    getDatabase(workspaceFolder: vscode.WorkspaceFolder): AttributionDatabase {
+        return openDatabase(path.join(getHomeStorageDirectory('databases', workspaceFolder), 'tabd.db'));
+    }
+
+    save(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: SerializedFileState, recordId?: string): string | undefined {
+        return this.getDatabase(workspaceFolder).put(getRelativePath(workspaceFolder, uri), data, recordId);
+    }
+
+    load(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): StoredRecord[] {
+        return this.getDatabase(workspaceFolder).getRecords(getRelativePath(workspaceFolder, uri), issues).map(record => ({
+            id: record.id,
+            data: record.data,
+        }));
+    }
+
+    clear(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri): void {
+        this.getDatabase(workspaceFolder).delete(uri ? getRelativePath(workspaceFolder, uri) : undefined);
+    }
+
+    rename(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        this.getDatabase(workspaceFolder).rename(getRelativePath(workspaceFolder, oldUri), getRelativePath(workspaceFolder, newUri));
+    }
+
+    list(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[] {
+        return this.getDatabase(workspaceFolder).getPaths().map(relativePath => URI.file(path.join(workspaceFolder.uri.fsPath, relativePath)));
+    }
+}
+
+/**
+ * Copy the records of a file from one backend to another as they are, oldest first, skipping those the target
+ * already holds. Nothing is anchored onto the file, so no history is lost for ranges which no longer match it
+ * or for files which have since been deleted.
+ * Throws if the target does not save a record, so the source can be kept until everything has been copied.
+ * @returns The number of records copied
+ */
+export function copyStoredRecords(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, sourceBackend: StorageBackend, targetBackend: StorageBackend): number {
+    const existingRecords = new Set(targetBackend.load(workspaceFolder, uri).map(record => JSON.stringify(record.data)));
+
+    let copiedRecords = 0;
+    for (const record of sourceBackend.load(workspaceFolder, uri)) {
+        if (existingRecords.has(JSON.stringify(record.data))) {
+            continue;
+        }
+        // Record ids only mean something to the backend they came from, so each record is saved as a new one
+        if (targetBackend.save(workspaceFolder, uri, record.data) === undefined) {
+            throw new Error(`the storage option did not save the record ${record.id}`);
+        }
+        copiedRecords++;
+    }
+
+    return copiedRecords;
+}
+
+const storageBackends = new Map<string, StorageBackend>([
+    ['homeDirectory', new FileStorageBackend(false)],
+    ['repository', new FileStorageBackend(true)],
+    ['gitNotes', new GitNotesStorageBackend()],
+    ['database', new DatabaseStorageBackend()],
+]);
+
+const builtInStorageTypes = new Set(storageBackends.keys());
+
+/**
+ * Whether a storage type is built into Tab'd, and so can also be read outside the editor by the command line tool
+ */
+export function isBuiltInStorageType(storageType: string): boolean {
+    return builtInStorageTypes.has(storageType);
+}
+
+/**
+ * Register a storage backend, which is used when the `tabd.storage` setting is set to its storage type
+ * @returns A disposable which unregisters the backend
+ */
+export function registerStorageBackend(storageType: string, storageBackend: StorageBackend): vscode.Disposable {
+    if (storageBackends.has(storageType)) {
+        throw new Error(`A storage backend is already registered for storage type ${storageType}`);
+    }
+
+    storageBackends.set(storageType, storageBackend);
+    return {
+        dispose: () => {
+            if (storageBackends.get(storageType) === storageBackend) {
+                storageBackends.delete(storageType);
+            }
+        },
+    };
+}
+
+/**
+ * Get the storage types which have a backend registered
+ */
+export function getStorageTypes(): string[] {
+    return [...storageBackends.keys()];
+}
+
+/**
+ * Get the backend for a storage type (such as the one selected in the `tabd.storage` setting)
+ */
+export function getStorageBackend(storageType: string): StorageBackend {
+    const storageBackend = storageBackends.get(storageType);
+    if (!storageBackend) {
+        throw new Error(`Unsupported storage type: ${storageType}`);
+    }
+
+    return storageBackend;
+}
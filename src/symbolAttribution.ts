@@ -0,0 +1,108 @@
+import { ExtendedRangeType } from './extendedRange';
+import { SerializedChange } from './types';
+import { getCoveredLines, getTypeLabel } from './report';
+import { getLineAttribution } from './lineAttribution';
+
+/** How the lines of a symbol, such as a function or class, were written */
+export interface SymbolAttribution {
+    lines: number;
+    /** Lines covered by an AI generated change */
+    ai: number;
+    /** Lines covered by a paste, and not by an AI generated change */
+    pasted: number;
+    /** Lines covered by an unknown action, and by no AI generated change or paste */
+    unknown: number;
+    /** The AI names and models which generated any of the lines, in the order they first appear */
+    aiNames: string[];
+    aiModels: string[];
+    /** The non-empty changes covering any of the lines, in document order */
+    changes: SerializedChange[];
+}
+
+function addUnique(values: string[], value: string | undefined) {
+    if (value && !values.includes(value)) {
+        values.push(value);
+    }
+}
+
+/**
+ * Count how the lines of a symbol were written, where each line is counted once against the change it is
+ * attributed to (see getLineAttribution), and otherwise as written by you
+ * @param startLine The first line of the symbol, zero-based
+ * @param endLine The last line of the symbol, zero-based
+ */
+export function summarizeSymbolAttribution(changes: SerializedChange[], startLine: number, endLine: number): SymbolAttribution {
+    const attribution: SymbolAttribution = { lines: endLine - startLine + 1, ai: 0, pasted: 0, unknown: 0, aiNames: [], aiModels: [], changes: [] };
+
+    attribution.changes = changes
+        .filter(change => (change.start.line !== change.end.line || change.start.character !== change.end.character)
+            && getCoveredLines(change).some(line => line >= startLine && line <= endLine))
+        .sort((a, b) => a.start.line - b.start.line || a.start.character - b.start.character);
+    for (const change of attribution.changes) {
+        if (change.type === ExtendedRangeType.AIGenerated) {
+            addUnique(attribution.aiNames, change.aiName);
+            addUnique(attribution.aiModels, change.aiModel);
+        }
+    }
+
+    const lineAttribution = getLineAttribution(attribution.changes);
+    for (let line = startLine; line <= endLine; line++) {
+        const type = lineAttribution.get(line)?.type;
+        if (type === ExtendedRangeType.AIGenerated) {
+            attribution.ai++;
+        } else if (type === ExtendedRangeType.Paste || type === ExtendedRangeType.IDEPaste) {
+            attribution.pasted++;
+        } else if (type === ExtendedRangeType.Unknown) {
+            attribution.unknown++;
+        }
+    }
+
+    return attribution;
+}
+
+/**
+ * Describe the attribution of a symbol in one line, such as "62% AI (Copilot, gpt-4o) · 10% pasted · 28% you"
+ */
+export function formatSymbolAttribution(attribution: SymbolAttribution): string {
+    const percentage = (lines: number) => attribution.lines === 0 ? 0 : Math.round(lines / attribution.lines * 100);
+    const ai = percentage(attribution.ai);
+    const pasted = percentage(attribution.pasted);
+    const unknown = percentage(attribution.unknown);
+    // The rest is worked out from the others, so the parts always add up to 100%
+    const you = Math.max(100 - ai - pasted - unknown, 0);
+
+    const aiDetails = [...attribution.aiNames, ...attribution.aiModels];
+    const parts: string[] = [];
+    if (attribution.ai > 0) {
+        parts.push(`${ai}% AI${aiDetails.length > 0 ? ` (${aiDetails.join(', ')})` : ''}`);
+    }
+    if (attribution.pasted > 0) {
+        parts.push(`${pasted}% pasted`);
+    }
+    if (attribution.unknown > 0) {
+        parts.push(`${unknown}% unknown`);
+    }
+    if (you > 0 || parts.length === 0) {
+        parts.push(`${you}% you`);
+    }
+
+    return parts.join(' · ');
+}
+
+/**
+ * Describe one change contributing to a symbol, as a label (the lines and type of change) and details
+ */
+export function describeSymbolChange(change: SerializedChange): { label: string; detail: string } {
+    const lastLine = getCoveredLines(change).pop()!;
+    const lines = lastLine === change.start.line ? `Line ${change.start.line + 1}` : `Lines ${change.start.line + 1}-${lastLine + 1}`;
+
+    const details: string[] = [];
+    if (change.type === ExtendedRangeType.AIGenerated && change.aiName) {
+        details.push(`${change.aiName}${change.aiModel ? ` (${change.aiModel})` : ''}`);
+    } else if (change.pasteUrl) {
+        details.push(`From ${change.pasteTitle ? `${change.pasteTitle} (${change.pasteUrl})` : change.pasteUrl}`);
+    }
+    details.push(`By ${change.author || 'you'}`, `Created at: ${new Date(change.creationTimestamp).toLocaleString()}`);
+
+    return { label: `${lines}: ${getTypeLabel(change.type)}`, detail: details.join(' • ') };
+}
@@ -0,0 +1,108 @@
+/**
+ * Typings for the API which Tab'd returns from its activation, for other extensions to depend on.
+ * This file only uses the vscode module, so it can be copied into another extension as is:
+ *
+ *     const tabd = await vscode.extensions.getExtension<TabdApi>('iann0036.tabd')?.activate();
+ *     if (tabd?.version === 1) { ... }
+ *
+ * The version is only bumped when a change would break existing callers, so new members may be added within a version.
+ */
+import * as vscode from 'vscode';
+
+/** How a range of text came to be in a file */
+export type AttributionType = 'UNKNOWN' | 'USER_EDIT' | 'AI_GENERATED' | 'UNDO_REDO' | 'PASTE' | 'IDE_PASTE';
+
+/** A tracked range of a file, in the same shape as the data the command line tool exports */
+export interface AttributionChange {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+    type: AttributionType;
+    /** When the range was created, in milliseconds since the epoch */
+    creationTimestamp: number;
+    /** Who made the change, where the data is shared with other users */
+    author?: string;
+    /** Where pasted code was copied from */
+    pasteUrl?: string;
+    pasteTitle?: string;
+    /** The AI tool which generated the code, such as Copilot */
+    aiName?: string;
+    aiModel?: string;
+    aiExplanation?: string;
+    /** How the code was generated, such as inlineCompletion or applyPatch */
+    aiType?: string;
+    /** Identifies the text of the range, set on stored changes so they can be found again after the file changes */
+    fingerprint?: { hash: string; length: number; excerpt: string };
+}
+
+export interface AttributionChangeEvent {
+    readonly uri: vscode.Uri;
+    /** Every tracked range of the file after the change */
+    readonly changes: AttributionChange[];
+}
+
+/** Describes the AI which generated an edit */
+export interface AIEditMetadata {
+    /** The AI tool, such as the name of the reporting extension */
+    aiName: string;
+    aiModel?: string;
+    /** How the code was generated, such as inlineCompletion or chat */
+    aiType?: string;
+    /** Why the edit was made, such as the prompt or the AI's own summary */
+    explanation?: string;
+}
+
+/** A problem with a stored record which could not be fully loaded */
+export interface ValidationIssue {
+    source: string;
+    field: string;
+    message: string;
+}
+
+export interface StoredFileState {
+    version: number;
+    changes: AttributionChange[];
+    checksum?: string;
+}
+
+export interface StoredRecord {
+    id: string;
+    data: StoredFileState;
+}
+
+/** Where Tab'd data is saved to and loaded from, used when the `tabd.storage` setting is set to its storage type */
+export interface StorageBackend {
+    readonly shared: boolean;
+    save(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: StoredFileState, recordId?: string): string | undefined;
+    load(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, issues?: ValidationIssue[]): StoredRecord[];
+    clear(workspaceFolder: vscode.WorkspaceFolder, uri?: vscode.Uri): void;
+    rename(workspaceFolder: vscode.WorkspaceFolder, oldUri: vscode.Uri, newUri: vscode.Uri): void;
+    list(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri[];
+    /** Replace the records of a file with a single one, or only the records with the given ids */
+    compact?(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri, data: StoredFileState, recordIds?: string[]): boolean;
+}
+
+export interface TabdApi {
+    readonly version: 1;
+
+    /**
+     * Get the tracked ranges of a file, or an empty array if Tab'd has not loaded it (files are loaded when opened)
+     */
+    getRanges(uri: vscode.Uri): AttributionChange[];
+
+    /**
+     * Fires whenever the tracked ranges of a file change, whether from an edit, a reload or a cleared file
+     */
+    readonly onDidChangeAttribution: vscode.Event<AttributionChangeEvent>;
+
+    /**
+     * Mark ranges of a file as generated by AI, once the edit which inserted them has been applied.
+     * Nothing is recorded while tracking is disabled or for files which are not tracked.
+     */
+    reportAIEdit(uri: vscode.Uri, ranges: readonly vscode.Range[], metadata: AIEditMetadata): Promise<void>;
+
+    /**
+     * Register a storage backend
+     * @returns A disposable which unregisters the backend
+     */
+    registerStorageBackend(storageType: string, storageBackend: StorageBackend): vscode.Disposable;
+}
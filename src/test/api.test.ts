@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AttributionChangeEvent } from '../tabd';
+import { createTabdApi, mergeReportedAIEdit, notifyAttributionChange } from '../api';
+import { ExtendedRange, ExtendedRangeType } from '../extendedRange';
+import { Position, Range } from '../range';
+import { getStorageTypes } from '../storage';
+
+suite('API Test Suite', () => {
+	const uri = vscode.Uri.file('/test/workspace/src/a.ts');
+	const ranges = [
+		new ExtendedRange(new Position(0, 0), new Position(2, 4), ExtendedRangeType.AIGenerated, 1000, '', { aiName: 'Copilot', aiModel: 'gpt-4o' }),
+	];
+	const reported: { uri: vscode.Uri; ranges: readonly vscode.Range[] }[] = [];
+	const api = createTabdApi(
+		u => u.toString() === uri.toString() ? ranges : undefined,
+		async (u, r) => {
+			reported.push({ uri: u, ranges: r });
+		},
+	);
+
+	test('should be version 1', () => {
+		assert.strictEqual(api.version, 1);
+	});
+
+	test('should get the ranges of a file in the exported shape', () => {
+		const [change] = api.getRanges(uri);
+		assert.deepStrictEqual(change.start, { line: 0, character: 0 });
+		assert.deepStrictEqual(change.end, { line: 2, character: 4 });
+		assert.strictEqual(change.type, 'AI_GENERATED');
+		assert.strictEqual(change.creationTimestamp, 1000);
+		assert.strictEqual(change.aiName, 'Copilot');
+		assert.strictEqual(change.aiModel, 'gpt-4o');
+	});
+
+	test('should get no ranges for a file which has not been loaded', () => {
+		assert.deepStrictEqual(api.getRanges(vscode.Uri.file('/test/workspace/src/b.ts')), []);
+	});
+
+	test('should fire an event when the ranges of a file change', () => {
+		const events: AttributionChangeEvent[] = [];
+		const subscription = api.onDidChangeAttribution(e => events.push(e));
+		try {
+			notifyAttributionChange(uri, ranges);
+		} finally {
+			subscription.dispose();
+		}
+
+		assert.strictEqual(events.length, 1);
+		assert.strictEqual(events[0].uri, uri);
+		assert.deepStrictEqual(events[0].changes, api.getRanges(uri));
+	});
+
+	test('should only fire the event when the ranges have changed', () => {
+		const otherUri = vscode.Uri.file('/test/workspace/src/c.ts');
+		const events: AttributionChangeEvent[] = [];
+		const subscription = api.onDidChangeAttribution(e => events.push(e));
+		try {
+			notifyAttributionChange(otherUri, ranges);
+			notifyAttributionChange(otherUri, [...ranges]);
+			notifyAttributionChange(otherUri, []);
+		} finally {
+			subscription.dispose();
+		}
+
+		assert.deepStrictEqual(events.map(e => e.changes.length), [1, 0]);
+	});
+
+	test('should replace the overlapping parts of older ranges with reported AI edits', () => {
+		const userEdit = new ExtendedRange(new Position(0, 0), new Position(4, 0), ExtendedRangeType.UserEdit, 1000);
+
+		const merged = mergeReportedAIEdit([userEdit], [new Range(new Position(1, 0), new Position(2, 0)), new Range(new Position(3, 0), new Position(3, 0))], { aiName: 'Other', aiModel: 'model' }, 2000);
+
+		assert.deepStrictEqual(merged.map(range => [range.start.line, range.end.line, range.getType()]).sort(), [
+			[0, 1, ExtendedRangeType.UserEdit],
+			[1, 2, ExtendedRangeType.AIGenerated],
+			[2, 4, ExtendedRangeType.UserEdit],
+		]);
+		assert.strictEqual(merged.find(range => range.getType() === ExtendedRangeType.AIGenerated)?.getAiName(), 'Other');
+	});
+
+	test('should pass reported AI edits on', async () => {
+		const range = new vscode.Range(1, 0, 1, 10);
+		await api.reportAIEdit(uri, [range], { aiName: 'Other' });
+		assert.deepStrictEqual(reported, [{ uri, ranges: [range] }]);
+	});
+
+	test('should register storage backends', () => {
+		const registration = api.registerStorageBackend('api', { shared: false, save: () => undefined, load: () => [], clear: () => { }, rename: () => { }, list: () => [] });
+		try {
+			assert.ok(getStorageTypes().includes('api'));
+		} finally {
+			registration.dispose();
+		}
+		assert.ok(!getStorageTypes().includes('api'));
+	});
+});
@@ -0,0 +1,327 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { URI } from 'vscode-uri';
+import { runCli } from '../cli';
+import { DatabaseStorageBackend } from '../storage';
+import { SerializedChange, SerializedFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
+import { generateDataChecksum } from '../utils';
+import { createFingerprint } from '../rebase';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('CLI Test Suite', () => {
+	let repo: string;
+
+	const createChange = (type: ExtendedRangeType, startLine: number, startCharacter: number, endLine: number, endCharacter: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	const writeFile = (relativePath: string, content: string) => {
+		fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+		fs.writeFileSync(path.join(repo, relativePath), content);
+	};
+
+	const writeRecord = (relativePath: string, recordName: string, data: SerializedFileState | string) => {
+		writeFile(path.join('.tabd', 'log', relativePath, recordName), typeof data === 'string' ? data : JSON.stringify(data));
+	};
+
+	const createFileState = (content: string, changes: SerializedChange[]): SerializedFileState => ({
+		version: SERIALIZED_FILE_STATE_VERSION,
+		changes,
+		checksum: generateDataChecksum(content),
+	});
+
+	const run = (...args: string[]) => {
+		let stdout = '';
+		let stderr = '';
+		const exitCode = runCli(args, {
+			cwd: repo,
+			stdout: text => { stdout += text; },
+			stderr: text => { stderr += text; },
+		});
+		return { exitCode, stdout, stderr };
+	};
+
+	setup(() => {
+		repo = fs.mkdtempSync(path.join(os.tmpdir(), 'tabd-cli-test-'));
+		fs.mkdirSync(path.join(repo, '.git'));
+
+		const aContent = 'const a = 1;\nconst b = 2;\n';
+		writeFile('src/a.ts', aContent);
+		writeRecord('src/a.ts', 'tabd-20250101000000-aaaaaa.json', createFileState(aContent, [
+			createChange(ExtendedRangeType.AIGenerated, 0, 0, 1, 0, { aiName: 'Copilot', author: 'alice' }),
+		]));
+		writeRecord('src/a.ts', 'tabd-20250101000001-bbbbbb.json', createFileState(aContent, [
+			createChange(ExtendedRangeType.Paste, 1, 0, 1, 12, { pasteUrl: 'https://example.com', author: 'bob' }),
+		]));
+
+		const bContent = 'let x;\n';
+		writeFile('src/b.ts', bContent);
+		writeRecord('src/b.ts', 'tabd-20250101000000-cccccc.json', createFileState('let y;\n', [
+			createChange(ExtendedRangeType.AIGenerated, 0, 0, 0, 6),
+		]));
+	});
+
+	teardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	suite('list Tests', () => {
+		test('should list the files with records', () => {
+			const result = run('list');
+
+			assert.strictEqual(result.exitCode, 0);
+			assert.deepStrictEqual(result.stdout.trim().split('\n'), [
+				'src/a.ts\t2 records, 2 changes',
+				'src/b.ts\t1 record, 0 changes, 1 stale',
+			]);
+		});
+
+		test('should list a single file as JSON', () => {
+			const result = run('list', path.join('src', 'a.ts'), '--format', 'json');
+
+			assert.deepStrictEqual(JSON.parse(result.stdout), [{ path: 'src/a.ts', exists: true, records: 2, staleRecords: 0, changes: 2 }]);
+		});
+	});
+
+	suite('summarize Tests', () => {
+		test('should leave out ranges which cannot be anchored onto the current content', () => {
+			const report = JSON.parse(run('summarize', '--format', 'json').stdout);
+
+			assert.deepStrictEqual(report.files.map((file: { path: string }) => file.path), ['src/a.ts']);
+			assert.deepStrictEqual(report.byType, [
+				{ name: ExtendedRangeType.AIGenerated, files: 1, lines: 1, characters: 13 },
+				{ name: ExtendedRangeType.Paste, files: 1, lines: 1, characters: 12 },
+			]);
+		});
+
+		test('should default to Markdown', () => {
+			assert.ok(run('summarize').stdout.includes('| AI Generated | 1 | 1 | 50.0% | 13 |'));
+		});
+	});
+
+	suite('validate Tests', () => {
+		test('should pass when nothing is wrong', () => {
+			const result = run('validate');
+
+			assert.strictEqual(result.exitCode, 0);
+			assert.ok(result.stdout.includes('src/b.ts: 1 of 1 records were made before the file last changed'));
+		});
+
+		test('should fail on stale records when strict', () => {
+			assert.strictEqual(run('validate', '--strict').exitCode, 1);
+		});
+
+		test('should fail on malformed records', () => {
+			writeRecord('src/a.ts', 'tabd-20250101000002-dddddd.json', '{"version": 2, "changes": "none"}');
+			writeRecord('src/a.ts', 'tabd-20250101000003-eeeeee.json', '{bad');
+
+			const result = run('validate', 'src/a.ts');
+
+			assert.strictEqual(result.exitCode, 1);
+			assert.ok(result.stdout.includes('tabd-20250101000002-dddddd.json: changes expected an array'));
+			assert.ok(result.stdout.includes('tabd-20250101000003-eeeeee.json: (root)'));
+			assert.strictEqual(result.stderr, '');
+		});
+
+		test('should fail on ranges past the end of the file', () => {
+			const content = fs.readFileSync(path.join(repo, 'src/a.ts'), 'utf8');
+			writeRecord('src/a.ts', 'tabd-20250101000002-dddddd.json', createFileState(content, [createChange(ExtendedRangeType.AIGenerated, 1, 0, 1, 20)]));
+
+			const result = run('validate');
+
+			assert.strictEqual(result.exitCode, 1);
+			assert.ok(result.stdout.includes('changes[0].end range extends past the end of the file'));
+		});
+
+		test('should enforce maximum percentages per type', () => {
+			assert.strictEqual(run('validate', '--max', 'AI_GENERATED=50').exitCode, 0);
+
+			const result = run('validate', '--max', 'paste=40');
+			assert.strictEqual(result.exitCode, 1);
+			assert.ok(result.stdout.includes('Policy violation: 50.0% of lines are PASTE, more than the maximum of 40%'));
+		});
+	});
+
+	suite('Policy Tests', () => {
+		const writePolicies = (policies: unknown) => {
+			const policyPath = path.join(repo, 'policies.json');
+			fs.writeFileSync(policyPath, JSON.stringify(policies));
+			return policyPath;
+		};
+
+		test('should enforce policies from a file', () => {
+			const result = run('validate', '--policies', writePolicies([{ name: 'pastes', types: ['PASTE'], maxPercentage: 40 }]));
+
+			assert.strictEqual(result.exitCode, 1);
+			assert.ok(result.stdout.includes('src/a.ts: Policy error (pastes): 50.0% of lines are Paste, more than the maximum of 40%'));
+		});
+
+		test('should only fail on policies with an error severity', () => {
+			const result = run('validate', '--policies', writePolicies({ 'tabd.policies': [{ aiNames: ['copilot'], severity: 'warning' }] }));
+
+			assert.strictEqual(result.exitCode, 0);
+			assert.ok(result.stdout.includes('src/a.ts: Policy warning: Attributed code by copilot is not allowed'));
+		});
+
+		test('should exit with 2 on invalid policies', () => {
+			const result = run('validate', '--policies', writePolicies([{ types: ['PASTED'] }]));
+
+			assert.strictEqual(result.exitCode, 2);
+			assert.ok(result.stderr.includes('policies[0].types is not valid'));
+		});
+	});
+
+	suite('Filter Tests', () => {
+		test('should only include the changes matching the filters', () => {
+			const files = JSON.parse(run('export', '--type', 'paste', '--author', 'bob').stdout);
+
+			assert.deepStrictEqual(files.map((file: { path: string; changes: SerializedChange[] }) => [file.path, file.changes.map(change => change.type)]), [
+				['src/a.ts', [ExtendedRangeType.Paste]],
+				['src/b.ts', []],
+			]);
+			assert.strictEqual(JSON.parse(run('export', 'src/a.ts', '--since', '1970-01-01T00:00:02Z').stdout)[0].changes.length, 0);
+			assert.strictEqual(JSON.parse(run('export', 'src/a.ts', '--until', '1000').stdout)[0].changes.length, 2);
+		});
+
+		test('should find the files with matching changes through the database indexes', () => {
+			// The database is kept in the home directory, so it is pointed at the temporary repository instead
+			const { HOME, USERPROFILE } = process.env;
+			process.env.HOME = process.env.USERPROFILE = repo;
+			try {
+				const workspaceFolder = { uri: URI.file(repo), name: path.basename(repo), index: 0 };
+				const storageBackend = new DatabaseStorageBackend();
+				storageBackend.save(workspaceFolder, URI.file(path.join(repo, 'src/a.ts')), createFileState('const a = 1;\nconst b = 2;\n', [createChange(ExtendedRangeType.Paste, 1, 0, 1, 12)]));
+				storageBackend.save(workspaceFolder, URI.file(path.join(repo, 'src/b.ts')), createFileState('let x;\n', [createChange(ExtendedRangeType.AIGenerated, 0, 0, 0, 6)]));
+
+				assert.deepStrictEqual(run('list', '--storage', 'database', '--format', 'json').stdout.match(/"path": "[^"]+"/g), ['"path": "src/a.ts"', '"path": "src/b.ts"']);
+				assert.deepStrictEqual(run('list', '--storage', 'database', '--format', 'json', '--type', 'PASTE').stdout.match(/"path": "[^"]+"/g), ['"path": "src/a.ts"']);
+			} finally {
+				for (const [name, value] of Object.entries({ HOME, USERPROFILE })) {
+					if (value === undefined) {
+						delete process.env[name];
+					} else {
+						process.env[name] = value;
+					}
+				}
+			}
+		});
+
+		test('should exit with 2 on invalid filters', () => {
+			assert.ok(run('export', '--type', 'pasted').stderr.includes('Invalid type pasted'));
+			assert.ok(run('export', '--since', 'yesterday').stderr.includes('Invalid date yesterday for --since'));
+			assert.strictEqual(run('validate', '--author', 'bob').exitCode, 2);
+		});
+	});
+
+	suite('export Tests', () => {
+		test('should export merged changes as JSON', () => {
+			const files = JSON.parse(run('export', 'src/a.ts').stdout);
+
+			assert.strictEqual(files.length, 1);
+			assert.deepStrictEqual(files[0].changes.map((change: SerializedChange) => change.type), [ExtendedRangeType.AIGenerated, ExtendedRangeType.Paste]);
+		});
+
+		test('should anchor records made before the file last changed', () => {
+			writeFile('src/c.ts', 'let z = 3;\nconst moved = 1;\n');
+			writeRecord('src/c.ts', 'tabd-20250101000000-ffffff.json', createFileState('const moved = 1;\n', [
+				createChange(ExtendedRangeType.AIGenerated, 0, 0, 0, 16, { fingerprint: createFingerprint('const moved = 1;') }),
+			]));
+
+			const files = JSON.parse(run('export', 'src/c.ts').stdout);
+
+			assert.deepStrictEqual(JSON.parse(run('list', 'src/c.ts', '--format', 'json').stdout), [{ path: 'src/c.ts', exists: true, records: 1, staleRecords: 1, changes: 1 }]);
+			assert.deepStrictEqual(files[0].changes.map((change: SerializedChange) => [change.start, change.end]), [[{ line: 1, character: 0 }, { line: 1, character: 16 }]]);
+		});
+
+		test('should export a CSV row per change', () => {
+			const rows = run('export', '--format', 'csv').stdout.trim().split('\n');
+
+			assert.strictEqual(rows.length, 3);
+			assert.ok(rows[0].startsWith('path,startLine,startCharacter,endLine,endCharacter,type,'));
+			assert.ok(rows.includes('src/a.ts,1,0,1,12,PASTE,1000,bob,https://example.com,,,,,'));
+		});
+	});
+
+	suite('diff Tests', () => {
+		setup(() => {
+			// Replace the placeholder Git directory with a repository whose last commit adds the files
+			fs.rmSync(path.join(repo, '.git'), { recursive: true, force: true });
+			const git = (command: string) => execSync(`git -c user.name=test -c user.email=test@example.com ${command}`, { cwd: repo, stdio: 'ignore' });
+			git('init -q');
+			git('commit -q --allow-empty -m initial');
+			git('add -A');
+			git('commit -q -m files');
+		});
+
+		test('should attribute the lines changed in a range', () => {
+			const attribution = JSON.parse(run('diff', 'HEAD~1...HEAD', '--format', 'json').stdout);
+
+			assert.deepStrictEqual(attribution.files.map((file: { path: string }) => file.path), ['src/a.ts', 'src/b.ts']);
+			assert.deepStrictEqual(attribution.totals, { changedLines: 3, byType: { [ExtendedRangeType.AIGenerated]: 1, [ExtendedRangeType.Paste]: 1 } });
+		});
+
+		test('should output review comments', () => {
+			const payload = JSON.parse(run('diff', 'HEAD~1...HEAD', '--format', 'review').stdout);
+
+			assert.deepStrictEqual(payload.comments.map((comment: { path: string; line: number }) => [comment.path, comment.line]), [['src/a.ts', 1], ['src/a.ts', 2]]);
+			assert.ok(payload.body.includes('2 of 3 changed lines (66.7%) in 2 files were AI generated or pasted.'));
+		});
+
+		test('should only read staged files', () => {
+			assert.strictEqual(run('list', '--staged').stdout, '');
+
+			writeFile('src/a.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+			execSync('git add src/a.ts', { cwd: repo, stdio: 'ignore' });
+
+			assert.deepStrictEqual(run('list', '--staged').stdout.trim().split('\n').map(line => line.split('\t')[0]), ['src/a.ts']);
+		});
+
+		test('should check the staged content rather than the working tree', () => {
+			const aContent = fs.readFileSync(path.join(repo, 'src/a.ts'), 'utf8');
+			writeFile('src/a.ts', 'const c = 3;\n' + aContent);
+			execSync('git add src/a.ts', { cwd: repo, stdio: 'ignore' });
+			writeFile('src/a.ts', aContent);
+
+			assert.strictEqual(JSON.parse(run('list', '--staged', '--format', 'json').stdout)[0].staleRecords, 2);
+			assert.strictEqual(JSON.parse(run('list', 'src/a.ts', '--format', 'json').stdout)[0].staleRecords, 0);
+		});
+
+		test('should exit with 2 on invalid ranges', () => {
+			for (const range of ['unknown...HEAD', 'HEAD;ls']) {
+				const result = run('diff', range);
+				assert.strictEqual(result.exitCode, 2, range);
+				assert.ok(result.stderr.includes(`Failed to diff ${range}`));
+			}
+			assert.ok(run('diff').stderr.includes('Missing Git range'));
+		});
+
+		test('should restore console logging after an invalid range', () => {
+			const { warn, debug } = console;
+			assert.strictEqual(run('diff', 'unknown...HEAD').exitCode, 2);
+			assert.strictEqual(console.warn, warn);
+			assert.strictEqual(console.debug, debug);
+		});
+	});
+
+	suite('Usage Tests', () => {
+		test('should exit with 2 on usage errors', () => {
+			for (const args of [[], ['unknown'], ['list', '--format', 'csv'], ['validate', '--max', 'AI_GENERATED'], ['list', '--storage', 'unknown']]) {
+				const result = run(...args);
+				assert.strictEqual(result.exitCode, 2, args.join(' '));
+				assert.ok(result.stderr.includes('Usage: tabd'));
+			}
+		});
+
+		test('should reject files outside the repository', () => {
+			assert.ok(run('list', os.tmpdir()).stderr.includes('is not inside'));
+		});
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { SerializedChange } from '../types';
+import { getAttributionView, isAttributionView } from '../contentViews';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Content Views Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, startCharacter: number, endLine: number, endCharacter: number): SerializedChange => ({
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter },
+		type: type,
+		creationTimestamp: 1000,
+	});
+
+	const content = 'const a = 1;\r\nconst b = 2;\r\nconst c = 3;\r\n';
+	const changes = [
+		createChange(ExtendedRangeType.AIGenerated, 0, 10, 1, 5),
+		createChange(ExtendedRangeType.Paste, 2, 0, 2, 12),
+	];
+
+	suite('getAttributionView Tests', () => {
+		test('should keep only the AI generated code and every line break', () => {
+			assert.strictEqual(getAttributionView(content, changes, 'ai'), '1;\r\nconst\r\n\r\n');
+		});
+
+		test('should keep everything but the AI generated code', () => {
+			assert.strictEqual(getAttributionView(content, changes, 'human'), 'const a = \r\n b = 2;\r\nconst c = 3;\r\n');
+		});
+
+		test('should not let a range past the end of its line mask the lines after it', () => {
+			const staleChanges = [createChange(ExtendedRangeType.AIGenerated, 0, 6, 0, 40)];
+			assert.strictEqual(getAttributionView(content, staleChanges, 'human'), 'const \r\nconst b = 2;\r\nconst c = 3;\r\n');
+		});
+
+		test('should leave content without AI generated code unchanged', () => {
+			assert.strictEqual(getAttributionView(content, [], 'human'), content);
+			assert.strictEqual(getAttributionView(content, [], 'ai'), '\r\n\r\n\r\n');
+		});
+	});
+
+	suite('isAttributionView Tests', () => {
+		test('should only accept known views', () => {
+			assert.ok(isAttributionView('ai'));
+			assert.ok(isAttributionView('human'));
+			assert.ok(!isAttributionView('paste'));
+		});
+	});
+});
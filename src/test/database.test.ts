@@ -0,0 +1,261 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AttributionDatabase } from '../database';
+import { ValidationIssue } from '../migrations';
+import { SerializedFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
+
+suite('Database Test Suite', () => {
+	let databaseDir: string;
+	let databasePath: string;
+
+	const createFileState = (type: ExtendedRangeType, creationTimestamp: number, author?: string): SerializedFileState => ({
+		version: SERIALIZED_FILE_STATE_VERSION,
+		changes: [{
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 5 },
+			type: type,
+			creationTimestamp: creationTimestamp,
+			author: author,
+		}],
+		checksum: 'a'.repeat(64),
+	});
+
+	setup(() => {
+		databaseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabd-database-test-'));
+		databasePath = path.join(databaseDir, 'tabd.db');
+	});
+
+	teardown(() => {
+		fs.rmSync(databaseDir, { recursive: true, force: true });
+	});
+
+	suite('Record Tests', () => {
+		test('should return the records of a file oldest first', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/b.ts', createFileState(ExtendedRangeType.Paste, 2000));
+			database.put('src/a.ts', createFileState(ExtendedRangeType.UserEdit, 3000));
+
+			const records = database.getRecords('src/a.ts');
+
+			assert.strictEqual(records.length, 2);
+			assert.strictEqual(records[0].data.changes[0].creationTimestamp, 1000);
+			assert.strictEqual(records[1].data.changes[0].creationTimestamp, 3000);
+			assert.deepStrictEqual(database.getPaths(), ['src/a.ts', 'src/b.ts']);
+		});
+
+		test('should overwrite records by id', () => {
+			const database = new AttributionDatabase(databasePath);
+			const id = database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+
+			assert.strictEqual(database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 2000), id), id);
+
+			const records = database.getRecords('src/a.ts');
+			assert.strictEqual(records.length, 1);
+			assert.strictEqual(records[0].data.changes[0].creationTimestamp, 2000);
+		});
+
+		test('should delete the records of one file or of every file', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 2000));
+
+			database.delete('src/a.ts');
+			assert.deepStrictEqual(database.getPaths(), ['src/b.ts']);
+
+			database.delete();
+			assert.deepStrictEqual(database.getPaths(), []);
+		});
+
+		test('should move the records of a file to a new path', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 2000));
+
+			database.rename('src/a.ts', 'src/b.ts');
+
+			assert.deepStrictEqual(database.getPaths(), ['src/b.ts']);
+			assert.deepStrictEqual(new AttributionDatabase(databasePath).getRecords('src/b.ts').map(record => record.data.changes[0].creationTimestamp), [1000, 2000]);
+		});
+
+		test('should persist records to a single file', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 2000));
+			database.delete('src/b.ts');
+
+			const reopened = new AttributionDatabase(databasePath);
+
+			assert.deepStrictEqual(fs.readdirSync(databaseDir), ['tabd.db']);
+			assert.deepStrictEqual(reopened.getPaths(), ['src/a.ts']);
+		});
+
+		test('should pick up records appended by another instance', () => {
+			const database = new AttributionDatabase(databasePath);
+			const otherDatabase = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+
+			assert.strictEqual(otherDatabase.getRecords('src/a.ts').length, 1);
+
+			otherDatabase.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 2000));
+
+			assert.strictEqual(database.getRecords('src/a.ts').length, 2);
+		});
+
+		test('should re-read the file when another instance compacts it', () => {
+			const database = new AttributionDatabase(databasePath);
+			const otherDatabase = new AttributionDatabase(databasePath);
+			const id = database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 2000), id);
+
+			otherDatabase.compact();
+			otherDatabase.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 3000));
+
+			assert.deepStrictEqual(database.getPaths(), ['src/a.ts', 'src/b.ts']);
+			assert.strictEqual(database.getRecords('src/a.ts')[0].data.changes[0].creationTimestamp, 2000);
+		});
+
+		test('should start over when the file is removed', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+
+			fs.rmSync(databasePath);
+
+			assert.deepStrictEqual(database.getPaths(), []);
+		});
+
+		test('should skip malformed and partially written entries', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			fs.appendFileSync(databasePath, 'not json\n{"op":"put","id":"x","path":"src/b.ts","savedAt":1,"data":{"version":"one"}}\n{"op":"put"');
+
+			const reopened = new AttributionDatabase(databasePath);
+
+			assert.deepStrictEqual(reopened.getPaths(), ['src/a.ts']);
+		});
+
+		test('should report the problems of records which could not be fully loaded', () => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			fs.appendFileSync(databasePath, '{"op":"put","id":"x","path":"src/a.ts","savedAt":1,"data":{"version":"one"}}\n');
+
+			const issues: ValidationIssue[] = [];
+			assert.strictEqual(database.getRecords('src/a.ts', issues).length, 1);
+			assert.deepStrictEqual([...new Set(issues.map(issue => issue.source))], [`${databasePath}#x`]);
+
+			database.rename('src/a.ts', 'src/b.ts');
+			const movedIssues: ValidationIssue[] = [];
+			database.getRecords('src/b.ts', movedIssues);
+			assert.deepStrictEqual(movedIssues, issues);
+
+			database.delete('src/b.ts');
+			const deletedIssues: ValidationIssue[] = [];
+			database.getRecords('src/b.ts', deletedIssues);
+			assert.deepStrictEqual(deletedIssues, []);
+		});
+
+		test('should drop superseded entries when compacted', () => {
+			const database = new AttributionDatabase(databasePath);
+			const id = database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 2000), id);
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 3000));
+			database.delete('src/b.ts');
+
+			database.compact();
+
+			assert.strictEqual(fs.readFileSync(databasePath, 'utf8').trim().split('\n').length, 1);
+			assert.strictEqual(new AttributionDatabase(databasePath).getRecords('src/a.ts')[0].data.changes[0].creationTimestamp, 2000);
+		});
+
+		test('should keep entries appended by another instance when compacting', () => {
+			const database = new AttributionDatabase(databasePath);
+			const otherDatabase = new AttributionDatabase(databasePath);
+			const id = database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 2000), id);
+			otherDatabase.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 3000));
+
+			database.compact();
+
+			assert.deepStrictEqual(new AttributionDatabase(databasePath).getPaths(), ['src/a.ts', 'src/b.ts']);
+			assert.deepStrictEqual(fs.readdirSync(databaseDir), ['tabd.db']);
+		});
+
+		test('should take over a lock left behind by another window', () => {
+			const database = new AttributionDatabase(databasePath);
+			const lockPath = `${databasePath}.lock`;
+			fs.writeFileSync(lockPath, '');
+			const lockTime = new Date(Date.now() - 60 * 1000);
+			fs.utimesSync(lockPath, lockTime, lockTime);
+
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000));
+
+			assert.deepStrictEqual(database.getPaths(), ['src/a.ts']);
+			assert.ok(!fs.existsSync(lockPath));
+		});
+	});
+
+	suite('Query Tests', () => {
+		const createDatabase = (): AttributionDatabase => {
+			const database = new AttributionDatabase(databasePath);
+			database.put('src/a.ts', createFileState(ExtendedRangeType.AIGenerated, 1000, 'alice'));
+			database.put('src/a.ts', createFileState(ExtendedRangeType.Paste, 2000, 'bob'));
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 3000, 'bob'));
+			return database;
+		};
+
+		test('should query by path', () => {
+			assert.deepStrictEqual(createDatabase().query({ path: 'src/b.ts' }).map(result => result.path), ['src/b.ts']);
+		});
+
+		test('should query by type', () => {
+			const results = createDatabase().query({ type: ExtendedRangeType.AIGenerated });
+
+			assert.deepStrictEqual(results.map(result => result.path), ['src/a.ts', 'src/b.ts']);
+			assert.ok(results.every(result => result.changes.every(change => change.type === ExtendedRangeType.AIGenerated)));
+		});
+
+		test('should query by author', () => {
+			const results = createDatabase().query({ author: 'bob' });
+
+			assert.deepStrictEqual(results.map(result => result.changes[0].creationTimestamp), [2000, 3000]);
+		});
+
+		test('should query by time', () => {
+			const results = createDatabase().query({ since: 1500, until: 2500 });
+
+			assert.strictEqual(results.length, 1);
+			assert.strictEqual(results[0].changes[0].type, ExtendedRangeType.Paste);
+		});
+
+		test('should query records whose changes span the queried time', () => {
+			const database = new AttributionDatabase(databasePath);
+			const fileState = createFileState(ExtendedRangeType.AIGenerated, 1000);
+			fileState.changes.push({ ...fileState.changes[0], creationTimestamp: 3000 });
+			database.put('src/a.ts', fileState);
+
+			assert.strictEqual(database.query({ since: 1500, until: 2500 }).length, 0);
+			assert.deepStrictEqual(database.query({ since: 2500 }).map(result => result.changes.map(change => change.creationTimestamp)), [[3000]]);
+			assert.deepStrictEqual(database.query({ until: 1000 }).map(result => result.changes.map(change => change.creationTimestamp)), [[1000]]);
+		});
+
+		test('should query by time after records are overwritten or deleted', () => {
+			const database = createDatabase();
+			const [record] = database.getRecords('src/b.ts');
+			database.put('src/b.ts', createFileState(ExtendedRangeType.AIGenerated, 4000), record.id);
+			database.delete('src/a.ts');
+
+			assert.strictEqual(database.query({ until: 3500 }).length, 0);
+			assert.deepStrictEqual(database.query({ since: 3500 }).map(result => result.path), ['src/b.ts']);
+		});
+
+		test('should combine query fields', () => {
+			const database = createDatabase();
+
+			assert.strictEqual(database.query({ type: ExtendedRangeType.AIGenerated, author: 'bob', path: 'src/a.ts' }).length, 0);
+			assert.strictEqual(database.query({ type: ExtendedRangeType.AIGenerated, author: 'alice' }).length, 1);
+		});
+	});
+});
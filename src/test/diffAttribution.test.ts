@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { SerializedChange } from '../types';
+import { buildDiffAttribution, buildReviewCommentPayload, describeAnnotation, formatDiffAttributionMarkdown, parseDiffHunks } from '../diffAttribution';
+import { normalizeRemoteUrl } from '../git';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Diff Attribution Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, startCharacter: number, endLine: number, endCharacter: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	suite('parseDiffHunks Tests', () => {
+		test('should parse the added lines of each file', () => {
+			const diffOutput = [
+				'diff --git a/src/a.ts b/src/a.ts',
+				'index 1111111..2222222 100644',
+				'--- a/src/a.ts',
+				'+++ b/src/a.ts',
+				'@@ -1,0 +2,3 @@ function a() {',
+				'+one',
+				'+two',
+				'+three',
+				'@@ -10 +12 @@',
+				'-old',
+				'+new',
+				'@@ -20,2 +21,0 @@',
+				'-removed',
+				'-removed',
+				'diff --git a/src/removed.ts b/src/removed.ts',
+				'--- a/src/removed.ts',
+				'+++ /dev/null',
+				'@@ -1 +0,0 @@',
+				'-gone',
+				'diff --git a/src/new file.ts b/src/new file.ts',
+				'--- /dev/null',
+				'+++ "b/src/new\\tfile.ts"',
+				'@@ -0,0 +1 @@',
+				'+created',
+			].join('\n');
+
+			assert.deepStrictEqual(parseDiffHunks(diffOutput), [
+				{ path: 'src/a.ts', startLine: 1, lineCount: 3 },
+				{ path: 'src/a.ts', startLine: 11, lineCount: 1 },
+				{ path: 'src/new\tfile.ts', startLine: 0, lineCount: 1 },
+			]);
+		});
+	});
+
+	suite('buildDiffAttribution Tests', () => {
+		const hunks = [{ path: 'src/a.ts', startLine: 1, lineCount: 4 }, { path: 'src/b.ts', startLine: 0, lineCount: 2 }];
+		const files = [{
+			path: 'src/a.ts',
+			changes: [
+				createChange(ExtendedRangeType.AIGenerated, 0, 0, 3, 0, { aiName: 'Copilot', aiModel: 'gpt-4o', author: 'alice' }),
+				createChange(ExtendedRangeType.UserEdit, 3, 0, 3, 10),
+				createChange(ExtendedRangeType.Paste, 4, 0, 4, 5, { pasteUrl: 'https://example.com/answer', pasteTitle: 'An answer' }),
+			],
+		}];
+
+		test('should only attribute changed lines from the reviewed types', () => {
+			const attribution = buildDiffAttribution('main...HEAD', hunks, files);
+
+			assert.deepStrictEqual(attribution.totals, { changedLines: 6, byType: { [ExtendedRangeType.AIGenerated]: 2, [ExtendedRangeType.Paste]: 1 } });
+			assert.deepStrictEqual(attribution.files.map(file => [file.path, file.changedLines]), [['src/a.ts', 4], ['src/b.ts', 2]]);
+		});
+
+		test('should group consecutive lines with the same attribution', () => {
+			const attribution = buildDiffAttribution('main...HEAD', hunks, files);
+
+			assert.deepStrictEqual(attribution.annotations.map(annotation => [annotation.path, annotation.startLine, annotation.endLine, annotation.type]), [
+				['src/a.ts', 2, 3, ExtendedRangeType.AIGenerated],
+				['src/a.ts', 5, 5, ExtendedRangeType.Paste],
+			]);
+		});
+
+		test('should describe where lines came from', () => {
+			const [ai, paste] = buildDiffAttribution('main...HEAD', hunks, files).annotations;
+
+			assert.strictEqual(describeAnnotation(ai), '**AI Generated** (2 lines) by Copilot (gpt-4o), added by alice.');
+			assert.strictEqual(describeAnnotation(paste), '**Paste** (1 line) from [An answer](https://example.com/answer).');
+		});
+	});
+
+	suite('Output Tests', () => {
+		const attribution = buildDiffAttribution('main...HEAD', [{ path: 'src/a.ts', startLine: 0, lineCount: 4 }], [{
+			path: 'src/a.ts',
+			changes: [createChange(ExtendedRangeType.AIGenerated, 0, 0, 1, 5, { aiName: 'Copilot' })],
+		}], { remoteUrl: 'https://github.com/owner/repo', commit: 'abc123' });
+
+		test('should summarize in Markdown with links to the lines', () => {
+			const markdown = formatDiffAttributionMarkdown(attribution);
+
+			assert.ok(markdown.includes('2 of 4 changed lines (50.0%) in 1 file were AI generated or pasted.'));
+			assert.ok(markdown.includes('| AI Generated | 2 | 50.0% |'));
+			assert.ok(markdown.includes('[src/a.ts:1-2](https://github.com/owner/repo/blob/abc123/src/a.ts#L1-L2)'));
+		});
+
+		test('should build multi-line review comments on the new side', () => {
+			const payload = buildReviewCommentPayload(attribution);
+
+			assert.strictEqual(payload.event, 'COMMENT');
+			assert.deepStrictEqual(payload.comments, [{ path: 'src/a.ts', line: 2, side: 'RIGHT', start_line: 1, start_side: 'RIGHT', body: '**AI Generated** (2 lines) by Copilot.' }]);
+		});
+
+		test('should say when nothing was attributed', () => {
+			const empty = buildDiffAttribution('main...HEAD', [{ path: 'src/a.ts', startLine: 0, lineCount: 1 }], []);
+
+			assert.strictEqual(formatDiffAttributionMarkdown(empty), "## Tab'd Attribution for `main...HEAD`\n\n0 of 1 changed line (0.0%) in 1 file were AI generated or pasted.\n");
+			assert.deepStrictEqual(buildReviewCommentPayload(empty).comments, []);
+		});
+	});
+
+	suite('normalizeRemoteUrl Tests', () => {
+		test('should convert remotes to browser URLs', () => {
+			assert.strictEqual(normalizeRemoteUrl('git@github.com:owner/repo.git'), 'https://github.com/owner/repo');
+			assert.strictEqual(normalizeRemoteUrl('https://github.com/owner/repo.git'), 'https://github.com/owner/repo');
+			assert.strictEqual(normalizeRemoteUrl('/srv/git/repo'), '/srv/git/repo');
+		});
+	});
+});
@@ -5,7 +5,9 @@ import * as fs from 'fs';
 import * as os from 'os';
 import { ExtendedRange, ExtendedRangeType, ExtendedRangeOptions, mergeRangesSequentially, mergeUserEdits } from '../extendedRange';
 import { getUpdatedPosition, getUpdatedRanges } from '../positionalTracking';
-import { shouldProcessFile, fsPath, uniqueFileName, getStorageDirectory, getLogDirectory } from '../utils';
+import { fsPath, uniqueFileName } from '../utils';
+import { getConfiguredStorageBackend, shouldProcessFile } from '../workspace';
+import { FileStorageBackend } from '../storage';
 import { PasteEditProvider } from '../pasteEditProvider';
 import { getCurrentGitUser, getGitNotesNamespace } from '../git';
 
@@ -272,11 +274,6 @@ suite('Extension Test Suite', () => {
 				index: 0
 			};
 
-			// Create mock document
-			const mockDocument = {
-				uri: vscode.Uri.file('/test/workspace/src/file.ts')
-			} as vscode.TextDocument;
-
 			// Test with repository storage (mocked config)
 			const origGet = vscode.workspace.getConfiguration;
 			vscode.workspace.getConfiguration = (section?: string) => {
@@ -291,8 +288,9 @@ suite('Extension Test Suite', () => {
 			};
 
 			try {
-				const storageDir = getStorageDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(storageDir.includes('.tabd'));
+				const storageBackend = getConfiguredStorageBackend();
+				assert.ok(storageBackend instanceof FileStorageBackend);
+				assert.ok(storageBackend.getStorageDirectory(mockWorkspaceFolder).includes('.tabd'));
 			} finally {
 				vscode.workspace.getConfiguration = origGet;
 			}
@@ -315,7 +313,7 @@ suite('Extension Test Suite', () => {
 
 			try {
 				// This will likely throw in test environment without git
-				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				assert.ok(namespace.startsWith('tabd__'));
 			} catch (error) {
 				// Expected in test environment without git setup
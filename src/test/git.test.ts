@@ -1,6 +1,13 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { getCurrentGitUser, getGitNotesNamespace } from '../git';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { getCurrentGitUser, getGitNotesNamespace, getGitNotesNamespaces, getCommitAncestry, loadFromGitNotes, getFileHistoryContents, findEquivalentCommit, copyOrphanedGitNotes, installGitHooks, installPolicyHook, isPolicyHookInstalled, getStagedFiles, getStagedFileContent, renameGitNotes, listGitNotesFiles, clearGitNotes, consumeReplayPending, getGitPath, POLICY_FILE, REPLAY_PENDING_FILE } from '../git';
+import { generateDataChecksum } from '../utils';
+import { SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
 
 suite('Git Integration Test Suite', () => {
 
@@ -47,7 +54,7 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				
 				// Should start with tabd prefix
 				assert.ok(namespace.startsWith('tabd__'));
@@ -73,7 +80,7 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				
 				// Should handle special characters by converting them
 				assert.ok(namespace.startsWith('tabd__'));
@@ -98,8 +105,8 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace1 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
-				const namespace2 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace1 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
+				const namespace2 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				
 				// Should be identical for the same file
 				assert.strictEqual(namespace1, namespace2);
@@ -125,8 +132,8 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace1 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument1);
-				const namespace2 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument2);
+				const namespace1 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument1.uri);
+				const namespace2 = getGitNotesNamespace(mockWorkspaceFolder, mockDocument2.uri);
 				
 				// Should be different for different files
 				assert.notStrictEqual(namespace1, namespace2);
@@ -148,7 +155,7 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				
 				// Should handle nested paths correctly
 				assert.ok(namespace.startsWith('tabd__'));
@@ -187,7 +194,7 @@ suite('Git Integration Test Suite', () => {
 			} as vscode.TextDocument;
 
 			try {
-				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument);
+				const namespace = getGitNotesNamespace(mockWorkspaceFolder, mockDocument.uri);
 				
 				// Should handle long paths by hashing them
 				assert.ok(namespace.length < 200); // Should be reasonable length due to hashing
@@ -197,4 +204,280 @@ suite('Git Integration Test Suite', () => {
 			}
 		});
 	});
+
+	suite('Git Notes History Tests', () => {
+		let repoDir: string;
+		let workspaceFolder: vscode.WorkspaceFolder;
+		let uri: vscode.Uri;
+
+		const git = (command: string): string => execSync(`git ${command}`, { cwd: repoDir, encoding: 'utf8' }).trim();
+
+		const addNote = (creationTimestamp: number) => {
+			const notePath = path.join(repoDir, '..', `note-${creationTimestamp}.json`);
+			fs.writeFileSync(notePath, JSON.stringify({
+				version: SERIALIZED_FILE_STATE_VERSION,
+				changes: [{
+					start: { line: 0, character: 0 },
+					end: { line: 0, character: 5 },
+					type: ExtendedRangeType.AIGenerated,
+					creationTimestamp: creationTimestamp,
+				}],
+			}));
+			git(`notes --ref=${getGitNotesNamespace(workspaceFolder, uri)} add -f -F "${notePath}" HEAD`);
+		};
+
+		setup(function () {
+			try {
+				execSync('git --version');
+			} catch (error) {
+				this.skip();
+			}
+
+			repoDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tabd-git-test-')), 'repo');
+			fs.mkdirSync(repoDir);
+			git('init -q -b main');
+			git('config user.name "Test User"');
+			git('config user.email "test@example.com"');
+			fs.writeFileSync(path.join(repoDir, 'file.ts'), 'hello\n');
+			git('add file.ts');
+			git('commit -q -m initial');
+
+			workspaceFolder = { uri: vscode.Uri.file(repoDir), name: 'repo', index: 0 };
+			uri = vscode.Uri.file(path.join(repoDir, 'file.ts'));
+		});
+
+		teardown(() => {
+			if (repoDir) {
+				fs.rmSync(path.dirname(repoDir), { recursive: true, force: true });
+			}
+		});
+
+		test('should list commits reachable from HEAD newest first', () => {
+			const firstCommit = git('rev-parse HEAD');
+			git('commit -q --allow-empty -m second');
+			const secondCommit = git('rev-parse HEAD');
+
+			assert.deepStrictEqual(getCommitAncestry(workspaceFolder), [secondCommit, firstCommit]);
+		});
+
+		test('should list the ancestry again once HEAD moves', () => {
+			const firstCommit = git('rev-parse HEAD');
+			assert.deepStrictEqual(getCommitAncestry(workspaceFolder), [firstCommit]);
+
+			git('commit -q --allow-empty -m second');
+
+			assert.deepStrictEqual(getCommitAncestry(workspaceFolder), [git('rev-parse HEAD'), firstCommit]);
+		});
+
+		test('should load the notes of every commit in the history of HEAD', () => {
+			addNote(1000);
+			git('commit -q --allow-empty -m second');
+			addNote(2000);
+
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, uri).map(note => note.changes[0].creationTimestamp), [1000, 2000]);
+		});
+
+		test('should find namespaces for the file on every branch', () => {
+			addNote(1000);
+			git('checkout -q -b feature');
+			addNote(2000);
+
+			const namespaces = getGitNotesNamespaces(workspaceFolder, uri);
+
+			assert.strictEqual(namespaces.length, 2);
+			assert.ok(namespaces.some(namespace => namespace.startsWith('tabd__main__')));
+			assert.ok(namespaces.some(namespace => namespace.startsWith('tabd__feature__')));
+		});
+
+		test('should load notes from earlier commits', () => {
+			addNote(1000);
+			git('commit -q --allow-empty -m second');
+
+			const notes = loadFromGitNotes(workspaceFolder, uri);
+
+			assert.strictEqual(notes.length, 1);
+			assert.strictEqual(notes[0].changes[0].creationTimestamp, 1000);
+		});
+
+		test('should only load notes from another branch once it is merged', () => {
+			addNote(1000);
+			git('checkout -q -b feature');
+			git('commit -q --allow-empty -m feature');
+			addNote(2000);
+			git('checkout -q main');
+			git('commit -q --allow-empty -m diverge');
+
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, uri).map(note => note.changes[0].creationTimestamp), [1000]);
+
+			git('merge -q --no-edit feature');
+
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, uri).map(note => note.changes[0].creationTimestamp), [1000, 2000]);
+		});
+
+		test('should move notes to the namespace of a renamed file', () => {
+			addNote(1000);
+			git('mv file.ts renamed.ts');
+			const renamedUri = vscode.Uri.file(path.join(repoDir, 'renamed.ts'));
+
+			renameGitNotes(workspaceFolder, uri, renamedUri);
+
+			assert.strictEqual(loadFromGitNotes(workspaceFolder, uri).length, 0);
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, renamedUri).map(note => note.changes[0].creationTimestamp), [1000]);
+		});
+
+		test('should list the files with notes', () => {
+			fs.writeFileSync(path.join(repoDir, 'other.ts'), 'other\n');
+			assert.deepStrictEqual(listGitNotesFiles(workspaceFolder), []);
+
+			addNote(1000);
+
+			assert.deepStrictEqual(listGitNotesFiles(workspaceFolder).map(uri => uri.fsPath), [uri.fsPath]);
+		});
+
+		test('should clear the notes of a file', () => {
+			addNote(1000);
+
+			clearGitNotes(workspaceFolder, uri);
+
+			assert.strictEqual(loadFromGitNotes(workspaceFolder, uri).length, 0);
+		});
+
+		test('should only clear the notes of a file on other branches when asked to', () => {
+			addNote(1000);
+			git('checkout -q -b feature');
+			addNote(2000);
+
+			clearGitNotes(workspaceFolder, uri);
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, uri).map(note => note.changes[0].creationTimestamp), [1000]);
+
+			clearGitNotes(workspaceFolder, uri, true);
+			assert.strictEqual(loadFromGitNotes(workspaceFolder, uri).length, 0);
+		});
+
+		const cherryPickFeatureCommit = (noteTimestamp?: number): string => {
+			git('checkout -q -b feature');
+			fs.writeFileSync(path.join(repoDir, 'other.ts'), 'other\n');
+			git('add other.ts');
+			git('commit -q -m feature');
+			if (noteTimestamp !== undefined) {
+				addNote(noteTimestamp);
+			}
+			const featureCommit = git('rev-parse HEAD');
+			git('checkout -q main');
+			git('commit -q --allow-empty -m diverge');
+			git(`cherry-pick ${featureCommit}`);
+			return featureCommit;
+		};
+
+		test('should get earlier versions of a file, including those only in the reflog', async () => {
+			fs.writeFileSync(path.join(repoDir, 'file.ts'), 'hello world\n');
+			git('commit -q -a -m second');
+			git('reset -q --hard HEAD~1');
+
+			const contents = await getFileHistoryContents(workspaceFolder, 'file.ts');
+
+			assert.strictEqual(contents.get(generateDataChecksum('hello\n')), 'hello\n');
+			assert.strictEqual(contents.get(generateDataChecksum('hello world\n')), 'hello world\n');
+		});
+
+		test('should read every version of a file through one process', async () => {
+			for (let version = 1; version <= 20; version++) {
+				fs.writeFileSync(path.join(repoDir, 'file.ts'), `version ${version}\n`.repeat(version));
+				git(`commit -q -a -m version-${version}`);
+			}
+
+			const contents = await getFileHistoryContents(workspaceFolder, 'file.ts');
+
+			assert.strictEqual(contents.size, 21);
+			assert.strictEqual(contents.get(generateDataChecksum('version 20\n'.repeat(20))), 'version 20\n'.repeat(20));
+		});
+
+		test('should find the commit a cherry-picked commit became', () => {
+			const featureCommit = cherryPickFeatureCommit();
+			const ancestry = new Set(getCommitAncestry(workspaceFolder));
+
+			assert.strictEqual(findEquivalentCommit(workspaceFolder, featureCommit, ancestry), git('rev-parse HEAD'));
+		});
+
+		test('should not find an equivalent for commits which were not copied', () => {
+			git('checkout -q -b feature');
+			git('commit -q --allow-empty -m feature');
+			const featureCommit = git('rev-parse HEAD');
+			git('checkout -q main');
+
+			assert.strictEqual(findEquivalentCommit(workspaceFolder, featureCommit, new Set(getCommitAncestry(workspaceFolder))), undefined);
+		});
+
+		test('should copy notes from cherry-picked commits onto their copies', () => {
+			cherryPickFeatureCommit(3000);
+
+			assert.strictEqual(loadFromGitNotes(workspaceFolder, uri).length, 0);
+			assert.strictEqual(copyOrphanedGitNotes(workspaceFolder), 1);
+			assert.deepStrictEqual(loadFromGitNotes(workspaceFolder, uri).map(note => note.changes[0].creationTimestamp), [3000]);
+			assert.strictEqual(copyOrphanedGitNotes(workspaceFolder), 0);
+		});
+
+		test('should install Git hooks once, keeping existing hooks', () => {
+			const hooksDir = getGitPath(workspaceFolder, 'hooks');
+			fs.mkdirSync(hooksDir, { recursive: true });
+			fs.writeFileSync(path.join(hooksDir, 'post-merge'), '#!/bin/sh\necho existing\n');
+
+			const installedHooks = installGitHooks(workspaceFolder);
+
+			assert.ok(installedHooks.includes('post-rewrite'));
+			assert.ok(installedHooks.includes('post-merge'));
+			assert.ok(fs.readFileSync(path.join(hooksDir, 'post-merge'), 'utf8').startsWith('#!/bin/sh\necho existing\n'));
+			assert.ok(git('config --get-all notes.rewriteRef').split('\n').includes('refs/notes/tabd__*'));
+
+			assert.deepStrictEqual(installGitHooks(workspaceFolder), []);
+			assert.strictEqual(git('config --get-all notes.rewriteRef').split('\n').length, 1);
+		});
+
+		test('should install the policy hook alongside the other hooks, updating it in place', () => {
+			installGitHooks(workspaceFolder);
+			assert.strictEqual(isPolicyHookInstalled(workspaceFolder), false);
+
+			assert.strictEqual(installPolicyHook(workspaceFolder, '/old/out/cli.js', 'repository', [{ types: ['PASTE'] }]), true);
+			assert.strictEqual(installPolicyHook(workspaceFolder, '/new/out/cli.js', 'repository', []), true);
+			assert.strictEqual(installPolicyHook(workspaceFolder, '/new/out/cli.js', 'repository', []), false);
+
+			const hook = fs.readFileSync(path.join(getGitPath(workspaceFolder, 'hooks'), 'pre-commit'), 'utf8');
+			assert.ok(isPolicyHookInstalled(workspaceFolder));
+			assert.ok(hook.includes(`node '/new/out/cli.js' validate --staged --repo '${repoDir}' --storage 'repository'`));
+			assert.ok(!hook.includes('/old/out/cli.js'));
+			assert.deepStrictEqual(JSON.parse(fs.readFileSync(getGitPath(workspaceFolder, POLICY_FILE), 'utf8')), []);
+		});
+
+		test('should pass paths to the policy hook as they are, whatever characters they contain', () => {
+			const cliDir = path.join(path.dirname(repoDir), 'it\'s "$HOME" `id`');
+			fs.mkdirSync(cliDir);
+			const cliPath = path.join(cliDir, 'cli.js');
+			fs.writeFileSync(cliPath, `require('fs').writeFileSync(${JSON.stringify(path.join(path.dirname(repoDir), 'args.json'))}, JSON.stringify(process.argv.slice(2)));`);
+
+			installPolicyHook(workspaceFolder, cliPath, 'my storage', []);
+			execSync(`sh "${path.join(getGitPath(workspaceFolder, 'hooks'), 'pre-commit')}"`, { cwd: repoDir });
+
+			const args = JSON.parse(fs.readFileSync(path.join(path.dirname(repoDir), 'args.json'), 'utf8'));
+			assert.deepStrictEqual(args.slice(0, 6), ['validate', '--staged', '--repo', repoDir, '--storage', 'my storage']);
+		});
+
+		test('should list the staged files', () => {
+			fs.writeFileSync(path.join(repoDir, 'file.ts'), 'changed\n');
+			fs.writeFileSync(path.join(repoDir, 'unstaged.ts'), 'new\n');
+			git('add file.ts');
+
+			assert.deepStrictEqual(getStagedFiles(workspaceFolder), ['file.ts']);
+			assert.strictEqual(getStagedFileContent(workspaceFolder, 'file.ts'), 'changed\n');
+			assert.strictEqual(getStagedFileContent(workspaceFolder, 'unstaged.ts'), undefined);
+		});
+
+		test('should consume the replay marker written by the hooks', () => {
+			assert.strictEqual(consumeReplayPending(workspaceFolder), false);
+
+			fs.writeFileSync(getGitPath(workspaceFolder, REPLAY_PENDING_FILE), 'post-rewrite rebase\n');
+
+			assert.strictEqual(consumeReplayPending(workspaceFolder), true);
+			assert.strictEqual(consumeReplayPending(workspaceFolder), false);
+		});
+	});
 });
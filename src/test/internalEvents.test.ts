@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import { PendingTextEdit, findMatchingTextEdit, formatInternalEventIssues, getInlineCompletionUri, getInternalEventModel, INTERNAL_EVENT_VERSION, parseInternalEvent } from '../internalEvents';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Internal Events Test Suite', () => {
+	const uri = { $mid: 1, path: '/test/workspace/src/a.ts', scheme: 'file' };
+	const textEdit = (line: number, newText: string) => ({
+		range: [{ line, character: 0 }, { line, character: 0 }],
+		newText,
+	});
+
+	suite('parseInternalEvent Tests', () => {
+		test('should parse an event sent as a JSON string', () => {
+			const { event, issues } = parseInternalEvent(JSON.stringify({
+				_type: 'onBeforeCreateFileTool',
+				_extensionName: 'GitHub Copilot Chat',
+				_timestamp: 1000,
+				filePath: '/test/workspace/src/a.ts',
+				insertText: 'const a = 1;',
+			}));
+
+			assert.deepStrictEqual(issues, []);
+			assert.strictEqual(event?._type, 'onBeforeCreateFileTool');
+			assert.strictEqual(event?.insertText, 'const a = 1;');
+		});
+
+		test('should accept edits of several ranges of several files', () => {
+			const { event, issues } = parseInternalEvent(JSON.stringify({
+				_type: 'onAfterApplyEdit',
+				_extensionName: 'Windsurf',
+				edit: [
+					[uri, [textEdit(0, 'a'), textEdit(3, 'b')]],
+					[{ ...uri, path: '/test/workspace/src/b.ts' }, [textEdit(1, 'c')]],
+				],
+			}));
+
+			assert.deepStrictEqual(issues, []);
+			assert.ok(event?._type === 'onAfterApplyEdit');
+			assert.deepStrictEqual(event.edit?.map(([entryUri, edits]) => [entryUri.path, edits.length]), [['/test/workspace/src/a.ts', 2], ['/test/workspace/src/b.ts', 1]]);
+		});
+
+		test('should accept edits sent as the file and the text inserted', () => {
+			for (const _type of ['onBeforeApplyEdit', 'onAfterApplyEdit'] as const) {
+				// As sent by the code patched into Windsurf
+				const { event, issues } = parseInternalEvent(JSON.stringify({
+					"filePath": 'file:///test/workspace/src/a.ts',
+					"insertText": 'const a = 1;',
+					"_extensionName": "Windsurf",
+					"_timestamp": 1000,
+					"_type": _type,
+				}));
+
+				assert.deepStrictEqual(issues, [], _type);
+				assert.ok(event?._type === _type && !event.edit);
+			}
+		});
+
+		test('should require either a workspace edit or the text inserted', () => {
+			const { issues } = parseInternalEvent({ _type: 'onBeforeApplyEdit', filePath: '/test/workspace/src/a.ts' });
+
+			assert.deepStrictEqual(issues.map(issue => issue.field), ['edit']);
+		});
+
+		test('should keep the fields of inline completion items', () => {
+			const { event } = parseInternalEvent({
+				_type: 'inlineCompletion',
+				insertText: 'return a;',
+				range: [{ line: 2, character: 4 }, { line: 2, character: 4 }],
+				filterText: 'return',
+			});
+
+			assert.ok(event?._type === 'inlineCompletion');
+			assert.deepStrictEqual(event.range?.[0], { line: 2, character: 4 });
+		});
+
+		test('should reject invalid JSON', () => {
+			const { event, issues } = parseInternalEvent('{');
+
+			assert.strictEqual(event, undefined);
+			assert.strictEqual(issues.length, 1);
+			assert.match(issues[0].message, /^invalid JSON/);
+		});
+
+		test('should reject unknown types', () => {
+			const { event, issues } = parseInternalEvent(JSON.stringify({ _type: 'onSomethingElse', _extensionName: 'Kiro' }));
+
+			assert.strictEqual(event, undefined);
+			assert.deepStrictEqual(issues, [{ source: 'Kiro', field: '_type', message: 'unknown type "onSomethingElse"' }]);
+		});
+
+		test('should reject events from a newer version', () => {
+			const { issues } = parseInternalEvent({ _type: 'inlineCompletion', _version: INTERNAL_EVENT_VERSION + 1 });
+
+			assert.deepStrictEqual(issues.map(issue => issue.field), ['_version']);
+		});
+
+		test('should report every field which does not match the schema', () => {
+			const { event, issues } = parseInternalEvent({
+				_type: 'onBeforeApplyEdit',
+				insertText: { value: 'snippet' },
+				edit: [[{ scheme: 'file' }, [{ range: [{ line: -1, character: 0 }], newText: 1 }]]],
+			});
+
+			assert.strictEqual(event, undefined);
+			assert.deepStrictEqual(issues.map(issue => issue.field), ['insertText', 'edit[0][0].path', 'edit[0][1][0].range', 'edit[0][1][0].newText']);
+			assert.strictEqual(
+				formatInternalEventIssues(issues),
+				'insertText expected a string; edit[0][0].path expected a string; edit[0][1][0].range expected a [start, end] range; edit[0][1][0].newText expected a string',
+			);
+		});
+
+		test('should require the file of tool events', () => {
+			const { issues } = parseInternalEvent({ _type: 'onAfterReplaceStringTool', insertText: 'a', oldText: 'b' });
+
+			assert.deepStrictEqual(issues.map(issue => issue.field), ['filePath']);
+		});
+
+		test('should require the arguments of commands to be an array', () => {
+			const { issues } = parseInternalEvent({ _type: 'inlineCompletion', command: { arguments: { uri: 'file:///a.ts' } } });
+
+			assert.deepStrictEqual(issues.map(issue => issue.field), ['command.arguments']);
+		});
+	});
+
+	suite('findMatchingTextEdit Tests', () => {
+		const edits = [
+			{ uri: 'file:///a.ts', ...textEdit(0, 'a\n') },
+			{ uri: 'file:///a.ts', ...textEdit(4, 'a\n') },
+			{ uri: 'file:///b.ts', ...textEdit(4, 'b') },
+		] as PendingTextEdit[];
+		const change = (line: number, text: string) => ({ range: { start: { line, character: 0 }, end: { line, character: 0 } }, text });
+
+		test('should prefer the edit at the same range, ignoring line endings', () => {
+			assert.strictEqual(findMatchingTextEdit(edits, 'file:///a.ts', change(4, 'a\r\n')), 1);
+		});
+
+		test('should fall back to an edit with the same text in the same file', () => {
+			assert.strictEqual(findMatchingTextEdit(edits, 'file:///a.ts', change(2, 'a\n')), 0);
+			assert.strictEqual(findMatchingTextEdit(edits, 'file:///a.ts', change(4, 'b')), -1);
+		});
+	});
+
+	suite('getInternalEventModel Tests', () => {
+		test('should prefer the model id of the event', () => {
+			assert.strictEqual(getInternalEventModel({ _type: 'onBeforeApplyPatchTool', filePath: 'a.ts', _modelId: 'gpt-4.1' }), 'gpt-4.1');
+		});
+
+		test('should fall back to the telemetry of inline completions', () => {
+			assert.strictEqual(getInternalEventModel({
+				_type: 'inlineCompletion',
+				command: { arguments: [{ telemetry: { properties: { engineName: 'copilot-codex' } } }] },
+			}), 'copilot-codex');
+			assert.strictEqual(getInternalEventModel({ _type: 'inlineCompletion' }), '');
+		});
+	});
+
+	suite('getInlineCompletionUri Tests', () => {
+		test('should read the URI from the command arguments', () => {
+			assert.strictEqual(getInlineCompletionUri({ _type: 'inlineCompletion', command: { arguments: [{ uri: 'file:///a.ts' }] } }), 'file:///a.ts');
+		});
+
+		test('should ignore arguments which are not objects or URIs which are not strings', () => {
+			assert.strictEqual(getInlineCompletionUri({ _type: 'inlineCompletion', command: { arguments: ['file:///a.ts'] } }), undefined);
+			assert.strictEqual(getInlineCompletionUri({ _type: 'inlineCompletion', command: { arguments: [{ uri: { path: '/a.ts' } }] } }), undefined);
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { SerializedChange } from '../types';
+import { describeChange, describeLineAttribution, formatRelativeTime, getLineAttribution } from '../lineAttribution';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Line Attribution Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, endLine: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: 0 },
+		end: { line: endLine, character: 0 },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	const hour = 60 * 60 * 1000;
+
+	suite('getLineAttribution Tests', () => {
+		test('should prefer AI generated changes, then pastes, then the most recent change', () => {
+			const ai = createChange(ExtendedRangeType.AIGenerated, 0, 3);
+			const paste = createChange(ExtendedRangeType.Paste, 2, 5);
+			const olderEdit = createChange(ExtendedRangeType.UserEdit, 5, 7, { creationTimestamp: 500 });
+			const newerEdit = createChange(ExtendedRangeType.UserEdit, 6, 7, { creationTimestamp: 2000 });
+
+			const attribution = getLineAttribution([olderEdit, newerEdit, paste, ai, createChange(ExtendedRangeType.Unknown, 9, 9)]);
+
+			assert.deepStrictEqual([...attribution.keys()].sort(), [0, 1, 2, 3, 4, 5, 6]);
+			assert.strictEqual(attribution.get(2), ai);
+			assert.strictEqual(attribution.get(3), paste);
+			assert.strictEqual(attribution.get(5), olderEdit);
+			assert.strictEqual(attribution.get(6), newerEdit);
+		});
+	});
+
+	suite('formatRelativeTime Tests', () => {
+		test('should use the largest whole unit', () => {
+			assert.strictEqual(formatRelativeTime(0, 30 * 1000), 'just now');
+			assert.strictEqual(formatRelativeTime(0, 60 * 1000), '1 minute ago');
+			assert.strictEqual(formatRelativeTime(0, 2.5 * hour), '2 hours ago');
+			assert.strictEqual(formatRelativeTime(0, 3 * 24 * hour), '3 days ago');
+			assert.strictEqual(formatRelativeTime(0, 400 * 24 * hour), '1 year ago');
+		});
+	});
+
+	suite('describeLineAttribution Tests', () => {
+		test('should describe AI generated lines by their AI name and model', () => {
+			const change = createChange(ExtendedRangeType.AIGenerated, 0, 1, { aiName: 'Copilot', aiModel: 'claude-sonnet', creationTimestamp: 0 });
+
+			assert.strictEqual(describeLineAttribution(change, 3 * 24 * hour), 'Copilot (claude-sonnet) · 3 days ago');
+		});
+
+		test('should describe pasted lines by where they were copied from', () => {
+			const paste = createChange(ExtendedRangeType.Paste, 0, 1, { pasteUrl: 'https://stackoverflow.com/questions/1', creationTimestamp: 0 });
+			const idePaste = createChange(ExtendedRangeType.IDEPaste, 0, 1, { pasteUrl: 'https://github.com/iann0036/tabd.git', pasteTitle: 'src/range.ts', author: 'Alice', creationTimestamp: 0 });
+
+			assert.strictEqual(describeLineAttribution(paste, 2 * hour), 'Pasted from stackoverflow.com · 2 hours ago');
+			assert.strictEqual(describeLineAttribution(idePaste, 2 * hour), 'Pasted from github.com/iann0036/tabd · Alice · 2 hours ago');
+		});
+
+		test('should describe edits by their author', () => {
+			assert.strictEqual(describeLineAttribution(createChange(ExtendedRangeType.UserEdit, 0, 1, { creationTimestamp: 0 }), 0), 'You · just now');
+			assert.strictEqual(describeLineAttribution(createChange(ExtendedRangeType.UserEdit, 0, 1, { author: 'Alice', creationTimestamp: 0 }), 0), 'Alice · just now');
+		});
+	});
+
+	suite('describeChange Tests', () => {
+		const createdAt = ` • Created at: ${new Date(1000).toLocaleString()}`;
+
+		test('should describe AI generated changes with their AI, model and tool', () => {
+			const change = createChange(ExtendedRangeType.AIGenerated, 0, 1, { aiName: 'Copilot', aiModel: 'gpt-4o', aiType: 'inlineCompletion', author: 'Alice' });
+
+			assert.strictEqual(describeChange(change), `AI Generated under Alice's control • Copilot (gpt-4o) • Using inline completion${createdAt}`);
+			assert.strictEqual(describeChange({ ...change, aiType: 'someTool' }, false), `AI Generated under Alice's control • Copilot (gpt-4o) • Using an unknown tool (someTool)${createdAt}`);
+		});
+
+		test('should link the source of a paste only in markdown', () => {
+			const paste = createChange(ExtendedRangeType.Paste, 0, 1, { pasteUrl: 'https://stackoverflow.com/questions/1', pasteTitle: 'A question' });
+			const idePaste = createChange(ExtendedRangeType.IDEPaste, 0, 1, { pasteUrl: 'https://github.com/iann0036/tabd.git', pasteTitle: 'src/range.ts' });
+
+			assert.strictEqual(describeChange(paste), `Clipboard Paste by you • From the webpage [A question](https://stackoverflow.com/questions/1)${createdAt}`);
+			assert.strictEqual(describeChange(paste, false), `Clipboard Paste by you • From the webpage A question (https://stackoverflow.com/questions/1)${createdAt}`);
+			assert.strictEqual(describeChange(idePaste), `Clipboard Paste by you • From the [https://github.com/iann0036/tabd.git](https://github.com/iann0036/tabd.git) repository at \`src/range.ts\`${createdAt}`);
+			assert.strictEqual(describeChange(idePaste, false), `Clipboard Paste by you • From the https://github.com/iann0036/tabd.git repository at src/range.ts${createdAt}`);
+		});
+
+		test('should describe the other changes by their author', () => {
+			assert.strictEqual(describeChange(createChange(ExtendedRangeType.UserEdit, 0, 1, { author: 'Alice' })), `Edit by Alice${createdAt}`);
+			assert.strictEqual(describeChange(createChange(ExtendedRangeType.UndoRedo, 0, 1)), `Undo/Redo by you${createdAt}`);
+			assert.strictEqual(describeChange(createChange(ExtendedRangeType.Unknown, 0, 1)), `Unknown Action by you${createdAt}`);
+		});
+	});
+});
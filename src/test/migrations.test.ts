@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import { migrations, validateSerializedFileState, validateSerializedChange, migrateSerializedFileState, loadSerializedFileState } from '../migrations';
+import { SerializedFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
+
+suite('Migrations Test Suite', () => {
+
+	const createVersion1State = (): SerializedFileState => ({
+		version: 1,
+		checksum: 'a'.repeat(64),
+		changes: [
+			{
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 10 },
+				type: ExtendedRangeType.AIGenerated,
+				creationTimestamp: 1000,
+				author: 'test-user',
+				aiName: 'GitHub Copilot',
+				aiModel: 'gpt-4o'
+			},
+			{
+				start: { line: 2, character: 0 },
+				end: { line: 4, character: 1 },
+				type: ExtendedRangeType.Paste,
+				creationTimestamp: 2000,
+				pasteUrl: 'https://stackoverflow.com/questions/1'
+			}
+		]
+	});
+
+	suite('Migration Registry Tests', () => {
+		test('should register one step for every version up to the current one', () => {
+			for (let version = 2; version <= SERIALIZED_FILE_STATE_VERSION; version++) {
+				assert.ok(migrations.find(m => m.version === version), `Missing migration to version ${version}`);
+			}
+		});
+
+		test('should upgrade version 1 to the current version', () => {
+			const migrated = migrateSerializedFileState(createVersion1State());
+
+			assert.strictEqual(migrated.version, SERIALIZED_FILE_STATE_VERSION);
+			assert.strictEqual(migrated.changes.length, 2);
+			assert.strictEqual(migrated.checksum, 'a'.repeat(64));
+		});
+
+		test('should not modify states already at the target version', () => {
+			const state = migrateSerializedFileState(createVersion1State());
+			assert.strictEqual(migrateSerializedFileState(state), state);
+		});
+
+		test('should round-trip version 1 through the current version', () => {
+			const original = createVersion1State();
+			const roundTripped = migrateSerializedFileState(migrateSerializedFileState(original), 1);
+
+			assert.deepStrictEqual(roundTripped, original);
+		});
+
+		test('should drop fingerprints when downgrading to version 1', () => {
+			const state = migrateSerializedFileState(createVersion1State());
+			state.changes[0].fingerprint = { hash: 'b'.repeat(64), length: 10, excerpt: 'return 42;' };
+
+			const downgraded = migrateSerializedFileState(state, 1);
+
+			assert.strictEqual(downgraded.version, 1);
+			assert.strictEqual(downgraded.changes[0].fingerprint, undefined);
+			assert.strictEqual(downgraded.changes[0].aiName, 'GitHub Copilot');
+		});
+
+		test('should survive JSON serialization between versions', () => {
+			const original = createVersion1State();
+			const upgraded = migrateSerializedFileState(JSON.parse(JSON.stringify(original)));
+			const downgraded = migrateSerializedFileState(JSON.parse(JSON.stringify(upgraded)), 1);
+
+			assert.deepStrictEqual(downgraded, original);
+		});
+	});
+
+	suite('Validation Tests', () => {
+		test('should accept valid states', () => {
+			assert.deepStrictEqual(validateSerializedFileState(createVersion1State(), 'test.json'), []);
+		});
+
+		test('should reject non-object data', () => {
+			const issues = validateSerializedFileState('not a state', 'test.json');
+
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].source, 'test.json');
+		});
+
+		test('should report unsupported versions', () => {
+			const issues = validateSerializedFileState({ version: SERIALIZED_FILE_STATE_VERSION + 1, changes: [] }, 'test.json');
+
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].field, 'version');
+		});
+
+		test('should report a missing changes array', () => {
+			const issues = validateSerializedFileState({ version: 1 }, 'test.json');
+
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].field, 'changes');
+		});
+
+		test('should report malformed change fields by path', () => {
+			const state: any = createVersion1State();
+			state.changes[1].start.line = -1;
+			state.changes[1].type = 'SOMETHING_ELSE';
+
+			const issues = validateSerializedFileState(state, 'test.json');
+			const fields = issues.map(issue => issue.field);
+
+			assert.ok(fields.includes('changes[1].start.line'));
+			assert.ok(fields.includes('changes[1].type'));
+			assert.ok(issues.every(issue => issue.source === 'test.json'));
+		});
+
+		test('should report ranges which end before they start', () => {
+			const issues = validateSerializedChange({
+				start: { line: 3, character: 0 },
+				end: { line: 1, character: 0 },
+				type: ExtendedRangeType.UserEdit,
+				creationTimestamp: 1000
+			}, 'changes[0]', 'test.json');
+
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].field, 'changes[0].end');
+		});
+
+		test('should report malformed fingerprints', () => {
+			const issues = validateSerializedChange({
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 1 },
+				type: ExtendedRangeType.AIGenerated,
+				creationTimestamp: 1000,
+				fingerprint: { hash: 'abc', length: 'one', excerpt: 'a' }
+			}, 'changes[0]', 'test.json');
+
+			assert.strictEqual(issues.length, 1);
+			assert.strictEqual(issues[0].field, 'changes[0].fingerprint.length');
+		});
+	});
+
+	suite('loadSerializedFileState Tests', () => {
+		test('should upgrade valid records', () => {
+			const loaded = loadSerializedFileState(createVersion1State(), 'test.json');
+
+			assert.ok(loaded);
+			assert.strictEqual(loaded.version, SERIALIZED_FILE_STATE_VERSION);
+			assert.strictEqual(loaded.changes.length, 2);
+		});
+
+		test('should skip records which are unusable', () => {
+			assert.strictEqual(loadSerializedFileState({ version: 'one', changes: [] }, 'test.json'), undefined);
+			assert.strictEqual(loadSerializedFileState(null, 'test.json'), undefined);
+		});
+
+		test('should drop only the malformed changes of a record', () => {
+			const state: any = createVersion1State();
+			delete state.changes[0].creationTimestamp;
+
+			const loaded = loadSerializedFileState(state, 'test.json');
+
+			assert.ok(loaded);
+			assert.strictEqual(loaded.changes.length, 1);
+			assert.strictEqual(loaded.changes[0].type, ExtendedRangeType.Paste);
+		});
+	});
+});
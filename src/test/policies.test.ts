@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { SerializedChange } from '../types';
+import { evaluatePolicies, globToRegExp, policyMatchesChange, validatePolicies } from '../policies';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Policies Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, endLine: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: 0 },
+		end: { line: endLine, character: 0 },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	// Ten lines, so each line is 10%
+	const content = 'line\n'.repeat(10);
+
+	suite('validatePolicies Tests', () => {
+		test('should keep valid policies and report invalid ones', () => {
+			const { policies, issues } = validatePolicies([
+				{ name: 'No pastes', files: 'src/crypto/**', types: ['PASTE'], pasteDomains: ['*'] },
+				{ types: ['AI'], maxPercentage: 40 },
+				{ maxPercentage: 140 },
+				'not a policy',
+			]);
+
+			assert.deepStrictEqual(policies, [{ name: 'No pastes', files: ['src/crypto/**'], types: [ExtendedRangeType.Paste], pasteDomains: ['*'] }]);
+			assert.deepStrictEqual(issues, ['policies[1].types is not valid', 'policies[2].maxPercentage is not valid', 'policies[3] expected an object']);
+		});
+
+		test('should treat a missing setting as no policies', () => {
+			assert.deepStrictEqual(validatePolicies(undefined), { policies: [], issues: [] });
+			assert.deepStrictEqual(validatePolicies({}).issues, ['policies expected an array']);
+		});
+	});
+
+	suite('globToRegExp Tests', () => {
+		test('should match paths with globs', () => {
+			assert.ok(globToRegExp('src/crypto/**').test('src/crypto/nested/aes.ts'));
+			assert.ok(globToRegExp('**/*.ts').test('main.ts'));
+			assert.ok(globToRegExp('**/*.{ts,js}').test('src/main.js'));
+			assert.ok(globToRegExp('src/?.ts').test('src/a.ts'));
+			assert.ok(globToRegExp('src/[ab].ts').test('src/b.ts'));
+			assert.ok(!globToRegExp('src/*.ts').test('src/nested/main.ts'));
+			assert.ok(!globToRegExp('src/crypto/**').test('src/cryptography/aes.ts'));
+			assert.ok(!globToRegExp('*.ts').test('main.tsx'));
+		});
+	});
+
+	suite('policyMatchesChange Tests', () => {
+		test('should match AI names ignoring case', () => {
+			const change = createChange(ExtendedRangeType.AIGenerated, 0, 1, { aiName: 'GitHub Copilot' });
+
+			assert.ok(policyMatchesChange({ aiNames: ['github copilot'] }, change));
+			assert.ok(policyMatchesChange({ aiNames: ['*Copilot'] }, change));
+			assert.ok(!policyMatchesChange({ aiNames: ['Windsurf'] }, change));
+		});
+
+		test('should match paste domains and their subdomains', () => {
+			const change = createChange(ExtendedRangeType.Paste, 0, 1, { pasteUrl: 'https://meta.stackoverflow.com/questions/1' });
+
+			assert.ok(policyMatchesChange({ pasteDomains: ['stackoverflow.com'] }, change));
+			assert.ok(policyMatchesChange({ pasteDomains: ['*.stackoverflow.com'] }, change));
+			assert.ok(policyMatchesChange({ pasteDomains: ['*'] }, change));
+			assert.ok(!policyMatchesChange({ pasteDomains: ['overflow.com'] }, change));
+			assert.ok(!policyMatchesChange({ pasteDomains: ['*'] }, createChange(ExtendedRangeType.Paste, 0, 1)));
+		});
+	});
+
+	suite('evaluatePolicies Tests', () => {
+		const changes = [
+			createChange(ExtendedRangeType.AIGenerated, 0, 5, { aiName: 'Copilot' }),
+			createChange(ExtendedRangeType.Paste, 6, 7, { pasteUrl: 'https://example.com/snippet' }),
+		];
+
+		test('should flag files over the maximum percentage', () => {
+			const policies = [{ types: [ExtendedRangeType.AIGenerated], maxPercentage: 40 }, { types: [ExtendedRangeType.AIGenerated], maxPercentage: 50 }];
+
+			const violations = evaluatePolicies(policies, { path: 'src/main.ts', content, changes });
+
+			assert.strictEqual(violations.length, 1);
+			assert.strictEqual(violations[0].message, '50.0% of lines are AI Generated, more than the maximum of 40%');
+			assert.strictEqual(violations[0].severity, 'error');
+			assert.deepStrictEqual(violations[0].changes, [changes[0]]);
+		});
+
+		test('should forbid matching changes in the files a policy applies to', () => {
+			const policies = [{ name: 'crypto', files: ['src/crypto/**'], types: [ExtendedRangeType.Paste], pasteDomains: ['*'], severity: 'warning' as const }];
+
+			assert.deepStrictEqual(evaluatePolicies(policies, { path: 'src/main.ts', content, changes }), []);
+
+			const [violation] = evaluatePolicies(policies, { path: 'src/crypto/aes.ts', content, changes });
+			assert.strictEqual(violation.message, 'Paste from a URL is not allowed in src/crypto/**');
+			assert.strictEqual(violation.severity, 'warning');
+		});
+
+		test('should use the configured message', () => {
+			const [violation] = evaluatePolicies([{ aiNames: ['Copilot'], message: 'Copilot is not approved' }], { path: 'src/main.ts', content, changes });
+
+			assert.strictEqual(violation.message, 'Copilot is not approved');
+		});
+	});
+});
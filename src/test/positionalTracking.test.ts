@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { getUpdatedPosition, getUpdatedRanges } from '../positionalTracking';
+import { getUpdatedPosition, getUpdatedRanges, mostRecentInternalCommand } from '../positionalTracking';
 import { ExtendedRange, ExtendedRangeType, ExtendedRangeOptions } from '../extendedRange';
 
 suite('Positional Tracking Test Suite', () => {
@@ -298,6 +298,102 @@ suite('Positional Tracking Test Suite', () => {
 			assert.ok(result.length >= 1);
 		});
 
+		suite('Workspace Edit Tests', () => {
+			const createChange = (line: number, text: string): vscode.TextDocumentContentChangeEvent => ({
+				range: new vscode.Range(line, 0, line, 0),
+				rangeOffset: 0,
+				rangeLength: 0,
+				text,
+			});
+			const createEdit = (uri: string, line: number, newText: string) => ({
+				uri,
+				range: [{ line, character: 0 }, { line, character: 0 }] as [{ line: number; character: number }, { line: number; character: number }],
+				newText,
+			});
+			const createFileDocument = (path: string): vscode.TextDocument => ({ ...createMockDocument(''), uri: vscode.Uri.file(path) });
+
+			setup(() => {
+				mostRecentInternalCommand.value = { _type: 'onBeforeApplyEdit', _extensionName: 'Agent', _timestamp: Date.now(), edit: [] };
+				mostRecentInternalCommand.edits = [
+					createEdit('file:///a.ts', 1, 'one\ntwo\n'),
+					createEdit('file:///a.ts', 5, 'three\nfour\n'),
+					createEdit('file:///b.ts', 0, 'five'),
+				];
+			});
+
+			teardown(() => {
+				mostRecentInternalCommand.value = { _type: 'initial' };
+				mostRecentInternalCommand.edits = [];
+			});
+
+			test('should attribute every edit to a file, moving those below by the ones above', () => {
+				const existingRange = new ExtendedRange(new vscode.Position(8, 0), new vscode.Position(8, 4), ExtendedRangeType.UserEdit, Date.now() - 1000);
+				const result = getUpdatedRanges(
+					[existingRange],
+					[],
+					[createChange(1, 'one\ntwo\n'), createChange(5, 'three\r\nfour\r\n')],
+					undefined,
+					createFileDocument('/a.ts'),
+				);
+
+				const aiRanges = result.filter(range => range.getType() === ExtendedRangeType.AIGenerated)
+					.map(range => [range.start.line, range.start.character, range.end.line, range.end.character, range.getAiName()]);
+				assert.deepStrictEqual(aiRanges.sort(), [[1, 0, 3, 0, 'Agent'], [7, 0, 9, 0, 'Agent']]);
+
+				const userEdit = result.find(range => range.getType() === ExtendedRangeType.UserEdit);
+				assert.strictEqual(userEdit?.start.line, 12);
+
+				// The edit to the other file is still waiting for it to change
+				assert.deepStrictEqual(mostRecentInternalCommand.edits.map(edit => edit.uri), ['file:///b.ts']);
+			});
+
+			test('should attribute the edits to each file as it changes, and then forget them', () => {
+				getUpdatedRanges([], [], [createChange(1, 'one\ntwo\n'), createChange(5, 'three\nfour\n')], undefined, createFileDocument('/a.ts'));
+				const result = getUpdatedRanges([], [], [createChange(0, 'five')], undefined, createFileDocument('/b.ts'));
+
+				assert.strictEqual(result.length, 1);
+				assert.strictEqual(result[0].getType(), ExtendedRangeType.AIGenerated);
+				assert.strictEqual(result[0].end.character, 4);
+				assert.strictEqual(mostRecentInternalCommand.value._type, 'initial');
+			});
+
+			test('should attribute edits only sent after they were applied', () => {
+				mostRecentInternalCommand.value = { _type: 'onAfterApplyEdit', _extensionName: 'Agent', _timestamp: Date.now(), edit: [] };
+
+				const result = getUpdatedRanges([], [], [createChange(0, 'five')], undefined, createFileDocument('/b.ts'));
+
+				assert.strictEqual(result[0].getType(), ExtendedRangeType.AIGenerated);
+				assert.strictEqual(result[0].getAiName(), 'Agent');
+				assert.strictEqual(result[0].getOptions().aiType, 'applyEdit');
+			});
+
+			test('should not attribute changes which are not part of the edit', () => {
+				const result = getUpdatedRanges([], [], [createChange(0, 'something else')], undefined, createFileDocument('/a.ts'));
+
+				assert.ok(result.every(range => range.getType() !== ExtendedRangeType.AIGenerated));
+				assert.strictEqual(mostRecentInternalCommand.edits.length, 3);
+			});
+		});
+
+		test('should attribute edits sent as the file and the text inserted', () => {
+			mostRecentInternalCommand.value = { _type: 'onAfterApplyEdit', _extensionName: 'Windsurf', _timestamp: Date.now(), filePath: 'file:///a.ts', insertText: 'const a = 1;\n' };
+			try {
+				const result = getUpdatedRanges([], [], [{
+					range: new vscode.Range(0, 0, 0, 0),
+					rangeOffset: 0,
+					rangeLength: 0,
+					text: 'const a = 1;\n',
+				}], undefined, createMockDocument(''));
+
+				assert.strictEqual(result.length, 1);
+				assert.strictEqual(result[0].getType(), ExtendedRangeType.AIGenerated);
+				assert.strictEqual(result[0].getAiName(), 'Windsurf');
+				assert.strictEqual(mostRecentInternalCommand.value._type, 'initial');
+			} finally {
+				mostRecentInternalCommand.value = { _type: 'initial' };
+			}
+		});
+
 		test('should handle empty inputs', () => {
 			const mockDoc = createMockDocument('');
 			const result = getUpdatedRanges(
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { Position, Range, getInsertionEnd, getTextInRange, offsetAt, positionAt, getLineOffsets } from '../range';
+
+suite('Range Test Suite', () => {
+
+	suite('Position Tests', () => {
+		test('should compare positions by line then character', () => {
+			const position = new Position(1, 5);
+
+			assert.ok(position.isBefore(new Position(2, 0)));
+			assert.ok(position.isAfter(new Position(1, 4)));
+			assert.ok(position.isBeforeOrEqual(new Position(1, 5)));
+			assert.ok(position.isEqual(new Position(1, 5)));
+			assert.strictEqual(position.compareTo(new Position(0, 10)) > 0, true);
+		});
+
+		test('should translate and derive positions', () => {
+			const position = new Position(1, 5);
+
+			assert.ok(position.translate(1, -2).isEqual(new Position(2, 3)));
+			assert.ok(position.translate({ characterDelta: 1 }).isEqual(new Position(1, 6)));
+			assert.ok(position.with(undefined, 0).isEqual(new Position(1, 0)));
+			assert.ok(position.with({ line: 3 }).isEqual(new Position(3, 5)));
+		});
+
+		test('should reject negative coordinates', () => {
+			assert.throws(() => new Position(-1, 0), /Illegal argument/);
+		});
+	});
+
+	suite('Range Tests', () => {
+		test('should flip a range given end first', () => {
+			const range = new Range(2, 0, 1, 4);
+
+			assert.ok(range.start.isEqual(new Position(1, 4)));
+			assert.ok(range.end.isEqual(new Position(2, 0)));
+			assert.strictEqual(range.isSingleLine, false);
+		});
+
+		test('should accept positions of the same shape from elsewhere', () => {
+			const range = new Range({ line: 0, character: 1 } as Position, { line: 0, character: 1 } as Position);
+
+			assert.ok(range.start instanceof Position);
+			assert.strictEqual(range.isEmpty, true);
+		});
+
+		test('should check containment, intersection and union', () => {
+			const range = new Range(0, 0, 2, 0);
+
+			assert.ok(range.contains(new Position(1, 10)));
+			assert.ok(range.contains(new Range(0, 5, 2, 0)));
+			assert.ok(!range.contains(new Position(2, 1)));
+			assert.ok(range.intersection(new Range(1, 0, 3, 0))!.isEqual(new Range(1, 0, 2, 0)));
+			assert.strictEqual(range.intersection(new Range(3, 0, 4, 0)), undefined);
+			assert.ok(range.union(new Range(3, 0, 4, 0)).isEqual(new Range(0, 0, 4, 0)));
+		});
+	});
+
+	suite('Offset Tests', () => {
+		test('should convert between offsets and positions', () => {
+			const lineOffsets = getLineOffsets('ab\ncd\n');
+
+			assert.deepStrictEqual(lineOffsets, [0, 3, 6]);
+			assert.strictEqual(offsetAt(lineOffsets, 6, { line: 1, character: 1 }), 4);
+			assert.deepStrictEqual(positionAt(lineOffsets, 4), { line: 1, character: 1 });
+		});
+	});
+
+	suite('getInsertionEnd Tests', () => {
+		test('should end on the same line for text without line breaks', () => {
+			assert.ok(getInsertionEnd({ line: 2, character: 4 }, 'abc').isEqual(new Position(2, 7)));
+		});
+
+		test('should end after the last line break for text spanning lines', () => {
+			assert.ok(getInsertionEnd({ line: 2, character: 4 }, 'a\r\nbc\nd').isEqual(new Position(4, 1)));
+			assert.ok(getInsertionEnd({ line: 2, character: 4 }, 'a\n').isEqual(new Position(3, 0)));
+		});
+	});
+
+	suite('getTextInRange Tests', () => {
+		test('should return text within a line', () => {
+			assert.strictEqual(getTextInRange('hello world\n', { line: 0, character: 6 }, { line: 0, character: 11 }), 'world');
+		});
+
+		test('should return text spanning lines', () => {
+			assert.strictEqual(getTextInRange('a\nbc\nd', { line: 0, character: 0 }, { line: 2, character: 1 }), 'a\nbc\nd');
+		});
+
+		test('should handle CRLF line endings', () => {
+			assert.strictEqual(getTextInRange('ab\r\ncd\r\n', { line: 1, character: 0 }, { line: 1, character: 2 }), 'cd');
+		});
+
+		test('should clamp positions past the end of the text', () => {
+			assert.strictEqual(getTextInRange('abc', { line: 0, character: 1 }, { line: 5, character: 0 }), 'bc');
+		});
+	});
+
+});
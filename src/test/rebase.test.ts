@@ -0,0 +1,277 @@
+import * as assert from 'assert';
+import { computeContentChanges, rebaseSerializedChanges, createFingerprint, anchorSerializedChanges, replaySerializedFileState } from '../rebase';
+import { SerializedChange, SerializedFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { generateDataChecksum } from '../utils';
+import { ExtendedRangeType } from '../extendedRange';
+
+suite('Rebase Test Suite', () => {
+
+	const createChange = (startLine: number, startCharacter: number, endLine: number, endCharacter: number, type: ExtendedRangeType = ExtendedRangeType.AIGenerated): SerializedChange => ({
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter },
+		type: type,
+		creationTimestamp: 1000,
+	});
+
+	suite('computeContentChanges Tests', () => {
+		test('should return no changes for identical content', () => {
+			const text = 'line 1\nline 2\nline 3';
+			assert.strictEqual(computeContentChanges(text, text).length, 0);
+		});
+
+		test('should narrow a modified line down to the changed characters', () => {
+			const changes = computeContentChanges('const x = 1;\n', 'const x = 42;\n');
+
+			assert.strictEqual(changes.length, 1);
+			assert.strictEqual(changes[0].range.start.line, 0);
+			assert.strictEqual(changes[0].range.start.character, 10);
+			assert.strictEqual(changes[0].range.end.character, 11);
+			assert.strictEqual(changes[0].text, '42');
+		});
+
+		test('should detect inserted lines', () => {
+			const changes = computeContentChanges('a\nb\n', 'header\na\nb\n');
+
+			assert.strictEqual(changes.length, 1);
+			assert.ok(changes[0].range.isEmpty);
+			assert.strictEqual(changes[0].range.start.line, 0);
+			assert.strictEqual(changes[0].text, 'header\n');
+		});
+
+		test('should sort changes from the end of the document to the start', () => {
+			const changes = computeContentChanges('a\nb\nc\nd\n', 'x\nb\nc\ny\n');
+
+			assert.strictEqual(changes.length, 2);
+			assert.ok(changes[1].range.start.isBefore(changes[0].range.start));
+		});
+
+		test('should ignore line ending differences', () => {
+			assert.strictEqual(computeContentChanges('a\r\nb\r\n', 'a\nb\n').length, 0);
+		});
+	});
+
+	suite('rebaseSerializedChanges Tests', () => {
+		test('should shift ranges below inserted lines', () => {
+			const oldText = 'first\nfunction generated() {}\nlast\n';
+			const newText = 'import x;\n\nfirst\nfunction generated() {}\nlast\n';
+
+			const result = rebaseSerializedChanges([createChange(1, 0, 1, 23)], oldText, newText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 3, character: 0 });
+			assert.deepStrictEqual(result[0].end, { line: 3, character: 23 });
+		});
+
+		test('should shift ranges on the same line as an earlier edit', () => {
+			const oldText = 'let a = 1; foo();\n';
+			const newText = 'let a = 100; foo();\n';
+
+			const result = rebaseSerializedChanges([createChange(0, 11, 0, 17)], oldText, newText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 0, character: 13 });
+			assert.deepStrictEqual(result[0].end, { line: 0, character: 19 });
+		});
+
+		test('should discard ranges whose text was rewritten', () => {
+			const oldText = 'keep\nreplace me\nkeep\n';
+			const newText = 'keep\nsomething else\nkeep\n';
+
+			const result = rebaseSerializedChanges([createChange(1, 0, 1, 10)], oldText, newText);
+
+			assert.strictEqual(result.length, 0);
+		});
+
+		test('should discard ranges with text inserted inside them', () => {
+			const oldText = 'abcdef\n';
+			const newText = 'abcXYZdef\n';
+
+			const result = rebaseSerializedChanges([createChange(0, 1, 0, 5)], oldText, newText);
+
+			assert.strictEqual(result.length, 0);
+		});
+
+		test('should not extend ranges over text inserted directly after them', () => {
+			const oldText = 'abc\n';
+			const newText = 'abcdef\n';
+
+			const result = rebaseSerializedChanges([createChange(0, 0, 0, 3)], oldText, newText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].end, { line: 0, character: 3 });
+		});
+
+		test('should preserve the metadata of rebased ranges', () => {
+			const change: SerializedChange = {
+				...createChange(0, 0, 0, 5, ExtendedRangeType.Paste),
+				author: 'test-user',
+				pasteUrl: 'https://stackoverflow.com/questions/1',
+			};
+
+			const result = rebaseSerializedChanges([change], 'hello\n', '\nhello\n');
+
+			assert.strictEqual(result.length, 1);
+			assert.strictEqual(result[0].type, ExtendedRangeType.Paste);
+			assert.strictEqual(result[0].author, 'test-user');
+			assert.strictEqual(result[0].pasteUrl, 'https://stackoverflow.com/questions/1');
+			assert.deepStrictEqual(result[0].start, { line: 1, character: 0 });
+		});
+
+		test('should return the original changes when content is unchanged', () => {
+			const changes = [createChange(0, 0, 0, 5)];
+			assert.strictEqual(rebaseSerializedChanges(changes, 'hello', 'hello'), changes);
+		});
+	});
+
+	suite('createFingerprint Tests', () => {
+		test('should record hash, length and excerpt of the text', () => {
+			const fingerprint = createFingerprint('return 42;');
+
+			assert.strictEqual(fingerprint.hash.length, 64);
+			assert.strictEqual(fingerprint.length, 10);
+			assert.strictEqual(fingerprint.excerpt, 'return 42;');
+		});
+
+		test('should truncate the excerpt of long text', () => {
+			const fingerprint = createFingerprint('x'.repeat(500));
+
+			assert.strictEqual(fingerprint.length, 500);
+			assert.ok(fingerprint.excerpt.length < 500);
+		});
+
+		test('should ignore line ending differences', () => {
+			assert.deepStrictEqual(createFingerprint('a\r\nb'), createFingerprint('a\nb'));
+		});
+	});
+
+	suite('anchorSerializedChanges Tests', () => {
+		const fingerprinted = (startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string): SerializedChange => ({
+			...createChange(startLine, startCharacter, endLine, endCharacter),
+			fingerprint: createFingerprint(text),
+		});
+
+		test('should rebase ranges when a snapshot is available', () => {
+			const savedText = 'a\nreturn 42;\n';
+			const currentText = 'new\na\nreturn 42;\n';
+
+			const result = anchorSerializedChanges([fingerprinted(1, 0, 1, 10, 'return 42;')], savedText, currentText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 2, character: 0 });
+			assert.deepStrictEqual(result[0].end, { line: 2, character: 10 });
+		});
+
+		test('should find fingerprinted ranges without a snapshot', () => {
+			const currentText = 'moved\ndown\n  return total + 42;\n';
+
+			const result = anchorSerializedChanges([fingerprinted(0, 0, 0, 18, 'return total + 42;')], undefined, currentText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 2, character: 2 });
+			assert.deepStrictEqual(result[0].end, { line: 2, character: 20 });
+		});
+
+		test('should find multi-line fingerprinted ranges', () => {
+			const text = 'function a() {\n  return 1;\n}';
+			const currentText = '// header\n' + text + '\n';
+
+			const result = anchorSerializedChanges([fingerprinted(0, 0, 2, 1, text)], undefined, currentText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 1, character: 0 });
+			assert.deepStrictEqual(result[0].end, { line: 3, character: 1 });
+		});
+
+		test('should keep ranges whose text is still at the original position', () => {
+			const currentText = 'x = 1;\ny = 2;\nx = 1;\n';
+
+			const result = anchorSerializedChanges([fingerprinted(2, 0, 2, 6, 'x = 1;')], undefined, currentText);
+
+			assert.strictEqual(result.length, 1);
+			assert.strictEqual(result[0].start.line, 2);
+		});
+
+		test('should not search for short ranges which have moved', () => {
+			const result = anchorSerializedChanges([fingerprinted(0, 0, 0, 1, '}')], undefined, 'a\n{\n}\n');
+
+			assert.strictEqual(result.length, 0);
+		});
+
+		test('should discard ranges whose text occurs more than once', () => {
+			const line = 'const value = compute();';
+			const currentText = `${line}\n// moved\n${line}\n`;
+
+			const result = anchorSerializedChanges([fingerprinted(1, 0, 1, line.length, line)], undefined, currentText);
+
+			assert.strictEqual(result.length, 0);
+		});
+
+		test('should search outward from the original position', () => {
+			const line = 'const value = compute();';
+			const currentText = `${'// filler\n'.repeat(3)}  ${line}\n`;
+
+			const result = anchorSerializedChanges([fingerprinted(4, 0, 4, line.length, line)], undefined, currentText);
+
+			assert.strictEqual(result.length, 1);
+			assert.deepStrictEqual(result[0].start, { line: 3, character: 2 });
+		});
+
+		test('should discard fingerprinted ranges whose text no longer exists', () => {
+			const result = anchorSerializedChanges([fingerprinted(0, 0, 0, 18, 'return total + 42;')], undefined, 'return total + 43;\n');
+
+			assert.strictEqual(result.length, 0);
+		});
+
+		test('should discard ranges without a fingerprint when no snapshot is available', () => {
+			const result = anchorSerializedChanges([createChange(0, 0, 0, 5)], undefined, 'hello\n');
+
+			assert.strictEqual(result.length, 0);
+		});
+	});
+
+	suite('replaySerializedFileState Tests', () => {
+		const savedText = 'function a() {}\nreturn 42;\n';
+		const createFileState = (): SerializedFileState => ({
+			version: SERIALIZED_FILE_STATE_VERSION,
+			changes: [{ ...createChange(1, 0, 1, 10), fingerprint: createFingerprint('return 42;') }],
+			checksum: generateDataChecksum(savedText),
+		});
+		const findContent = (checksum: string) => checksum === generateDataChecksum(savedText) ? savedText : undefined;
+
+		test('should replay ranges through the diff to the current content', () => {
+			const currentText = 'import b;\nfunction a() {}\nreturn 42;\n';
+
+			const result = replaySerializedFileState(createFileState(), currentText, findContent);
+
+			assert.ok(result);
+			assert.strictEqual(result.checksum, generateDataChecksum(currentText));
+			assert.strictEqual(result.changes.length, 1);
+			assert.deepStrictEqual(result.changes[0].start, { line: 2, character: 0 });
+			assert.deepStrictEqual(result.changes[0].fingerprint, createFingerprint('return 42;'));
+		});
+
+		test('should leave states which already match the current content', () => {
+			assert.strictEqual(replaySerializedFileState(createFileState(), savedText, findContent), undefined);
+		});
+
+		test('should leave states whose earlier content is unknown', () => {
+			assert.strictEqual(replaySerializedFileState(createFileState(), 'return 42;\n', () => undefined), undefined);
+		});
+
+		test('should leave states with no surviving ranges', () => {
+			assert.strictEqual(replaySerializedFileState(createFileState(), 'function a() {}\nreturn 43;\n', findContent), undefined);
+		});
+
+		test('should collect the ranges which could not be replayed', () => {
+			const fileState = createFileState();
+			const rewrittenChange = { ...createChange(0, 0, 0, 15), fingerprint: createFingerprint('function a() {}') };
+			fileState.changes.unshift(rewrittenChange);
+			const unreplayedChanges: SerializedChange[] = [];
+
+			const result = replaySerializedFileState(fileState, 'function b() {}\nreturn 42;\n', findContent, unreplayedChanges);
+
+			assert.strictEqual(result?.changes.length, 1);
+			assert.deepStrictEqual(unreplayedChanges, [rewrittenChange]);
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { buildAttributionReport, formatAttributionReport, formatTypeCounts, getAttributionBadge, ReportFile } from '../report';
+import { SerializedChange } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
+
+suite('Report Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, startCharacter: number, endLine: number, endCharacter: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: startCharacter },
+		end: { line: endLine, character: endCharacter },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	const files: ReportFile[] = [
+		{
+			path: 'src/a.ts',
+			content: 'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+			changes: [
+				createChange(ExtendedRangeType.AIGenerated, 0, 0, 2, 0, { aiName: 'Copilot', aiModel: 'gpt-4o', author: 'alice' }),
+				createChange(ExtendedRangeType.Paste, 2, 0, 2, 5, { author: 'bob' }),
+				createChange(ExtendedRangeType.Paste, 2, 6, 2, 7, { author: 'bob' }),
+			],
+		},
+		{
+			path: 'src/b.ts',
+			content: 'let x;\r\n',
+			changes: [
+				createChange(ExtendedRangeType.AIGenerated, 0, 0, 0, 6, { aiName: 'Copilot', aiModel: 'claude', author: 'alice' }),
+				createChange(ExtendedRangeType.UserEdit, 0, 6, 0, 6),
+			],
+		},
+	];
+
+	suite('buildAttributionReport Tests', () => {
+		test('should count lines and characters per type', () => {
+			const report = buildAttributionReport('workspace', files);
+
+			assert.deepStrictEqual(report.totals, { lines: 4, characters: 46 });
+			assert.deepStrictEqual(report.byType, [
+				{ name: ExtendedRangeType.AIGenerated, files: 2, lines: 3, characters: 32 },
+				{ name: ExtendedRangeType.Paste, files: 1, lines: 1, characters: 6 },
+			]);
+		});
+
+		test('should count each line once per name', () => {
+			const report = buildAttributionReport('workspace', files);
+
+			assert.deepStrictEqual(report.byAuthor, [
+				{ name: 'alice', files: 2, lines: 3, characters: 32 },
+				{ name: 'bob', files: 1, lines: 1, characters: 6 },
+			]);
+		});
+
+		test('should count AI names and models', () => {
+			const report = buildAttributionReport('workspace', files);
+
+			assert.deepStrictEqual(report.byAiName, [{ name: 'Copilot', files: 2, lines: 3, characters: 32 }]);
+			assert.deepStrictEqual(report.byAiModel.map(row => row.name), ['gpt-4o', 'claude']);
+		});
+
+		test('should break each file down by type', () => {
+			const report = buildAttributionReport('workspace', files);
+
+			assert.deepStrictEqual(report.files.map(file => file.path), ['src/a.ts', 'src/b.ts']);
+			assert.deepStrictEqual(report.files[0].totals, { lines: 3, characters: 39 });
+			assert.deepStrictEqual(report.files[0].attributed, { lines: 3, characters: 32 });
+			assert.deepStrictEqual(report.files[1].byType, { [ExtendedRangeType.AIGenerated]: { lines: 1, characters: 6 } });
+		});
+	});
+
+	suite('formatAttributionReport Tests', () => {
+		test('should round-trip JSON', () => {
+			const report = buildAttributionReport('workspace', files);
+
+			assert.deepStrictEqual(JSON.parse(formatAttributionReport(report, 'json')), report);
+		});
+
+		test('should export CSV with a row per breakdown and per file and type', () => {
+			const csv = formatAttributionReport(buildAttributionReport('workspace', files), 'csv').trim().split('\n');
+
+			assert.strictEqual(csv[0], 'table,name,type,files,lines,characters');
+			assert.ok(csv.includes('byType,AI_GENERATED,AI_GENERATED,2,3,32'));
+			assert.ok(csv.includes('byAuthor,bob,,1,1,6'));
+			assert.ok(csv.includes('file,src/a.ts,PASTE,1,1,6'));
+		});
+
+		test('should quote CSV values containing commas', () => {
+			const csv = formatAttributionReport(buildAttributionReport('workspace', [{ ...files[1], path: 'src/a,b.ts' }]), 'csv');
+
+			assert.ok(csv.includes('file,"src/a,b.ts",,1,1,7'));
+		});
+
+		test('should export Markdown tables with percentages', () => {
+			const markdown = formatAttributionReport(buildAttributionReport('workspace', files), 'markdown');
+
+			assert.ok(markdown.includes('## By Type'));
+			assert.ok(markdown.includes('| AI Generated | 2 | 3 | 75.0% | 32 |'));
+			assert.ok(markdown.includes('| File | Lines | Attributed Lines | AI Generated | Paste |'));
+			assert.ok(markdown.includes('| src/a.ts | 3 | 3 | 2 | 1 |'));
+		});
+	});
+
+	suite('formatTypeCounts Tests', () => {
+		test('should count the non-empty changes of each type', () => {
+			assert.strictEqual(formatTypeCounts([...files[0].changes, ...files[1].changes]), 'AI Generated 2 · Paste 2');
+			assert.strictEqual(formatTypeCounts(files[0].changes, '\n'), 'AI Generated 1\nPaste 2');
+		});
+	});
+
+	suite('getAttributionBadge Tests', () => {
+		test('should badge files with more AI generated lines than the threshold', () => {
+			// Two of the three lines of src/a.ts are AI generated
+			assert.strictEqual(getAttributionBadge(files[0], 50)?.badge, 'AI');
+			assert.strictEqual(getAttributionBadge(files[0], 50)?.tooltip, "Tab'd: 66.7% of lines AI generated, 2 pastes from outside the IDE");
+		});
+
+		test('should badge files with pastes when below the threshold', () => {
+			assert.strictEqual(getAttributionBadge(files[0], 70)?.badge, 'P');
+			assert.strictEqual(getAttributionBadge(files[1], 100), undefined);
+		});
+	});
+});
@@ -0,0 +1,250 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorageBackend, StorageBackend, StoredRecord, copyStoredRecords, getStorageBackend, getStorageTypes, registerStorageBackend } from '../storage';
+import { getConfiguredStorageBackend } from '../workspace';
+import { SerializedFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { ExtendedRangeType } from '../extendedRange';
+
+suite('Storage Test Suite', () => {
+	const mockWorkspaceFolder: vscode.WorkspaceFolder = {
+		uri: vscode.Uri.file('/test/workspace'),
+		name: 'test-workspace',
+		index: 0
+	};
+
+	const withStorageType = <T>(storageType: string, callback: () => T): T => {
+		const origGet = vscode.workspace.getConfiguration;
+		vscode.workspace.getConfiguration = () => ({
+			get: (key: string, defaultValue?: any) => {
+				if (key === 'storage') {
+					return storageType;
+				}
+				return defaultValue;
+			}
+		} as any);
+
+		try {
+			return callback();
+		} finally {
+			vscode.workspace.getConfiguration = origGet;
+		}
+	};
+
+	suite('Storage Backend Selection Tests', () => {
+		test('should use the repository for repository storage', () => {
+			const storageBackend = withStorageType('repository', getConfiguredStorageBackend);
+			assert.ok(storageBackend instanceof FileStorageBackend);
+			assert.strictEqual(storageBackend.shared, true);
+			assert.strictEqual(storageBackend.getStorageDirectory(mockWorkspaceFolder), path.join(mockWorkspaceFolder.uri.fsPath, '.tabd'));
+		});
+
+		test('should use the home directory for home directory storage', () => {
+			const storageBackend = withStorageType('homeDirectory', getConfiguredStorageBackend);
+			assert.ok(storageBackend instanceof FileStorageBackend);
+			assert.strictEqual(storageBackend.shared, false);
+			assert.ok(storageBackend.getStorageDirectory(mockWorkspaceFolder).startsWith(path.join(os.homedir(), '.tabd')));
+		});
+
+		test('should share git notes storage and keep database storage private', () => {
+			assert.strictEqual(withStorageType('gitNotes', getConfiguredStorageBackend).shared, true);
+			assert.strictEqual(withStorageType('database', getConfiguredStorageBackend).shared, false);
+		});
+
+		test('should get the backend of a given storage type regardless of the setting', () => {
+			assert.deepStrictEqual(getStorageTypes(), ['homeDirectory', 'repository', 'gitNotes', 'database']);
+			assert.strictEqual(withStorageType('homeDirectory', () => getStorageBackend('repository')), withStorageType('repository', getConfiguredStorageBackend));
+		});
+
+		test('should throw error for unsupported storage type', () => {
+			assert.throws(() => {
+				withStorageType('unsupported', getConfiguredStorageBackend);
+			}, /Unsupported storage type/);
+		});
+	});
+
+	suite('Storage Backend Registration Tests', () => {
+		const customBackend: StorageBackend = {
+			shared: false,
+			save: () => 'custom',
+			load: () => [],
+			clear: () => { },
+			rename: () => { },
+			list: () => [],
+		};
+
+		test('should use a registered backend until it is disposed', () => {
+			const registration = registerStorageBackend('custom', customBackend);
+			try {
+				assert.strictEqual(withStorageType('custom', getConfiguredStorageBackend), customBackend);
+			} finally {
+				registration.dispose();
+			}
+
+			assert.throws(() => {
+				withStorageType('custom', getConfiguredStorageBackend);
+			}, /Unsupported storage type/);
+		});
+
+		test('should not replace an existing backend', () => {
+			assert.throws(() => {
+				registerStorageBackend('repository', customBackend);
+			}, /already registered/);
+			assert.ok(withStorageType('repository', getConfiguredStorageBackend) instanceof FileStorageBackend);
+		});
+	});
+
+	suite('File Storage Backend Tests', () => {
+		const storageBackend = new FileStorageBackend(true);
+		let workspaceFolder: vscode.WorkspaceFolder;
+
+		const createFileState = (creationTimestamp: number): SerializedFileState => ({
+			version: SERIALIZED_FILE_STATE_VERSION,
+			changes: [{
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 5 },
+				type: ExtendedRangeType.AIGenerated,
+				creationTimestamp: creationTimestamp,
+			}],
+			checksum: 'a'.repeat(64),
+		});
+
+		const fileUri = (relativePath: string) => vscode.Uri.file(path.join(workspaceFolder.uri.fsPath, relativePath));
+
+		const listRelativePaths = () => storageBackend.list(workspaceFolder)
+			.map(uri => path.relative(workspaceFolder.uri.fsPath, uri.fsPath).split(path.sep).join('/'))
+			.sort();
+
+		setup(() => {
+			const workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabd-storage-test-'));
+			fs.mkdirSync(path.join(workspaceDir, '.git'));
+			workspaceFolder = { uri: vscode.Uri.file(workspaceDir), name: 'storage-test', index: 0 };
+		});
+
+		teardown(() => {
+			fs.rmSync(workspaceFolder.uri.fsPath, { recursive: true, force: true });
+		});
+
+		test('should save and load records in the order of their timestamped names', () => {
+			const recordId = storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(2000));
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(3000), recordId);
+
+			const records = storageBackend.load(workspaceFolder, fileUri('src/a.ts'));
+			// Records saved within the same second are told apart by a random suffix, so only the name order is fixed
+			assert.deepStrictEqual(records.map(record => record.id), records.map(record => record.id).sort());
+			assert.deepStrictEqual(records.map(record => record.data.changes[0].creationTimestamp).sort(), [2000, 3000]);
+			assert.strictEqual(records.find(record => record.id === recordId)!.data.changes[0].creationTimestamp, 3000);
+		});
+
+		test('should list the files with records', () => {
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			storageBackend.save(workspaceFolder, fileUri('src/nested/b.ts'), createFileState(2000));
+
+			assert.deepStrictEqual(listRelativePaths(), ['src/a.ts', 'src/nested/b.ts']);
+		});
+
+		test('should move records when a file is renamed', () => {
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			storageBackend.save(workspaceFolder, fileUri('lib/b.ts'), createFileState(2000));
+
+			storageBackend.rename(workspaceFolder, fileUri('src/a.ts'), fileUri('lib/b.ts'));
+
+			assert.deepStrictEqual(listRelativePaths(), ['lib/b.ts']);
+			assert.strictEqual(storageBackend.load(workspaceFolder, fileUri('lib/b.ts')).length, 2);
+			assert.ok(!fs.existsSync(path.join(storageBackend.getStorageDirectory(workspaceFolder), 'log', 'src')));
+		});
+
+		test('should clear the records of one file or of the workspace', () => {
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			storageBackend.save(workspaceFolder, fileUri('src/b.ts'), createFileState(2000));
+
+			storageBackend.clear(workspaceFolder, fileUri('src/a.ts'));
+			assert.deepStrictEqual(listRelativePaths(), ['src/b.ts']);
+
+			storageBackend.clear(workspaceFolder);
+			assert.ok(!fs.existsSync(storageBackend.getStorageDirectory(workspaceFolder)));
+		});
+
+		test('should replace every record of a file when compacted', () => {
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(2000));
+
+			assert.ok(storageBackend.compact(workspaceFolder, fileUri('src/a.ts'), createFileState(3000)));
+
+			const records = storageBackend.load(workspaceFolder, fileUri('src/a.ts'));
+			assert.deepStrictEqual(records.map(record => record.data.changes[0].creationTimestamp), [3000]);
+		});
+
+		test('should only replace the given records when compacted', () => {
+			const keptRecordId = storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+			const replacedRecordId = storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(2000))!;
+			storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(2500));
+
+			assert.ok(storageBackend.compact(workspaceFolder, fileUri('src/a.ts'), createFileState(3000), [replacedRecordId]));
+
+			const records = storageBackend.load(workspaceFolder, fileUri('src/a.ts'));
+			assert.deepStrictEqual(records.map(record => record.data.changes[0].creationTimestamp).sort(), [1000, 2500, 3000]);
+			assert.ok(records.some(record => record.id === keptRecordId));
+		});
+
+		test('should not save repository records outside a Git repository', () => {
+			fs.rmdirSync(path.join(workspaceFolder.uri.fsPath, '.git'));
+
+			assert.strictEqual(storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000)), undefined);
+			assert.deepStrictEqual(storageBackend.load(workspaceFolder, fileUri('src/a.ts')), []);
+		});
+
+		suite('copyStoredRecords Tests', () => {
+			const createMemoryBackend = (saves = true) => {
+				const records: StoredRecord[] = [];
+				const memoryBackend: StorageBackend = {
+					shared: false,
+					save: (_workspaceFolder, _uri, data) => {
+						if (!saves) {
+							return undefined;
+						}
+						records.push({ id: `memory-${records.length}`, data });
+						return records[records.length - 1].id;
+					},
+					load: () => records,
+					clear: () => { },
+					rename: () => { },
+					list: () => [],
+				};
+				return { memoryBackend, records };
+			};
+
+			test('should copy every record as it is, even when the file no longer exists', () => {
+				storageBackend.save(workspaceFolder, fileUri('src/deleted.ts'), createFileState(1000));
+				storageBackend.save(workspaceFolder, fileUri('src/deleted.ts'), { ...createFileState(2000), checksum: 'b'.repeat(64) });
+				const { memoryBackend, records } = createMemoryBackend();
+
+				assert.strictEqual(copyStoredRecords(workspaceFolder, fileUri('src/deleted.ts'), storageBackend, memoryBackend), 2);
+
+				assert.deepStrictEqual(
+					records.map(record => record.data).sort((data1, data2) => data1.changes[0].creationTimestamp - data2.changes[0].creationTimestamp),
+					[createFileState(1000), { ...createFileState(2000), checksum: 'b'.repeat(64) }],
+				);
+			});
+
+			test('should not copy records the target already holds', () => {
+				storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+				const { memoryBackend, records } = createMemoryBackend();
+
+				copyStoredRecords(workspaceFolder, fileUri('src/a.ts'), storageBackend, memoryBackend);
+				assert.strictEqual(copyStoredRecords(workspaceFolder, fileUri('src/a.ts'), storageBackend, memoryBackend), 0);
+				assert.strictEqual(records.length, 1);
+			});
+
+			test('should throw when the target does not save a record', () => {
+				storageBackend.save(workspaceFolder, fileUri('src/a.ts'), createFileState(1000));
+
+				assert.throws(() => copyStoredRecords(workspaceFolder, fileUri('src/a.ts'), storageBackend, createMemoryBackend(false).memoryBackend), /did not save/);
+				assert.strictEqual(storageBackend.load(workspaceFolder, fileUri('src/a.ts')).length, 1);
+			});
+		});
+	});
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { SerializedChange } from '../types';
+import { describeSymbolChange, formatSymbolAttribution, summarizeSymbolAttribution } from '../symbolAttribution';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Symbol Attribution Test Suite', () => {
+	const createChange = (type: ExtendedRangeType, startLine: number, endLine: number, options: Partial<SerializedChange> = {}): SerializedChange => ({
+		start: { line: startLine, character: 0 },
+		end: { line: endLine, character: 0 },
+		type: type,
+		creationTimestamp: 1000,
+		...options,
+	});
+
+	suite('summarizeSymbolAttribution Tests', () => {
+		test('should count each line of the symbol once', () => {
+			const changes = [
+				createChange(ExtendedRangeType.Paste, 12, 14),
+				createChange(ExtendedRangeType.AIGenerated, 0, 13, { aiName: 'Copilot', aiModel: 'gpt-4o' }),
+				createChange(ExtendedRangeType.UserEdit, 15, 16),
+				createChange(ExtendedRangeType.Unknown, 16, 17),
+				createChange(ExtendedRangeType.AIGenerated, 30, 31, { aiName: 'Windsurf' }),
+			];
+
+			// Lines 10 to 19: AI on 10-12, pasted on 13, unknown on 16
+			const attribution = summarizeSymbolAttribution(changes, 10, 19);
+
+			assert.strictEqual(attribution.lines, 10);
+			assert.strictEqual(attribution.ai, 3);
+			assert.strictEqual(attribution.pasted, 1);
+			assert.strictEqual(attribution.unknown, 1);
+			assert.deepStrictEqual(attribution.aiNames, ['Copilot']);
+			assert.deepStrictEqual(attribution.aiModels, ['gpt-4o']);
+			assert.deepStrictEqual(attribution.changes, [changes[1], changes[0], changes[2], changes[3]]);
+		});
+
+		test('should ignore empty changes', () => {
+			const attribution = summarizeSymbolAttribution([createChange(ExtendedRangeType.AIGenerated, 2, 2)], 0, 4);
+
+			assert.strictEqual(attribution.ai, 0);
+			assert.deepStrictEqual(attribution.changes, []);
+		});
+	});
+
+	suite('formatSymbolAttribution Tests', () => {
+		test('should describe the mix of the lines', () => {
+			const attribution = summarizeSymbolAttribution([
+				createChange(ExtendedRangeType.AIGenerated, 0, 62, { aiName: 'Copilot', aiModel: 'gpt-4o' }),
+				createChange(ExtendedRangeType.IDEPaste, 62, 72),
+			], 0, 99);
+
+			assert.strictEqual(formatSymbolAttribution(attribution), '62% AI (Copilot, gpt-4o) · 10% pasted · 28% you');
+		});
+
+		test('should leave out the parts with no lines', () => {
+			const attribution = summarizeSymbolAttribution([createChange(ExtendedRangeType.Unknown, 0, 3)], 0, 2);
+
+			assert.strictEqual(formatSymbolAttribution(attribution), '100% unknown');
+		});
+	});
+
+	suite('describeSymbolChange Tests', () => {
+		test('should describe the lines, type and source of a change', () => {
+			const { label, detail } = describeSymbolChange(createChange(ExtendedRangeType.Paste, 4, 6, { pasteUrl: 'https://example.com/snippet', pasteTitle: 'Snippet', author: 'Alice' }));
+
+			assert.strictEqual(label, 'Lines 5-6: Paste');
+			assert.ok(detail.startsWith('From Snippet (https://example.com/snippet) • By Alice • Created at: '));
+		});
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { ExtendedRangeType } from '../extendedRange';
+import { buildAttributionTimeline } from '../timeline';
+import { SerializedChange, SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { generateDataChecksum } from '../utils';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Timeline Test Suite', () => {
+	const content = 'const a = 1;\nconst b = 2;\n';
+
+	const createChange = (type: ExtendedRangeType, line: number, creationTimestamp: number): SerializedChange => ({
+		start: { line, character: 0 },
+		end: { line, character: 12 },
+		type,
+		creationTimestamp,
+	});
+
+	const createRecord = (id: string, changes: SerializedChange[]) => ({
+		id,
+		data: { version: SERIALIZED_FILE_STATE_VERSION, changes, checksum: generateDataChecksum(content) },
+	});
+
+	suite('buildAttributionTimeline Tests', () => {
+		test('should group the changes of each record into sessions, oldest first', () => {
+			const timeline = buildAttributionTimeline('src/a.ts', [
+				createRecord('second', [createChange(ExtendedRangeType.Paste, 1, 3000)]),
+				createRecord('first', [createChange(ExtendedRangeType.UserEdit, 1, 2000), createChange(ExtendedRangeType.AIGenerated, 0, 1000)]),
+			], content);
+
+			assert.strictEqual(timeline.path, 'src/a.ts');
+			assert.strictEqual(timeline.content, content);
+			assert.deepStrictEqual(timeline.sessions.map(session => [session.id, session.start, session.end]), [['first', 1000, 2000], ['second', 3000, 3000]]);
+			assert.deepStrictEqual(timeline.sessions[0].changes.map(change => change.type), [ExtendedRangeType.AIGenerated, ExtendedRangeType.UserEdit]);
+		});
+
+		test('should leave out empty changes and sessions without any changes', () => {
+			const emptyChange = { ...createChange(ExtendedRangeType.AIGenerated, 0, 1000), end: { line: 0, character: 0 } };
+
+			const timeline = buildAttributionTimeline('src/a.ts', [createRecord('empty', [emptyChange]), createRecord('none', [])], content);
+
+			assert.deepStrictEqual(timeline.sessions, []);
+		});
+	});
+});
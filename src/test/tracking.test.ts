@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import { ExtendedRange, ExtendedRangeType } from '../extendedRange';
+import { Position, Range } from '../range';
+import { applyChangeToRanges, isStoredRecordAnchored, loadRangesFromStoredRecords, removeEmptyAdjacentRanges } from '../tracking';
+import { createFingerprint } from '../rebase';
+import { SERIALIZED_FILE_STATE_VERSION } from '../types';
+import { generateDataChecksum } from '../utils';
+
+// These tests run without the editor, so they must not import vscode (directly or through the modules they use)
+suite('Tracking Test Suite', () => {
+	const createRange = (startLine: number, startCharacter: number, endLine: number, endCharacter: number, type: ExtendedRangeType = ExtendedRangeType.AIGenerated) => {
+		return new ExtendedRange(new Position(startLine, startCharacter), new Position(endLine, endCharacter), type, 1000);
+	};
+
+	const toCoordinates = (ranges: (ExtendedRange | null)[]) => ranges.map(range => range && [range.start.line, range.start.character, range.end.line, range.end.character]);
+
+	suite('applyChangeToRanges Tests', () => {
+		test('should shift ranges after an insertion', () => {
+			const ranges = [createRange(1, 0, 1, 5)];
+
+			applyChangeToRanges(ranges, { range: new Range(0, 0, 0, 0), text: 'ab\n' });
+
+			assert.deepStrictEqual(toCoordinates(ranges), [[2, 0, 2, 5]]);
+		});
+
+		test('should split ranges around text inserted inside them', () => {
+			const ranges = [createRange(0, 0, 0, 10)];
+
+			applyChangeToRanges(ranges, { range: new Range(0, 4, 0, 4), text: 'xy' });
+
+			assert.deepStrictEqual(toCoordinates(ranges), [[0, 0, 0, 4], [0, 6, 0, 12]]);
+			assert.ok(ranges.every(range => range?.getType() === ExtendedRangeType.AIGenerated));
+		});
+
+		test('should trim ranges a deletion overlaps', () => {
+			const ranges = [createRange(0, 2, 0, 8)];
+
+			applyChangeToRanges(ranges, { range: new Range(0, 0, 0, 4), text: '' });
+
+			assert.deepStrictEqual(toCoordinates(ranges), [[0, 0, 0, 4]]);
+		});
+
+		test('should remove ranges a deletion covers', () => {
+			const ranges = [createRange(0, 2, 0, 4)];
+
+			applyChangeToRanges(ranges, { range: new Range(0, 0, 0, 6), text: '' });
+
+			assert.deepStrictEqual(ranges, [null]);
+		});
+
+		test('should detach ranges overwritten by an AI change', () => {
+			const ranges: (ExtendedRange | null)[] = [createRange(0, 0, 0, 10, ExtendedRangeType.UserEdit)];
+
+			const detachedRanges = applyChangeToRanges(ranges, { range: new Range(0, 2, 0, 5), text: 'abcdef' }, new Position(0, 8));
+
+			assert.deepStrictEqual(ranges, [null]);
+			assert.strictEqual(detachedRanges.length, 1);
+			assert.strictEqual(detachedRanges[0].getType(), ExtendedRangeType.UserEdit);
+		});
+	});
+
+	suite('removeEmptyAdjacentRanges Tests', () => {
+		test('should drop empty ranges touching another range', () => {
+			const ranges = [createRange(0, 0, 0, 5), createRange(0, 5, 0, 5), null, createRange(1, 0, 1, 0)];
+
+			assert.deepStrictEqual(toCoordinates(removeEmptyAdjacentRanges(ranges)), [[0, 0, 0, 5], [1, 0, 1, 0]]);
+		});
+	});
+
+	suite('loadRangesFromStoredRecords Tests', () => {
+		test('should let newer records take precedence', () => {
+			const content = 'const a = 1;\n';
+			const createRecord = (id: string, type: ExtendedRangeType, creationTimestamp: number) => ({
+				id,
+				data: {
+					version: SERIALIZED_FILE_STATE_VERSION,
+					changes: [{ start: { line: 0, character: 0 }, end: { line: 0, character: 12 }, type, creationTimestamp }],
+					checksum: generateDataChecksum(content),
+				},
+			});
+
+			const ranges = loadRangesFromStoredRecords([createRecord('first', ExtendedRangeType.AIGenerated, 1000), createRecord('second', ExtendedRangeType.Paste, 2000)], content);
+
+			assert.deepStrictEqual(ranges.map(range => range.getType()), [ExtendedRangeType.Paste]);
+		});
+	});
+
+	suite('isStoredRecordAnchored Tests', () => {
+		const text = 'const total = compute(1);';
+		const createRecord = (savedContent: string) => ({
+			id: 'record',
+			data: {
+				version: SERIALIZED_FILE_STATE_VERSION,
+				changes: [{ start: { line: 0, character: 0 }, end: { line: 0, character: text.length }, type: ExtendedRangeType.AIGenerated, creationTimestamp: 1000, fingerprint: createFingerprint(text) }],
+				checksum: generateDataChecksum(savedContent),
+			},
+		});
+
+		test('should anchor records saved against the current content', () => {
+			assert.ok(isStoredRecordAnchored(createRecord(`${text}\n`), `${text}\n`));
+		});
+
+		test('should anchor records whose ranges can be found in the current content', () => {
+			assert.ok(isStoredRecordAnchored(createRecord(`${text}\n`), `// moved\n${text}\n`));
+		});
+
+		test('should not anchor records with ranges missing from the current content', () => {
+			assert.ok(!isStoredRecordAnchored(createRecord(`${text}\n`), 'const total = 0;\n'));
+		});
+	});
+});
@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { SerializedFileState, SerializedChange, FileState, GlobalFileState } from '../types';
+import { SerializedFileState, SerializedChange, FileState, GlobalFileState, SERIALIZED_FILE_STATE_VERSION } from '../types';
 import { ExtendedRangeType } from '../extendedRange';
 
 suite('Types and Integration Test Suite', () => {
@@ -43,6 +43,23 @@ suite('Types and Integration Test Suite', () => {
 			assert.strictEqual(minimalChange.aiName, undefined);
 			assert.strictEqual(minimalChange.aiModel, undefined);
 		});
+
+		test('should allow a fingerprint of the range text', () => {
+			const change: SerializedChange = {
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 10 },
+				type: ExtendedRangeType.AIGenerated,
+				creationTimestamp: Date.now(),
+				fingerprint: {
+					hash: 'a'.repeat(64),
+					length: 10,
+					excerpt: 'return 42;'
+				}
+			};
+
+			assert.strictEqual(change.fingerprint?.length, 10);
+			assert.strictEqual(change.fingerprint?.excerpt, 'return 42;');
+		});
 	});
 
 	suite('SerializedFileState Tests', () => {
@@ -256,6 +273,10 @@ suite('Types and Integration Test Suite', () => {
 
 			assert.strictEqual(currentVersionState.version, 1);
 		});
+
+		test('should write version 2 states with fingerprints', () => {
+			assert.strictEqual(SERIALIZED_FILE_STATE_VERSION, 2);
+		});
 	});
 
 	suite('Type Safety Tests', () => {
@@ -1,8 +1,10 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { shouldProcessFile, fsPath, uniqueFileName, getStorageDirectory, getLogDirectory, generateDataChecksum, verifyDataChecksum } from '../utils';
+import { fsPath, uniqueFileName, getHomeStorageDirectory, getRelativePath, isHiddenPath, generateDataChecksum, verifyDataChecksum, getSnapshotDirectory, saveContentSnapshot, loadContentSnapshot, pruneContentSnapshots } from '../utils';
+import { shouldProcessFile } from '../workspace';
 
 suite('Utils Test Suite', () => {
 	
@@ -33,6 +35,28 @@ suite('Utils Test Suite', () => {
 		});
 	});
 
+	suite('Relative Path Tests', () => {
+		const workspaceFolder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(path.join(os.tmpdir(), 'workspace')), name: 'workspace', index: 0 };
+
+		test('should use forward slashes relative to the workspace folder', () => {
+			const uri = vscode.Uri.file(path.join(workspaceFolder.uri.fsPath, 'src', 'nested', 'main.ts'));
+			assert.strictEqual(getRelativePath(workspaceFolder, uri), 'src/nested/main.ts');
+		});
+
+		test('should keep the full path of files outside the workspace folder', () => {
+			const uri = vscode.Uri.file(path.join(os.tmpdir(), 'other', 'main.ts'));
+			assert.strictEqual(getRelativePath(workspaceFolder, uri), uri.fsPath);
+		});
+
+		test('should detect dotfiles and dot directories', () => {
+			assert.strictEqual(isHiddenPath('src/main.ts'), false);
+			assert.strictEqual(isHiddenPath('my.config.ts'), false);
+			assert.strictEqual(isHiddenPath('.env'), true);
+			assert.strictEqual(isHiddenPath('.tabd/log/src/main.ts'), true);
+			assert.strictEqual(isHiddenPath('src\\.hidden\\main.ts'), true);
+		});
+	});
+
 	suite('uniqueFileName Tests', () => {
 		test('should generate filename with correct format', () => {
 			const filename = uniqueFileName();
@@ -88,146 +112,18 @@ suite('Utils Test Suite', () => {
 		});
 	});
 
-	suite('Storage Directory Tests', () => {
-		const mockWorkspaceFolder: vscode.WorkspaceFolder = {
-			uri: vscode.Uri.file('/test/workspace'),
-			name: 'test-workspace',
-			index: 0
-		};
-
-		const mockDocument = {
-			uri: vscode.Uri.file('/test/workspace/src/file.ts')
-		} as vscode.TextDocument;
-
-		test('should generate repository storage path', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'repository';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				const storageDir = getStorageDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(storageDir.includes('.tabd'));
-				assert.ok(storageDir.includes('workspace'));
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
-		});
-
-		test('should generate home directory storage path', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'homeDirectory';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				const storageDir = getStorageDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(storageDir.includes(os.homedir()));
-				assert.ok(storageDir.includes('.tabd'));
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
-		});
-
-		test('should generate git notes storage path', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'gitNotes';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				const storageDir = getStorageDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(storageDir.includes('gitnotes'));
-				assert.ok(storageDir.includes('.tabd'));
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
-		});
-
-		test('should throw error for unsupported storage type', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'unsupported';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				assert.throws(() => {
-					getStorageDirectory(mockWorkspaceFolder, mockDocument);
-				}, /Unsupported storage type/);
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
-		});
-	});
-
-	suite('Log Directory Tests', () => {
+	suite('Home Storage Directory Tests', () => {
 		const mockWorkspaceFolder: vscode.WorkspaceFolder = {
 			uri: vscode.Uri.file('/test/workspace'),
 			name: 'test-workspace',
 			index: 0
 		};
 
-		const mockDocument = {
-			uri: vscode.Uri.file('/test/workspace/src/file.ts')
-		} as vscode.TextDocument;
-
-		test('should generate log directory for repository storage', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'repository';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				const logDir = getLogDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(logDir.includes('log'));
-				assert.ok(logDir.includes('src'));
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
-		});
-
-		test('should generate temp directory for git notes storage', () => {
-			const origGet = vscode.workspace.getConfiguration;
-			vscode.workspace.getConfiguration = () => ({
-				get: (key: string, defaultValue?: any) => {
-					if (key === 'storage') {
-						return 'gitNotes';
-					}
-					return defaultValue;
-				}
-			} as any);
-
-			try {
-				const logDir = getLogDirectory(mockWorkspaceFolder, mockDocument);
-				assert.ok(logDir.includes('temp'));
-			} finally {
-				vscode.workspace.getConfiguration = origGet;
-			}
+		test('should generate a directory per kind and workspace', () => {
+			const storageDir = getHomeStorageDirectory('workspaces', mockWorkspaceFolder);
+			assert.ok(storageDir.startsWith(path.join(os.homedir(), '.tabd', 'workspaces')));
+			assert.ok(storageDir.includes('workspace'));
+			assert.notStrictEqual(getHomeStorageDirectory('databases', mockWorkspaceFolder), storageDir);
 		});
 	});
 
@@ -282,4 +178,59 @@ suite('Utils Test Suite', () => {
 			assert.strictEqual(verifyDataChecksum(emptyContent, checksum), true);
 		});
 	});
+
+	suite('Content Snapshot Tests', () => {
+		// Snapshots are kept in the home directory, so it is pointed at a temporary one rather than the developer's own
+		let homeDir: string;
+		const { HOME, USERPROFILE } = process.env;
+
+		suiteSetup(() => {
+			homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tabd-snapshot-test-'));
+			process.env.HOME = process.env.USERPROFILE = homeDir;
+		});
+
+		suiteTeardown(() => {
+			for (const [name, value] of Object.entries({ HOME, USERPROFILE })) {
+				if (value === undefined) {
+					delete process.env[name];
+				} else {
+					process.env[name] = value;
+				}
+			}
+			fs.rmSync(homeDir, { recursive: true, force: true });
+		});
+
+		test('should store snapshots in the home directory', () => {
+			assert.strictEqual(getSnapshotDirectory(), path.join(homeDir, '.tabd', 'snapshots'));
+		});
+
+		test('should round-trip content by checksum', () => {
+			const content = `function snapshotTest() { return ${Date.now()}; }\n`;
+			const checksum = generateDataChecksum(content);
+
+			saveContentSnapshot(checksum, content);
+
+			assert.strictEqual(loadContentSnapshot(checksum), content);
+		});
+
+		test('should return undefined for unknown checksums', () => {
+			assert.strictEqual(loadContentSnapshot(generateDataChecksum(`missing-${Date.now()}`)), undefined);
+		});
+
+		test('should prune snapshots which have not been used for too long', () => {
+			const content = `function pruneTest() { return ${Date.now()}; }\n`;
+			const checksum = generateDataChecksum(content);
+			saveContentSnapshot(checksum, content);
+
+			const oneYear = 365 * 24 * 60 * 60 * 1000;
+			pruneContentSnapshots(oneYear, Number.MAX_SAFE_INTEGER);
+			assert.strictEqual(loadContentSnapshot(checksum), content);
+
+			const snapshotPath = path.join(getSnapshotDirectory(), `${checksum}.gz`);
+			const old = new Date(Date.now() - 2 * oneYear);
+			fs.utimesSync(snapshotPath, old, old);
+			assert.ok(pruneContentSnapshots(oneYear, Number.MAX_SAFE_INTEGER) >= 1);
+			assert.strictEqual(loadContentSnapshot(checksum), undefined);
+		});
+	});
 });
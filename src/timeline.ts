@@ -0,0 +1,52 @@
+import { serializeChange } from './extendedRange';
+import { deserializeFileState } from './tracking';
+import type { StoredRecord } from './storage';
+import { SerializedChange } from './types';
+
+/** The changes of one stored record, usually everything recorded for a file between it being opened and saved */
+export interface TimelineSession {
+    /** Where the record was loaded from */
+    id: string;
+    /** When the first and last of its changes were made */
+    start: number;
+    end: number;
+    /** Its changes anchored onto the current content of the file, oldest first */
+    changes: SerializedChange[];
+}
+
+/** The history of a file's attribution, from which its highlights at any moment can be worked out */
+export interface AttributionTimeline {
+    /** Path of the file relative to the workspace folder */
+    path: string;
+    content: string;
+    /** Sessions with at least one change, oldest first */
+    sessions: TimelineSession[];
+}
+
+/**
+ * Group the changes of each stored record of a file into sessions, anchored onto its current content.
+ * Changes which can no longer be found in the content are left out, along with sessions left without any.
+ */
+export function buildAttributionTimeline(path: string, storedRecords: StoredRecord[], content: string): AttributionTimeline {
+    const sessions: TimelineSession[] = [];
+
+    for (const storedRecord of storedRecords) {
+        const changes = deserializeFileState(storedRecord.data, content, storedRecord.id)
+            .filter(range => !range.isEmpty)
+            .map(serializeChange)
+            .sort((a, b) => a.creationTimestamp - b.creationTimestamp);
+        if (changes.length === 0) {
+            continue;
+        }
+
+        sessions.push({
+            id: storedRecord.id,
+            start: changes[0].creationTimestamp,
+            end: changes[changes.length - 1].creationTimestamp,
+            changes,
+        });
+    }
+
+    return { path, content, sessions: sessions.sort((a, b) => a.start - b.start) };
+}
+
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { ExtendedRangeType } from './extendedRange';
+import { AttributionTimeline } from './timeline';
+import { DECORATION_COLORS } from './decorators';
+import { escapeHtml } from './reportView';
+import { getTypeLabel } from './report';
+import { describeSymbolChange } from './symbolAttribution';
+
+/** The CSS variable of a theme color contributed in package.json, such as --vscode-tabd-aiGeneratedBackground */
+function getColorVariable(colorId: string): string {
+    return `--vscode-${colorId.replace(/\./g, '-')}`;
+}
+
+function renderTimeline(timeline: AttributionTimeline, nonce: string, cspSource: string): string {
+    const typeStyles = (Object.keys(DECORATION_COLORS) as ExtendedRangeType[]).map(type => {
+        const colors = DECORATION_COLORS[type];
+        return `.type-${type} { background: var(${getColorVariable(`${colors.id}Background`)}, ${colors.background}); }
+        .swatch.type-${type} { background: var(${getColorVariable(`${colors.id}Marker`)}, ${colors.marker}); }`;
+    }).join('\n        ');
+
+    let changeIndex = 0;
+    const sessions = timeline.sessions.map((session, sessionIndex) => {
+        const items = session.changes.map(change => {
+            const { label, detail } = describeSymbolChange(change);
+            return `<li data-time="${change.creationTimestamp}">
+                <span class="swatch type-${escapeHtml(change.type)}"></span>
+                <span class="time">${escapeHtml(new Date(change.creationTimestamp).toLocaleString())}</span>
+                <span>${escapeHtml(label)}</span>
+                <span class="detail">${escapeHtml(detail)}</span>
+                <button data-change="${changeIndex++}" title="Reveal in the editor">Go to</button>
+            </li>`;
+        }).join('');
+
+        return `<h3>Session ${sessionIndex + 1}: ${escapeHtml(new Date(session.start).toLocaleString())}${session.end !== session.start ? ` to ${escapeHtml(new Date(session.end).toLocaleString())}` : ''}</h3>
+        <p class="detail">${escapeHtml(session.id)}</p>
+        <ul>${items}</ul>`;
+    }).join('\n');
+
+    const legend = (Object.keys(DECORATION_COLORS) as ExtendedRangeType[])
+        .map(type => `<span class="legend"><span class="swatch type-${type}"></span>${escapeHtml(getTypeLabel(type))}</span>`)
+        .join('');
+
+    // The data is read by the script rather than written into it, with < escaped so it cannot end the script element
+    const data = JSON.stringify({ content: timeline.content, sessions: timeline.sessions }).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Tab'd Attribution Timeline</title>
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        .layout { display: flex; gap: 20px; align-items: flex-start; }
+        .sessions { flex: 0 0 40%; max-height: calc(100vh - 160px); overflow: auto; }
+        .content { flex: 1; max-height: calc(100vh - 160px); overflow: auto; margin: 0; padding: 8px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); background: var(--vscode-editor-background); }
+        .scrubber { display: flex; gap: 12px; align-items: center; margin-bottom: 12px; }
+        .scrubber input { flex: 1; }
+        ul { list-style: none; padding: 0; }
+        li { padding: 2px 4px; cursor: pointer; }
+        li:hover { background: var(--vscode-list-hoverBackground); }
+        li.future { opacity: 0.4; }
+        li.current { outline: 1px solid var(--vscode-focusBorder); }
+        .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+        .legend { margin-right: 12px; }
+        .detail { color: var(--vscode-descriptionForeground); }
+        button { margin-left: 8px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 0 8px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        ${typeStyles}
+    </style>
+</head>
+<body>
+    <h1>Tab'd Attribution Timeline: ${escapeHtml(timeline.path)}</h1>
+    <p>${legend}</p>
+    <div class="scrubber">
+        <input id="scrubber" type="range" min="0" value="0" step="1" aria-label="Moment in time">
+        <span id="moment"></span>
+    </div>
+    <div class="layout">
+        <div class="sessions">${sessions}</div>
+        <pre class="content"><code id="content"></code></pre>
+    </div>
+    <script nonce="${nonce}" id="timeline-data" type="application/json">${data}</script>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const { content, sessions } = JSON.parse(document.getElementById('timeline-data').textContent);
+        const changes = sessions.flatMap(session => session.changes);
+        // Painted oldest first, so later changes cover earlier ones as they do in the editor
+        const paintOrder = [...changes].sort((a, b) => a.creationTimestamp - b.creationTimestamp);
+        const moments = [...new Set(paintOrder.map(change => change.creationTimestamp))];
+
+        const lineStarts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\\n') {
+                lineStarts.push(i + 1);
+            }
+        }
+        const getOffset = position => Math.min((lineStarts[position.line] ?? content.length) + position.character, content.length);
+
+        const escapeHtml = text => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+        const scrubber = document.getElementById('scrubber');
+        scrubber.max = String(moments.length - 1);
+        scrubber.value = String(moments.length - 1);
+
+        function render() {
+            const moment = moments[Number(scrubber.value)];
+            document.getElementById('moment').textContent = new Date(moment).toLocaleString();
+
+            const types = new Array(content.length).fill('');
+            for (const change of paintOrder) {
+                if (change.creationTimestamp > moment) {
+                    break;
+                }
+                types.fill(change.type, getOffset(change.start), getOffset(change.end));
+            }
+
+            let html = '';
+            for (let start = 0; start < content.length;) {
+                let end = start + 1;
+                while (end < content.length && types[end] === types[start]) {
+                    end++;
+                }
+                const text = escapeHtml(content.substring(start, end));
+                html += types[start] ? '<span class="type-' + types[start] + '">' + text + '</span>' : text;
+                start = end;
+            }
+            document.getElementById('content').innerHTML = html;
+
+            for (const item of document.querySelectorAll('li[data-time]')) {
+                const time = Number(item.dataset.time);
+                item.classList.toggle('future', time > moment);
+                item.classList.toggle('current', time === moment);
+            }
+        }
+
+        scrubber.addEventListener('input', render);
+        for (const item of document.querySelectorAll('li[data-time]')) {
+            item.addEventListener('click', () => {
+                scrubber.value = String(moments.indexOf(Number(item.dataset.time)));
+                render();
+            });
+        }
+        for (const button of document.querySelectorAll('button[data-change]')) {
+            button.addEventListener('click', event => {
+                event.stopPropagation();
+                const change = changes[Number(button.dataset.change)];
+                vscode.postMessage({ command: 'reveal', start: change.start, end: change.end });
+            });
+        }
+        render();
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Open the timeline of a file in a webview, with a slider to scrub through its highlights over time
+ * @param uri The file, which changes are revealed in when picked
+ */
+export function showAttributionTimeline(timeline: AttributionTimeline, uri: vscode.Uri): vscode.WebviewPanel {
+    const panel = vscode.window.createWebviewPanel('tabdTimeline', `Tab'd Timeline: ${timeline.path}`, vscode.ViewColumn.Beside, {
+        enableScripts: true,
+        localResourceRoots: [],
+    });
+
+    panel.webview.html = renderTimeline(timeline, randomBytes(16).toString('hex'), panel.webview.cspSource);
+    panel.webview.onDidReceiveMessage(message => {
+        if (message && message.command === 'reveal') {
+            const selection = new vscode.Range(message.start.line, message.start.character, message.end.line, message.end.character);
+            vscode.window.showTextDocument(uri, { selection, viewColumn: vscode.ViewColumn.One });
+        }
+    });
+
+    return panel;
+}
@@ -0,0 +1,190 @@
+import { ExtendedRange, deserializeChange, mergeRangesSequentially } from './extendedRange';
+import { Position, Range, TextChange, getUpdatedPosition } from './range';
+import { anchorSerializedChanges } from './rebase';
+import type { StoredRecord } from './storage';
+import { SerializedFileState } from './types';
+import { generateDataChecksum, loadContentSnapshot } from './utils';
+
+/**
+ * Update tracked ranges for a change to the document: ranges after it are shifted, ranges it deletes from are
+ * trimmed and ranges it inserts into are split around the inserted text. This is the part of tracking which
+ * does not depend on what made the change, so it can run without the editor.
+ * @param ranges The ranges to update in place, where null marks a range which has been removed
+ * @param aiInsertionEnd Where the text inserted by an AI change ends, which ranges it overwrote are moved out of
+ * @returns Ranges taken out of the list because an AI change overwrote them, to be tracked again after the update
+ */
+export function applyChangeToRanges(ranges: (ExtendedRange | null)[], change: TextChange, aiInsertionEnd?: Position): ExtendedRange[] {
+    const detachedRanges: ExtendedRange[] = [];
+
+    for (let i = 0; i < ranges.length; i++) {
+        // ** onDeletion **
+        const currentRange = ranges[i];
+        if (!currentRange) {
+            continue;
+        }
+
+        if (
+            change.range.intersection(currentRange) &&
+            !change.range.end.isEqual(currentRange.start) &&
+            !change.range.start.isEqual(currentRange.end)
+        ) {
+            if (!change.range.start.isEqual(change.range.end)) {
+                if (aiInsertionEnd) {
+                    let newRangeStart = currentRange.start;
+                    let newRangeEnd = currentRange.end;
+
+                    let aiChangeRangeStart = change.range.end;
+                    let aiChangeRangeEnd = aiInsertionEnd;
+                    let aiChangeRange = new Range(aiChangeRangeStart, aiChangeRangeEnd);
+
+                    if (aiChangeRange.contains(currentRange.start)) {
+                        newRangeStart = aiChangeRangeEnd;
+                    }
+
+                    if (aiChangeRange.contains(currentRange.end)) {
+                        newRangeEnd = aiChangeRangeStart;
+                    }
+
+                    detachedRanges.push(new ExtendedRange(newRangeStart, newRangeEnd, currentRange.getType(), currentRange.getCreationTimestamp(), currentRange.getAuthor(), currentRange.getOptions()));
+                    ranges[i] = null;
+                } else {
+                    let newRangeStart = currentRange.start;
+                    let newRangeEnd = currentRange.end;
+
+                    if (change.range.contains(currentRange.start)) {
+                        newRangeStart = change.range.end;
+                    }
+
+                    if (change.range.contains(currentRange.end)) {
+                        newRangeEnd = change.range.start;
+                    }
+
+                    if (newRangeEnd.isBefore(newRangeStart)) {
+                        ranges[i] = null;
+                    } else {
+                        ranges[i] = new ExtendedRange(newRangeStart, newRangeEnd, currentRange.getType(), currentRange.getCreationTimestamp(), currentRange.getAuthor(), currentRange.getOptions());
+                    }
+                }
+            }
+        }
+
+        // ** onAddition **
+        const updatedRange = ranges[i];
+        if (!updatedRange) {
+            continue;
+        }
+
+        if (
+            change.range.intersection(updatedRange) &&
+            !change.range.end.isEqual(updatedRange.start) &&
+            !change.range.start.isEqual(updatedRange.end)
+        ) {
+            if (change.text) {
+                ranges.splice(
+                    i + 1,
+                    0,
+                    new ExtendedRange(change.range.start, updatedRange.end, updatedRange.getType(), updatedRange.getCreationTimestamp(), updatedRange.getAuthor(), updatedRange.getOptions())
+                );
+                ranges[i] = new ExtendedRange(updatedRange.start, change.range.start, updatedRange.getType(), updatedRange.getCreationTimestamp(), updatedRange.getAuthor(), updatedRange.getOptions());
+            }
+        }
+
+        const finalRange = ranges[i];
+        if (!finalRange) {
+            continue;
+        }
+        //
+
+        const updatedRangeStart = getUpdatedPosition(finalRange.start, change);
+        let updatedRangeEnd: Position;
+
+        if (
+            !finalRange.start.isEqual(finalRange.end) &&
+            finalRange.end.isEqual(change.range.end)
+        ) {
+            updatedRangeEnd = finalRange.end;
+        } else {
+            updatedRangeEnd = getUpdatedPosition(finalRange.end, change);
+        }
+
+        ranges[i] = new ExtendedRange(updatedRangeStart, updatedRangeEnd, finalRange.getType(), finalRange.getCreationTimestamp(), finalRange.getAuthor(), finalRange.getOptions());
+    }
+
+    return detachedRanges;
+}
+
+/**
+ * Drop empty ranges which touch another range, along with ranges already removed by applyChangeToRanges
+ */
+export function removeEmptyAdjacentRanges(ranges: (ExtendedRange | null)[]): ExtendedRange[] {
+    for (let i = 0; i < ranges.length - 1; i++) {
+        const rangeI = ranges[i];
+        if (!rangeI) {
+            continue;
+        }
+
+        for (let j = i + 1; j < ranges.length; j++) {
+            const rangeJ = ranges[j];
+            if (!rangeJ) {
+                continue;
+            }
+
+            if (
+                rangeI.end.isEqual(rangeJ.start) ||
+                rangeI.start.isEqual(rangeJ.end)
+            ) {
+                if (rangeJ.start.isEqual(rangeJ.end)) {
+                    ranges[j] = null;
+                } else if (rangeI.start.isEqual(rangeI.end)) {
+                    ranges[i] = null;
+                }
+            }
+        }
+    }
+
+    return ranges.filter((range): range is ExtendedRange => range !== null);
+}
+
+/**
+ * Load the ranges of a stored file state onto the current file content, anchoring them onto it if the file has
+ * changed since the state was saved.
+ */
+export function deserializeFileState(fileState: SerializedFileState, currentFileContent: string, source: string): ExtendedRange[] {
+    let changes = fileState.changes;
+
+    // Verify checksum if present, anchoring the ranges onto the current content if it has changed since
+    if (fileState.checksum) {
+        const currentChecksum = generateDataChecksum(currentFileContent);
+        if (currentChecksum !== fileState.checksum) {
+            const savedFileContent = loadContentSnapshot(fileState.checksum);
+            changes = anchorSerializedChanges(changes, savedFileContent, currentFileContent);
+            console.debug(`File content has changed since data was saved for ${source}. Anchored ${changes.length} of ${fileState.changes.length} changes onto the current content${savedFileContent === undefined ? ' without a snapshot' : ''}.`);
+        }
+    }
+
+    return changes.map(deserializeChange);
+}
+
+/**
+ * Whether every range of a stored record can be anchored onto the current file content, so folding the record
+ * into one saved against that content loses nothing.
+ */
+export function isStoredRecordAnchored(storedRecord: StoredRecord, currentFileContent: string): boolean {
+    if (storedRecord.data.checksum === generateDataChecksum(currentFileContent)) {
+        return true;
+    }
+    return deserializeFileState(storedRecord.data, currentFileContent, storedRecord.id).length === storedRecord.data.changes.length;
+}
+
+/**
+ * Merge the stored records of a file, oldest first, into the ranges of its current content.
+ */
+export function loadRangesFromStoredRecords(storedRecords: StoredRecord[], currentFileContent: string): ExtendedRange[] {
+    let updatedRanges: ExtendedRange[] = [];
+
+    for (const storedRecord of storedRecords) {
+        updatedRanges = mergeRangesSequentially(updatedRanges, deserializeFileState(storedRecord.data, currentFileContent, storedRecord.id));
+    }
+
+    return updatedRanges;
+}
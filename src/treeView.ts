@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { ReportFile, formatTypeCounts } from './report';
+import { SerializedChange } from './types';
+import { describeSymbolChange } from './symbolAttribution';
+
+/** A folder of attributed files, a file, or one of the changes recorded for a file */
+export type AttributionTreeNode =
+    | { kind: 'folder'; workspaceFolder: vscode.WorkspaceFolder; path: string; label: string }
+    | { kind: 'file'; workspaceFolder: vscode.WorkspaceFolder; uri: vscode.Uri; file: ReportFile }
+    | { kind: 'range'; uri: vscode.Uri; change: SerializedChange };
+
+const treeChanges = new vscode.EventEmitter<void>();
+
+/**
+ * Reload the attribution view after stored data has changed
+ */
+export function refreshAttributionTree() {
+    treeChanges.fire();
+}
+
+/**
+ * Lists the files of each workspace folder which have Tab'd data, grouped by folder, and the changes recorded for each
+ */
+export class AttributionTreeProvider implements vscode.TreeDataProvider<AttributionTreeNode> {
+    public readonly onDidChangeTreeData = treeChanges.event;
+    private readonly loadFiles: (workspaceFolder: vscode.WorkspaceFolder) => ReportFile[];
+    private files = new Map<vscode.WorkspaceFolder, ReportFile[]>();
+
+    constructor(
+        loadFiles: (workspaceFolder: vscode.WorkspaceFolder) => ReportFile[]
+    ) {
+        this.loadFiles = loadFiles;
+        treeChanges.event(() => this.files.clear());
+    }
+
+    private getFiles(workspaceFolder: vscode.WorkspaceFolder): ReportFile[] {
+        if (!this.files.has(workspaceFolder)) {
+            try {
+                this.files.set(workspaceFolder, this.loadFiles(workspaceFolder).filter(file => file.changes.length > 0));
+            } catch (error) {
+                console.warn(`Failed to load Tab'd data for ${workspaceFolder.name}:`, error);
+                this.files.set(workspaceFolder, []);
+            }
+        }
+        return this.files.get(workspaceFolder)!;
+    }
+
+    getChildren(node?: AttributionTreeNode): AttributionTreeNode[] {
+        if (!node) {
+            const workspaceFolders = vscode.workspace.workspaceFolders || [];
+            if (workspaceFolders.length === 1) {
+                return this.getFolderChildren(workspaceFolders[0], '');
+            }
+            return workspaceFolders.map(workspaceFolder => ({ kind: 'folder', workspaceFolder, path: '', label: workspaceFolder.name }));
+        }
+
+        if (node.kind === 'folder') {
+            return this.getFolderChildren(node.workspaceFolder, node.path);
+        }
+        if (node.kind === 'file') {
+            return node.file.changes
+                .filter(change => change.start.line !== change.end.line || change.start.character !== change.end.character)
+                .sort((a, b) => a.start.line - b.start.line || a.start.character - b.start.character)
+                .map(change => ({ kind: 'range', uri: node.uri, change }));
+        }
+        return [];
+    }
+
+    private getFolderChildren(workspaceFolder: vscode.WorkspaceFolder, folderPath: string): AttributionTreeNode[] {
+        const prefix = folderPath === '' ? '' : `${folderPath}/`;
+        const folders = new Set<string>();
+        const files: ReportFile[] = [];
+
+        for (const file of this.getFiles(workspaceFolder)) {
+            const filePath = file.path.replace(/\\/g, '/');
+            if (!filePath.startsWith(prefix)) {
+                continue;
+            }
+
+            const rest = filePath.substring(prefix.length);
+            if (rest.includes('/')) {
+                folders.add(rest.substring(0, rest.indexOf('/')));
+            } else {
+                files.push(file);
+            }
+        }
+
+        return [
+            ...[...folders].sort().map((name): AttributionTreeNode => ({ kind: 'folder', workspaceFolder, path: `${prefix}${name}`, label: name })),
+            ...files.sort((a, b) => a.path.localeCompare(b.path)).map((file): AttributionTreeNode => ({ kind: 'file', workspaceFolder, uri: vscode.Uri.joinPath(workspaceFolder.uri, file.path), file })),
+        ];
+    }
+
+    getTreeItem(node: AttributionTreeNode): vscode.TreeItem {
+        if (node.kind === 'folder') {
+            const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Collapsed);
+            item.resourceUri = vscode.Uri.joinPath(node.workspaceFolder.uri, node.path);
+            item.iconPath = node.path === '' ? new vscode.ThemeIcon('root-folder') : vscode.ThemeIcon.Folder;
+            return item;
+        }
+
+        if (node.kind === 'file') {
+            const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = formatTypeCounts(node.file.changes);
+            item.tooltip = `${node.file.path}\n${formatTypeCounts(node.file.changes, '\n')}`;
+            item.contextValue = 'tabdFile';
+            item.iconPath = vscode.ThemeIcon.File;
+            return item;
+        }
+
+        const { label, detail } = describeSymbolChange(node.change);
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.description = detail;
+        item.tooltip = `${label}\n${detail.split(' • ').join('\n')}`;
+        item.command = {
+            title: 'Reveal in Editor',
+            command: 'vscode.open',
+            arguments: [node.uri, {
+                selection: new vscode.Range(node.change.start.line, node.change.start.character, node.change.end.line, node.change.end.character),
+            }],
+        };
+        return item;
+    }
+}
@@ -1,5 +1,17 @@
 import { ExtendedRangeType, ExtendedRange } from './extendedRange';
 
+/** Current version of the SerializedFileState format written to storage */
+export const SERIALIZED_FILE_STATE_VERSION = 2;
+
+export interface SerializedFingerprint {
+    /** SHA-256 checksum of the range text (with line endings normalized to \n) */
+    hash: string;
+    /** Length of the range text (with line endings normalized to \n) */
+    length: number;
+    /** The start of the range text, used to search for the range when its coordinates no longer line up */
+    excerpt: string;
+}
+
 export interface SerializedChange {
     start: { line: number; character: number };
     end: { line: number; character: number };
@@ -12,6 +24,8 @@ export interface SerializedChange {
     aiModel?: string;
     aiExplanation?: string;
     aiType?: string;
+    /** Fingerprint of the text covered by the range when it was saved (version 2 onwards) */
+    fingerprint?: SerializedFingerprint;
 }
 
 export interface SerializedFileState {
@@ -21,8 +35,25 @@ export interface SerializedFileState {
     checksum?: string;
 }
 
+/** A change as saved by version 1, before fingerprints were added */
+export type SerializedChangeV1 = Omit<SerializedChange, 'fingerprint'>;
+
+export interface SerializedFileStateV1 {
+    version: 1;
+    changes: SerializedChangeV1[];
+    checksum?: string;
+}
+
+export interface SerializedFileStateV2 extends SerializedFileState {
+    version: 2;
+}
+
+/** The file state in any of the versions which migrations move between */
+export type VersionedSerializedFileState = SerializedFileStateV1 | SerializedFileStateV2;
+
 export interface FileState {
     changes: ExtendedRange[];
+    /** Id of the record saved earlier in this session, which later saves overwrite (see StorageBackend.save) */
     savePath?: string;
     pasteRanges: ExtendedRange[];
     loadTimestamp?: number;
@@ -1,9 +1,10 @@
+import type { WorkspaceFolder } from "vscode";
 import { URI } from "vscode-uri";
 import * as fs from "fs";
 import * as path from "path";
-import * as vscode from "vscode";
 import * as os from "os";
 import { createHash } from 'crypto';
+import * as zlib from 'zlib';
 
 export const isWin = process.platform.startsWith("win");
 
@@ -74,69 +75,41 @@ export function uniqueFileName(): string {
 	return fileName;
 }
 
-export function shouldProcessFile(uri: URI): boolean {
-	const relativePath = vscode.workspace.asRelativePath(uri, false);
-	const parsedPath = path.parse(relativePath);
-	
-	// Check if the file itself starts with a dot
-	if (parsedPath.name.startsWith('.')) {
-		return false;
-	}
-	
-	// Check if any directory in the path starts with a dot
-	const pathParts = parsedPath.dir.split(path.sep);
-	for (const part of pathParts) {
-		if (part.startsWith('.') && part !== '') {
-			return false;
-		}
-	}
-	
-	return true;
+/**
+ * Get the directory for a workspace's data within the ~/.tabd directory
+ * @param kind The kind of data (e.g. "workspaces")
+ */
+export function getHomeStorageDirectory(kind: string, workspaceFolder: WorkspaceFolder): string {
+	// Create sanitized workspace path for home directory storage
+	const workspacePath = workspaceFolder.uri.fsPath;
+	const sanitizedPath = workspacePath
+		.replace(/[^a-zA-Z0-9]/g, '_')
+		.replace(/_+/g, '_')
+		.replace(/^_|_$/g, '');
+
+	return path.join(os.homedir(), '.tabd', kind, sanitizedPath);
 }
 
-export function getStorageDirectory(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument): string {
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
-	
-	if (storageType === 'homeDirectory') {
-		// Create sanitized workspace path for home directory storage
-		const workspacePath = workspaceFolder.uri.fsPath;
-		const sanitizedPath = workspacePath
-			.replace(/[^a-zA-Z0-9]/g, '_')
-			.replace(/_+/g, '_')
-			.replace(/^_|_$/g, '');
-		
-		return path.join(os.homedir(), '.tabd', 'workspaces', sanitizedPath);
-	} else if (storageType === 'repository') {
-		return path.join(workspaceFolder.uri.fsPath, '.tabd');
-	} else if (storageType === 'gitNotes') {
-		// For gitnotes, use home directory to store temporary files before applying to git notes
-		const workspacePath = workspaceFolder.uri.fsPath;
-		const sanitizedPath = workspacePath
-			.replace(/[^a-zA-Z0-9]/g, '_')
-			.replace(/_+/g, '_')
-			.replace(/^_|_$/g, '');
-		
-		return path.join(os.homedir(), '.tabd', 'gitnotes', sanitizedPath);
-	} else {
-		throw new Error(`Unsupported storage type: ${storageType}`);
+/**
+ * Get the path of a file relative to its workspace folder, with forward slashes on every platform.
+ * This matches vscode.workspace.asRelativePath(uri, false) without needing the editor, and a file outside the
+ * workspace folder keeps its full path.
+ */
+export function getRelativePath(workspaceFolder: WorkspaceFolder, uri: URI): string {
+	const relativePath = path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+	if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+		return uri.fsPath;
 	}
+
+	return relativePath.split(path.sep).join('/');
 }
 
-export function getLogDirectory(workspaceFolder: vscode.WorkspaceFolder, document: vscode.TextDocument): string {
-	const config = vscode.workspace.getConfiguration('tabd');
-	const storageType = config.get<string>('storage', 'repository');
-	
-	if (storageType === 'gitNotes') {
-		// For gitnotes, we don't use a traditional log directory structure
-		// Instead, we create a temp directory for note content files
-		const baseStorageDir = getStorageDirectory(workspaceFolder, document);
-		return path.join(baseStorageDir, 'temp');
-	} else {
-		const baseStorageDir = getStorageDirectory(workspaceFolder, document);
-		const relativePath = vscode.workspace.asRelativePath(document.uri, false);
-		return path.join(baseStorageDir, 'log', relativePath);
-	}
+/**
+ * Check whether a relative path is a dotfile or sits inside a dot directory (such as .git or .tabd)
+ */
+export function isHiddenPath(relativePath: string): boolean {
+	// Check the file and every directory in the path, whichever separator it uses
+	return relativePath.split(/[/\\]/).some(part => part.startsWith('.'));
 }
 
 export function generateDataChecksum(data: string): string {
@@ -147,3 +120,103 @@ export function verifyDataChecksum(data: string, expectedChecksum: string): bool
 	const actualChecksum = generateDataChecksum(data);
 	return actualChecksum === expectedChecksum;
 }
+
+
+// Snapshots not used for this long are removed, and the oldest are removed first beyond the size limit
+const MAX_SNAPSHOT_AGE = 90 * 24 * 60 * 60 * 1000;
+const MAX_SNAPSHOT_DIRECTORY_SIZE = 200 * 1024 * 1024;
+
+export function getSnapshotDirectory(): string {
+	// Snapshots are always kept locally, regardless of the storage type, as they contain full file contents
+	return path.join(os.homedir(), '.tabd', 'snapshots');
+}
+
+export function saveContentSnapshot(checksum: string, content: string): void {
+	const snapshotDir = getSnapshotDirectory();
+	const snapshotPath = path.join(snapshotDir, `${checksum}.gz`);
+	if (fs.existsSync(snapshotPath)) {
+		// Snapshots are content-addressed, so an existing one is identical and only needs to be kept for longer
+		touchContentSnapshot(snapshotPath);
+		return;
+	}
+
+	if (!fs.existsSync(snapshotDir)) {
+		fs.mkdirSync(snapshotDir, { recursive: true });
+	}
+	fs.writeFileSync(snapshotPath, zlib.gzipSync(content));
+}
+
+export function loadContentSnapshot(checksum: string): string | undefined {
+	const snapshotPath = path.join(getSnapshotDirectory(), `${checksum}.gz`);
+	if (!fs.existsSync(snapshotPath)) {
+		return undefined;
+	}
+
+	try {
+		const content = zlib.gunzipSync(fs.readFileSync(snapshotPath)).toString('utf8');
+		if (!verifyDataChecksum(content, checksum)) {
+			return undefined;
+		}
+		touchContentSnapshot(snapshotPath);
+		return content;
+	} catch (error) {
+		console.warn(`Failed to read content snapshot ${snapshotPath}:`, error);
+		return undefined;
+	}
+}
+
+function touchContentSnapshot(snapshotPath: string): void {
+	try {
+		const now = new Date();
+		fs.utimesSync(snapshotPath, now, now);
+	} catch (error) {
+		console.debug(`Failed to update the modification time of content snapshot ${snapshotPath}:`, error);
+	}
+}
+
+/**
+ * Remove content snapshots which have not been saved or used for a while, then the least recently used ones
+ * until the snapshots fit in the size limit. Snapshots are shared by every workspace, so which ones records still
+ * refer to isn't known; records whose snapshot is gone are anchored by their fingerprints instead.
+ * @returns The number of snapshots removed
+ */
+export function pruneContentSnapshots(maxAge: number = MAX_SNAPSHOT_AGE, maxSize: number = MAX_SNAPSHOT_DIRECTORY_SIZE, now: number = Date.now()): number {
+	const snapshotDir = getSnapshotDirectory();
+	if (!fs.existsSync(snapshotDir)) {
+		return 0;
+	}
+
+	const snapshots: { path: string; size: number; modified: number }[] = [];
+	for (const fileName of fs.readdirSync(snapshotDir)) {
+		if (!fileName.endsWith('.gz')) {
+			continue;
+		}
+		const snapshotPath = path.join(snapshotDir, fileName);
+		try {
+			const stats = fs.statSync(snapshotPath);
+			snapshots.push({ path: snapshotPath, size: stats.size, modified: stats.mtimeMs });
+		} catch (error) {
+			console.debug(`Skipping content snapshot ${snapshotPath}, which may have been removed by another window:`, error);
+		}
+	}
+
+	// Newest first, so everything after the size limit is reached can go
+	snapshots.sort((snapshot1, snapshot2) => snapshot2.modified - snapshot1.modified);
+
+	let removed = 0;
+	let totalSize = 0;
+	for (const snapshot of snapshots) {
+		totalSize += snapshot.size;
+		if (now - snapshot.modified <= maxAge && totalSize <= maxSize) {
+			continue;
+		}
+		try {
+			fs.unlinkSync(snapshot.path);
+			removed++;
+		} catch (error) {
+			console.warn(`Failed to remove content snapshot ${snapshot.path}:`, error);
+		}
+	}
+
+	return removed;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import * as vscode from "vscode";
+import { URI } from "vscode-uri";
+import { isHiddenPath } from "./utils";
+import { StorageBackend, getStorageBackend } from "./storage";
+
+/**
+ * Check whether a file should be tracked, which excludes dotfiles and anything inside a dot directory of the workspace
+ */
+export function shouldProcessFile(uri: URI): boolean {
+	return !isHiddenPath(vscode.workspace.asRelativePath(uri, false));
+}
+
+/**
+ * Get the backend for the storage type selected in the `tabd.storage` setting
+ */
+export function getConfiguredStorageBackend(): StorageBackend {
+	const config = vscode.workspace.getConfiguration('tabd');
+	return getStorageBackend(config.get<string>('storage', 'repository'));
+}